@@ -1,7 +1,53 @@
 import clsx from "clsx";
 
+import {
+  API_PROFILES,
+  isApiProfileAvailable,
+  useApiConfig,
+  type ApiProfileId,
+} from "../lib/config";
+import { useFlowStore } from "../state/store";
+
 export type AppView = "dashboard" | "flow";
 
+function ApiProfileSwitcher() {
+  const profileId = useApiConfig((s) => s.profileId);
+  const baseUrl = useApiConfig((s) => s.baseUrl);
+  const setProfile = useApiConfig((s) => s.setProfile);
+
+  const handleChange = (id: ApiProfileId) => {
+    if (id === profileId) return;
+    if (
+      useFlowStore.getState().isDirty &&
+      !window.confirm("Несохранённые изменения сценария будут потеряны. Переключить профиль?")
+    ) {
+      return;
+    }
+    useFlowStore.getState().resetWorkspace();
+    setProfile(id);
+  };
+
+  return (
+    <label
+      title={baseUrl}
+      className="flex items-center gap-2 rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs text-slate-500 shadow-sm"
+    >
+      <span className="font-semibold uppercase tracking-wide text-slate-400">API</span>
+      <select
+        value={profileId}
+        onChange={(event) => handleChange(event.target.value as ApiProfileId)}
+        className="bg-transparent font-medium text-slate-700 focus:outline-none"
+      >
+        {API_PROFILES.map((profile) => (
+          <option key={profile.id} value={profile.id} disabled={!isApiProfileAvailable(profile.id)}>
+            {profile.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
 export default function AppNavigation({
   activeView,
   onChange,
@@ -47,6 +93,8 @@ export default function AppNavigation({
           Конструктор
         </button>
       </div>
+
+      <ApiProfileSwitcher />
     </header>
   );
 }
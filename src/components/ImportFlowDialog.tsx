@@ -0,0 +1,171 @@
+import { useEffect, useState, type ChangeEventHandler } from "react";
+import { createPortal } from "react-dom";
+import clsx from "clsx";
+import { X } from "lucide-react";
+
+import { fetchSites } from "../lib/api";
+import { FlowImportError, planFlowImport, type FlowImportPlan } from "../flow/transfer";
+import { useFlowStore } from "../state/store";
+
+type ConflictStrategy = "create" | "reuse";
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  reuse: "Подключить уже существующие сайты с этим URL",
+  create: "Создать новые сайты, даже если URL уже есть",
+};
+
+export default function ImportFlowDialog({ open, onClose }: { open: boolean; onClose: () => void }) {
+  const importFlow = useFlowStore((s) => s.importFlow);
+
+  const [plan, setPlan] = useState<FlowImportPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>("reuse");
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setPlan(null);
+      setError(null);
+      setStrategy("reuse");
+    }
+  }, [open]);
+
+  const handleFileChange: ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setPlan(null);
+    setError(null);
+    try {
+      const [raw, sites] = await Promise.all([file.text(), fetchSites()]);
+      setPlan(planFlowImport(raw, sites));
+    } catch (err) {
+      setError(err instanceof FlowImportError ? err.message : "Не удалось прочитать файл сценария");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsImporting(true);
+    const ok = await importFlow(plan, strategy);
+    setIsImporting(false);
+
+    if (ok) {
+      onClose();
+    } else {
+      setError("Импорт не удался, подробности в консоли");
+    }
+  };
+
+  if (!open) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/40 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-lg rounded-2xl border border-slate-200 bg-white shadow-xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-slate-200 px-6 py-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">Импорт сценария</h2>
+            <p className="text-xs text-slate-500">JSON-файл, выгруженный через «Экспорт»</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full p-2 text-slate-500 transition hover:bg-slate-100 hover:text-slate-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-400"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4 px-6 py-4 text-sm text-slate-600">
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="block w-full text-xs text-slate-500 file:mr-3 file:rounded-lg file:border-0 file:bg-sky-50 file:px-3 file:py-2 file:text-xs file:font-semibold file:text-sky-600 hover:file:bg-sky-100"
+          />
+
+          {error && (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-600">{error}</div>
+          )}
+
+          {plan && (
+            <>
+              <div className="rounded-xl border border-slate-200/70 bg-slate-50/70 px-3 py-2 text-xs">
+                <p className="font-semibold text-slate-700">{plan.name}</p>
+                <p className="text-slate-500">
+                  {plan.nodes.length} узлов • {plan.edges.length} связей
+                </p>
+              </div>
+
+              {plan.warnings.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">Предупреждения</p>
+                  <ul className="max-h-32 space-y-1 overflow-y-auto text-xs text-amber-600">
+                    {plan.warnings.map((warning, index) => (
+                      <li key={`${warning}-${index}`}>• {warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {plan.conflicts.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                    Сайты уже существуют
+                  </p>
+                  <ul className="max-h-32 space-y-1 overflow-y-auto text-xs">
+                    {plan.conflicts.map((conflict) => (
+                      <li key={conflict.nodeId} className="flex items-center justify-between gap-2">
+                        <span className="truncate text-slate-700">{conflict.url}</span>
+                        <span className="flex-none text-slate-400">«{conflict.existingSite.name}»</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="space-y-1">
+                    {(Object.keys(STRATEGY_LABELS) as ConflictStrategy[]).map((option) => (
+                      <label key={option} className="flex items-center gap-2 text-xs text-slate-600">
+                        <input
+                          type="radio"
+                          name="import-conflicts"
+                          checked={strategy === option}
+                          onChange={() => setStrategy(option)}
+                        />
+                        {STRATEGY_LABELS[option]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-slate-200 px-6 py-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-xl border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 transition hover:border-slate-300"
+          >
+            Отмена
+          </button>
+          <button
+            type="button"
+            disabled={!plan || isImporting}
+            onClick={() => void handleImport()}
+            className={clsx(
+              "rounded-xl px-4 py-2 text-sm font-semibold text-white shadow-sm transition",
+              !plan || isImporting ? "bg-slate-300" : "bg-sky-500 hover:bg-sky-600"
+            )}
+          >
+            {isImporting ? "Импорт…" : "Импортировать"}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -3,14 +3,30 @@ import clsx from "clsx";
 import { useShallow } from "zustand/react/shallow";
 
 import { useFlowStore } from "../state/store";
+import AssertionsSection from "./inspector/AssertionsSection";
+import ConditionSection from "./inspector/ConditionSection";
+import EmailSection from "./inspector/EmailSection";
+import LlmSection from "./inspector/LlmSection";
+import MessengerSection from "./inspector/MessengerSection";
+import NoiseSection from "./inspector/NoiseSection";
+import ProbeSection from "./inspector/ProbeSection";
+import SwimlaneSection from "./inspector/SwimlaneSection";
+import TelegramLinksSection from "./inspector/TelegramLinksSection";
+import TelegramSection from "./inspector/TelegramSection";
+import WebhookSection from "./inspector/WebhookSection";
+import WebsiteCheckSection from "./inspector/WebsiteCheckSection";
 import {
   DEFAULT_PING_INTERVAL,
   MAX_PING_INTERVAL,
   MIN_PING_INTERVAL,
+  isMonitorVariant,
+  isSwimlane,
   normalizePingInterval,
   type BlockVariant,
   type NodeStatus,
 } from "../flow/nodes/types";
+import { readAssertions, withAssertions } from "../flow/nodes/assertions";
+import { MONITOR_TARGET_FIELDS, buildTargetUrl, stripTargetScheme } from "../flow/nodes/monitors";
 
 
 const statusOptions: { value: NodeStatus; label: string; className: string }[] = [
@@ -22,29 +38,48 @@ const statusOptions: { value: NodeStatus; label: string; className: string }[] =
 
 const typeLabels: Record<BlockVariant, string> = {
   website: "Источник",
+  tcp: "Источник",
+  dns: "Источник",
+  ping: "Источник",
+  tls: "Источник",
+  heartbeat: "Источник",
   llm: "Логика",
   messenger: "Доставка",
   telegram: "Доставка",
+  email: "Доставка",
+  webhook: "Доставка",
+  condition: "Логика",
+  noise: "Логика",
 };
 
 export default function Inspector() {
-  const { selectedNodeId, nodes, updateNodeData, deleteSiteNode, removeNode, setSelectedNode } =
-    useFlowStore(
-      useShallow((state) => ({
-        selectedNodeId: state.selectedNodeId,
-        nodes: state.nodes,
-        updateNodeData: state.updateNodeData,
-        deleteSiteNode: state.deleteSiteNode,
-        removeNode: state.removeNode,
-        setSelectedNode: state.setSelectedNode,
-      }))
-    );
+  const {
+    selectedNodeId,
+    nodes,
+    nodeOutputs,
+    updateNodeData,
+    deleteSiteNode,
+    removeNode,
+    setSelectedNode,
+  } = useFlowStore(
+    useShallow((state) => ({
+      selectedNodeId: state.selectedNodeId,
+      nodes: state.nodes,
+      nodeOutputs: state.nodeOutputs,
+      updateNodeData: state.updateNodeData,
+      deleteSiteNode: state.deleteSiteNode,
+      removeNode: state.removeNode,
+      setSelectedNode: state.setSelectedNode,
+    }))
+  );
 
   const node = useMemo(
     () => nodes.find((candidate) => candidate.id === selectedNodeId),
     [nodes, selectedNodeId]
   );
 
+  const lastRun = node ? nodeOutputs[node.id] : undefined;
+
   const [form, setForm] = useState({
     title: "",
     description: "",
@@ -85,6 +120,16 @@ export default function Inspector() {
       }
     };
 
+  // у не-HTTP проверок адрес вводится без схемы, в url сайта она добавляется
+  const handleTargetChange: ChangeEventHandler<HTMLInputElement> = (event) => {
+    if (!node || !isMonitorVariant(node.type)) return;
+    const value = node.type === "website" ? event.target.value : buildTargetUrl(node.type, event.target.value);
+    setForm((prev) => ({ ...prev, description: value }));
+    if (node.data.description !== value) {
+      updateNodeData(node.id, { description: value });
+    }
+  };
+
   const handleStatusChange = (status: NodeStatus) => {
     setForm((prev) => ({ ...prev, status }));
     if (node && node.data.status !== status) {
@@ -138,7 +183,7 @@ export default function Inspector() {
   };
 
   const handleDeleteWebsite = () => {
-    if (!node || node.type !== "website") return;
+    if (!node || !isMonitorVariant(node.type)) return;
 
     if (node.id.startsWith("temp-")) {
       removeNode(node.id);
@@ -163,19 +208,19 @@ export default function Inspector() {
   }
 
   return (
-    <aside className="hidden w-80 flex-none flex-col border-l border-slate-200 bg-white/85 px-6 pb-6 pt-5 backdrop-blur lg:flex">
+    <aside className="hidden w-80 flex-none flex-col overflow-y-auto border-l border-slate-200 bg-white/85 px-6 pb-6 pt-5 backdrop-blur lg:flex">
       <div className="flex items-center justify-between">
         <div>
           <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Инспектор</p>
           <p className="text-xs text-slate-500">Настройка выбранного блока</p>
         </div>
         <span className="rounded-full border border-slate-200 px-2 py-1 text-[11px] font-semibold uppercase text-slate-400">
-          {typeLabels[node.type as BlockVariant] ?? node.type}
+          {isSwimlane(node) ? "Группа" : (typeLabels[node.type as BlockVariant] ?? node.type)}
         </span>
       </div>
 
       <div className="mt-5 space-y-5">
-        {node.type === "website" ? (
+        {isMonitorVariant(node.type) ? (
           <>
             <div className="space-y-2">
               <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">Название</label>
@@ -188,29 +233,59 @@ export default function Inspector() {
               />
             </div>
 
-            <div className="space-y-2">
-              <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">URL</label>
-              <input
-                value={form.description}
-                onChange={handleChange("description")}
-                placeholder="https://example.com"
-                className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200"
-              />
-            </div>
-
-            <div className="space-y-2">
-              <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">Интервал опроса (сек)</label>
-              <input
-                type="number"
-                min={MIN_PING_INTERVAL}
-                max={MAX_PING_INTERVAL}
+            {node.type !== "heartbeat" && (
+              <>
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+                    {MONITOR_TARGET_FIELDS[node.type].label}
+                  </label>
+                  <input
+                    value={stripTargetScheme(node.type, form.description)}
+                    onChange={handleTargetChange}
+                    placeholder={MONITOR_TARGET_FIELDS[node.type].placeholder}
+                    className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200"
+                  />
+                </div>
 
-                value={form.ping_interval}
-                onChange={handlePingIntervalChange}
-                onBlur={handlePingIntervalBlur}
-                className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200"
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-400">Интервал опроса (сек)</label>
+                  <input
+                    type="number"
+                    min={MIN_PING_INTERVAL}
+                    max={MAX_PING_INTERVAL}
+
+                    value={form.ping_interval}
+                    onChange={handlePingIntervalChange}
+                    onBlur={handlePingIntervalBlur}
+                    className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200"
+                  />
+                </div>
+              </>
+            )}
+
+            {node.type === "website" ? (
+              <>
+                <WebsiteCheckSection
+                  nodeId={node.id}
+                  check={node.data.check}
+                  onChange={(check) => updateNodeData(node.id, { check })}
+                />
+
+                <AssertionsSection
+                  assertions={readAssertions(node.data.com)}
+                  onChange={(assertions) => updateNodeData(node.id, { com: withAssertions(node.data.com, assertions) })}
+                />
+              </>
+            ) : (
+              <ProbeSection
+                variant={node.type}
+                target={node.data.description}
+                probe={node.data.probe}
+                onChange={(probe) => updateNodeData(node.id, { probe })}
               />
-            </div>
+            )}
+
+            <TelegramLinksSection siteId={node.id} com={node.data.com} />
 
             <button
               type="button"
@@ -220,11 +295,6 @@ export default function Inspector() {
               🗑 Удалить блок
             </button>
           </>
-        ) : node.type === "telegram" ? (
-          <div className="rounded-xl border border-emerald-100 bg-emerald-50/70 px-4 py-3 text-sm text-emerald-700 shadow-sm">
-            Этот Telegram-бот не имеет настраиваемых параметров. Просто подключите к нему нужные сайты.
-          </div>
-
         ) : (
           <>
             <div className="space-y-2">
@@ -246,29 +316,85 @@ export default function Inspector() {
                 className="w-full resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200"
               />
             </div>
+
+            {isSwimlane(node) && <SwimlaneSection key={node.id} lane={node} />}
+
+            {node.type === "llm" && (
+              <LlmSection
+                nodeId={node.id}
+                config={node.data.llm}
+                onChange={(llm) => updateNodeData(node.id, { llm })}
+              />
+            )}
+
+            {node.type === "condition" && (
+              <ConditionSection
+                rule={node.data.condition}
+                onChange={(condition) => updateNodeData(node.id, { condition })}
+              />
+            )}
+
+            {node.type === "noise" && (
+              <NoiseSection rule={node.data.noise} onChange={(noise) => updateNodeData(node.id, { noise })} />
+            )}
+
+            {node.type === "messenger" && (
+              <MessengerSection
+                key={node.id}
+                config={node.data.messenger}
+                onChange={(messenger) => updateNodeData(node.id, { messenger })}
+              />
+            )}
+
+            {node.type === "email" && (
+              <EmailSection
+                key={node.id}
+                config={node.data.email}
+                onChange={(email) => updateNodeData(node.id, { email })}
+              />
+            )}
+
+            {node.type === "webhook" && (
+              <WebhookSection
+                key={node.id}
+                nodeId={node.id}
+                config={node.data.webhook}
+                onChange={(webhook) => updateNodeData(node.id, { webhook })}
+              />
+            )}
+
+            {node.type === "telegram" && (
+              <TelegramSection
+                key={node.id}
+                config={node.data.telegram}
+                onChange={(telegram) => updateNodeData(node.id, { telegram })}
+              />
+            )}
           </>
         )}
 
-        {/* Статус */}
-        <div className="space-y-2">
-          <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Статус</span>
-          <div className="grid grid-cols-2 gap-2">
-            {statusOptions.map((option) => (
-              <button
-                key={option.value}
-                type="button"
-                onClick={() => handleStatusChange(option.value)}
-                className={clsx(
-                  "rounded-xl border px-3 py-2 text-xs font-semibold transition",
-                  option.className,
-                  form.status === option.value && "ring-2 ring-offset-1 ring-sky-200"
-                )}
-              >
-                {option.label}
-              </button>
-            ))}
+        {/* Статус; у группы он сводный и показан на рамке */}
+        {!isSwimlane(node) && (
+          <div className="space-y-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Статус</span>
+            <div className="grid grid-cols-2 gap-2">
+              {statusOptions.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => handleStatusChange(option.value)}
+                  className={clsx(
+                    "rounded-xl border px-3 py-2 text-xs font-semibold transition",
+                    option.className,
+                    form.status === option.value && "ring-2 ring-offset-1 ring-sky-200"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Метаданные read-only */}
         {node.data.metadata && node.data.metadata.length > 0 && (
@@ -288,6 +414,34 @@ export default function Inspector() {
           </div>
         )}
 
+        {/* Результат последнего запуска */}
+        {lastRun && (
+          <div className="space-y-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-400">Последний запуск</span>
+            <div className="space-y-2 rounded-xl border border-slate-100 bg-slate-50/70 px-3 py-2 text-xs text-slate-600">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-slate-500">Результат</span>
+                <span className={lastRun.status === "error" ? "text-rose-600" : "text-emerald-600"}>
+                  {lastRun.status === "error" ? "Ошибка" : "Готово"}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-slate-500">Завершён</span>
+                <span className="text-slate-700">{new Date(lastRun.finishedAt).toLocaleTimeString()}</span>
+              </div>
+              {lastRun.error && <p className="text-rose-600">{lastRun.error}</p>}
+              {lastRun.output?.kind === "delivery" && lastRun.output.preview && (
+                <p className="text-slate-500">Сообщения отправит сервер по итогам проверки сайта, здесь — их текст</p>
+              )}
+            </div>
+            {lastRun.output && (
+              <pre className="max-h-48 overflow-auto rounded-xl border border-slate-200/70 bg-slate-950/95 p-3 text-[11px] text-slate-200">
+                {JSON.stringify(lastRun.output, null, 2)}
+              </pre>
+            )}
+          </div>
+        )}
+
         {/* Служебка */}
         <div className="space-y-1 text-xs text-slate-400">
           <div className="flex items-center justify-between">
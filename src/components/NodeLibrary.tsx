@@ -1,7 +1,9 @@
-import { useMemo, useState } from "react";
+import { useMemo, useState, type KeyboardEventHandler } from "react";
 import clsx from "clsx";
 
 import { NODE_LIBRARY } from "../flow/library";
+import { useFlowStore } from "../state/store";
+import type { FlowSummary } from "../lib/api";
 
 const DASHBOARD_PRESETS = [
   {
@@ -73,11 +75,117 @@ function SectionToggle({
   );
 }
 
+function FlowListItem({
+  flow,
+  isActive,
+}: {
+  flow: FlowSummary;
+  isActive: boolean;
+}) {
+  const openFlow = useFlowStore((s) => s.openFlow);
+  const renameFlow = useFlowStore((s) => s.renameFlow);
+  const duplicateFlow = useFlowStore((s) => s.duplicateFlow);
+  const deleteFlow = useFlowStore((s) => s.deleteFlow);
+
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(flow.name);
+
+  const submitRename = () => {
+    setIsRenaming(false);
+    const nextName = draftName.trim();
+    if (nextName && nextName !== flow.name) {
+      void renameFlow(flow.id, nextName);
+    } else {
+      setDraftName(flow.name);
+    }
+  };
+
+  const handleKeyDown: KeyboardEventHandler<HTMLInputElement> = (event) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      submitRename();
+    }
+    if (event.key === "Escape") {
+      event.preventDefault();
+      setDraftName(flow.name);
+      setIsRenaming(false);
+    }
+  };
+
+  const handleDelete = () => {
+    const confirmed = window.confirm(`Удалить сценарий «${flow.name}» вместе с его сайтами?`);
+    if (confirmed) {
+      void deleteFlow(flow.id);
+    }
+  };
+
+  const actionClass =
+    "rounded-lg px-1.5 py-1 text-xs text-slate-400 transition hover:bg-slate-100 hover:text-slate-600";
+
+  return (
+    <div
+      className={clsx(
+        "group flex items-center gap-2 rounded-2xl border px-3 py-2 shadow-sm transition",
+        isActive ? "border-sky-300 bg-sky-50/70" : "border-slate-200 bg-white hover:border-sky-300"
+      )}
+    >
+      {isRenaming ? (
+        <input
+          value={draftName}
+          onChange={(event) => setDraftName(event.target.value)}
+          onBlur={submitRename}
+          onKeyDown={handleKeyDown}
+          autoFocus
+          className="min-w-0 flex-1 rounded-lg border border-sky-300 bg-white px-2 py-1 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-sky-200"
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => void openFlow(flow.id)}
+          className="min-w-0 flex-1 text-left focus:outline-none"
+        >
+          <p className="truncate text-sm font-semibold text-slate-700">{flow.name}</p>
+          <p className="text-[11px] text-slate-400">{flow.site_ids.length} сайтов</p>
+        </button>
+      )}
+      <div className="flex flex-none items-center opacity-0 transition-opacity group-hover:opacity-100">
+        <button
+          type="button"
+          title="Переименовать"
+          onClick={() => {
+            setDraftName(flow.name);
+            setIsRenaming(true);
+          }}
+          className={actionClass}
+        >
+          ✏️
+        </button>
+        <button
+          type="button"
+          title="Дублировать"
+          onClick={() => void duplicateFlow(flow.id)}
+          className={actionClass}
+        >
+          ⧉
+        </button>
+        <button type="button" title="Удалить" onClick={handleDelete} className={actionClass}>
+          🗑
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export default function NodeLibrary() {
   const [query, setQuery] = useState("");
   const [dashboardsOpen, setDashboardsOpen] = useState(false);
+  const [flowsOpen, setFlowsOpen] = useState(true);
   const [libraryOpen, setLibraryOpen] = useState(true);
 
+  const flows = useFlowStore((s) => s.flows);
+  const activeFlowId = useFlowStore((s) => s.activeFlowId);
+  const createFlow = useFlowStore((s) => s.createFlow);
+
   const filtered = useMemo(() => {
     const search = normalize(query);
 
@@ -154,6 +262,35 @@ export default function NodeLibrary() {
           </div>
         </div>
 
+        <div>
+          <SectionToggle
+            title="Сценарии"
+            subtitle="Отдельный граф для каждой линейки"
+            counter={flows.length}
+            isOpen={flowsOpen}
+            onToggle={() => setFlowsOpen((prev) => !prev)}
+          />
+          <div
+            className={clsx(
+              "space-y-2 overflow-hidden px-1 pt-3 transition-all duration-300 ease-in-out",
+              flowsOpen
+                ? "max-h-[420px] overflow-y-auto opacity-100"
+                : "pointer-events-none max-h-0 -translate-y-2 opacity-0"
+            )}
+          >
+            {flows.map((flow) => (
+              <FlowListItem key={flow.id} flow={flow} isActive={flow.id === activeFlowId} />
+            ))}
+            <button
+              type="button"
+              onClick={() => void createFlow()}
+              className="w-full rounded-2xl border border-dashed border-slate-300 px-3 py-2 text-sm font-semibold text-slate-500 transition hover:border-sky-300 hover:text-sky-600 focus:outline-none focus:ring-2 focus:ring-sky-200"
+            >
+              ＋ Новый сценарий
+            </button>
+          </div>
+        </div>
+
         <div className="flex-1">
           <SectionToggle
             title="Библиотека"
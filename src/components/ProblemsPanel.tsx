@@ -0,0 +1,99 @@
+import { useMemo } from "react";
+import clsx from "clsx";
+import { AlertTriangle, CircleX } from "lucide-react";
+import { useReactFlow } from "reactflow";
+
+import { useFlowStore } from "../state/store";
+import { validateFlow, type FlowProblem } from "../utils/validation";
+
+const FOCUS_ZOOM = 1.1;
+
+// Список проблем сценария; клик по строке выделяет узел и центрирует на нём холст
+export default function ProblemsPanel() {
+  const reactFlow = useReactFlow();
+  const nodes = useFlowStore((s) => s.nodes);
+  const edges = useFlowStore((s) => s.edges);
+  const setNodes = useFlowStore((s) => s.setNodes);
+  const setSelectedNode = useFlowStore((s) => s.setSelectedNode);
+  const updateSwimlane = useFlowStore((s) => s.updateSwimlane);
+  const isOpen = useFlowStore((s) => s.isProblemsOpen);
+  const setProblemsOpen = useFlowStore((s) => s.setProblemsOpen);
+
+  const problems = useMemo(() => validateFlow(nodes, edges), [nodes, edges]);
+  const errorCount = problems.filter((problem) => problem.severity === "error").length;
+  const warningCount = problems.length - errorCount;
+
+  const focusProblem = (problem: FlowProblem) => {
+    const node = reactFlow.getNode(problem.nodeId);
+    if (!node) return;
+    // блок в свёрнутой группе иначе не увидеть
+    if (node.hidden && node.parentNode) updateSwimlane(node.parentNode, { collapsed: false });
+
+    setNodes((nds) =>
+      nds.map((candidate) =>
+        candidate.selected === (candidate.id === node.id) ? candidate : { ...candidate, selected: candidate.id === node.id }
+      )
+    );
+    setSelectedNode(node.id);
+    const origin = node.positionAbsolute ?? node.position;
+    reactFlow.setCenter(origin.x + (node.width ?? 0) / 2, origin.y + (node.height ?? 0) / 2, {
+      zoom: Math.max(reactFlow.getZoom(), FOCUS_ZOOM),
+      duration: 400,
+    });
+  };
+
+  return (
+    <div className="w-80 rounded-2xl border border-slate-200 bg-white/90 text-xs shadow-sm backdrop-blur">
+      <button
+        type="button"
+        onClick={() => setProblemsOpen(!isOpen)}
+        disabled={problems.length === 0}
+        className="flex w-full items-center justify-between gap-2 px-4 py-2 font-semibold text-slate-600"
+      >
+        {problems.length === 0 ? (
+          <span className="text-emerald-600">✓ Проблем не найдено</span>
+        ) : (
+          <span className="flex items-center gap-3">
+            Проблемы
+            {errorCount > 0 && (
+              <span className="flex items-center gap-1 text-rose-600">
+                <CircleX className="h-3.5 w-3.5" /> {errorCount}
+              </span>
+            )}
+            {warningCount > 0 && (
+              <span className="flex items-center gap-1 text-amber-600">
+                <AlertTriangle className="h-3.5 w-3.5" /> {warningCount}
+              </span>
+            )}
+          </span>
+        )}
+        {problems.length > 0 && (
+          <span className={clsx("transition-transform", isOpen ? "rotate-180" : "rotate-0")}>▾</span>
+        )}
+      </button>
+
+      {isOpen && problems.length > 0 && (
+        <div className="max-h-64 space-y-1 overflow-y-auto border-t border-slate-100 p-2">
+          {errorCount > 0 && (
+            <p className="px-2 pb-1 text-[11px] text-rose-500">Пока есть ошибки, сценарий не запустится</p>
+          )}
+          {problems.map((problem) => (
+            <button
+              key={problem.id}
+              type="button"
+              onClick={() => focusProblem(problem)}
+              className="flex w-full items-start gap-2 rounded-lg px-2 py-1.5 text-left text-slate-600 transition hover:bg-slate-50"
+            >
+              {problem.severity === "error" ? (
+                <CircleX className="mt-0.5 h-3.5 w-3.5 flex-none text-rose-500" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 flex-none text-amber-500" />
+              )}
+              <span>{problem.message}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
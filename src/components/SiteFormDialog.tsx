@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent, type FormEvent } from "react";
+import { createPortal } from "react-dom";
+import clsx from "clsx";
+import { X } from "lucide-react";
+
+import {
+  DEFAULT_PING_INTERVAL,
+  MAX_PING_INTERVAL,
+  MIN_PING_INTERVAL,
+  isMonitorVariant,
+  type BaseNodeData,
+  type MonitorVariant,
+} from "../flow/nodes/types";
+import { MONITOR_TARGET_FIELDS, createHeartbeatToken, stripTargetScheme } from "../flow/nodes/monitors";
+import { validateSiteForm, type SiteFormValues } from "../flow/nodes/siteForm";
+import { useFlowStore } from "../state/store";
+
+const EMPTY_VALUES: SiteFormValues = { url: "", name: "", ping_interval: String(DEFAULT_PING_INTERVAL) };
+
+const FIELDS: { key: keyof SiteFormValues; label: string; placeholder: string; hint?: string }[] = [
+  { key: "url", label: "URL", placeholder: "https://example.com" },
+  { key: "name", label: "Название", placeholder: "Например, Главная страница" },
+  {
+    key: "ping_interval",
+    label: "Интервал опроса (сек)",
+    placeholder: String(DEFAULT_PING_INTERVAL),
+    hint: `от ${MIN_PING_INTERVAL} до ${MAX_PING_INTERVAL}`,
+  },
+];
+
+// heartbeat не опрашивается: адрес — выданный токен, интервал не настраивается
+const fieldsFor = (variant: MonitorVariant) =>
+  variant === "heartbeat" ? FIELDS.filter((field) => field.key === "name") : FIELDS;
+
+const defaultTarget = (variant: MonitorVariant) =>
+  variant === "heartbeat" ? createHeartbeatToken() : MONITOR_TARGET_FIELDS[variant].placeholder;
+
+const toFormValues = (variant: MonitorVariant, data: BaseNodeData, fallbackName: string): SiteFormValues => ({
+  url: stripTargetScheme(variant, data.description?.trim() || defaultTarget(variant)),
+  name: data.title?.trim() || fallbackName,
+  ping_interval: String(data.ping_interval ?? DEFAULT_PING_INTERVAL),
+});
+
+export default function SiteFormDialog() {
+  const request = useFlowStore((s) => s.siteForm);
+  const nodes = useFlowStore((s) => s.nodes);
+  const closeSiteForm = useFlowStore((s) => s.closeSiteForm);
+  const createSiteNode = useFlowStore((s) => s.createSiteNode);
+  const updateNodeData = useFlowStore((s) => s.updateNodeData);
+
+  const [values, setValues] = useState<SiteFormValues>(EMPTY_VALUES);
+  const [touched, setTouched] = useState<Partial<Record<keyof SiteFormValues, boolean>>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const firstFieldRef = useRef<HTMLInputElement>(null);
+
+  const editedNode =
+    request?.mode === "edit"
+      ? nodes.find((node) => node.id === request.nodeId && isMonitorVariant(node.type))
+      : undefined;
+  const variant: MonitorVariant =
+    request?.mode === "create" ? request.variant : isMonitorVariant(editedNode?.type) ? editedNode.type : "website";
+
+  // форма заполняется один раз при открытии, дальнейшие изменения узла её не сбрасывают
+  useEffect(() => {
+    if (!request) return;
+    if (request.mode === "create") {
+      setValues(toFormValues(request.variant, request.template, "Новый сайт"));
+    } else {
+      const current = useFlowStore.getState().nodes.find((node) => node.id === request.nodeId);
+      setValues(
+        current && isMonitorVariant(current.type) ? toFormValues(current.type, current.data, "") : EMPTY_VALUES
+      );
+    }
+    setTouched({});
+    setSubmitError(null);
+    setIsSubmitting(false);
+    requestAnimationFrame(() => firstFieldRef.current?.select());
+  }, [request]);
+
+  const existingUrls = useMemo(
+    () =>
+      nodes
+        .filter((node) => isMonitorVariant(node.type) && node.id !== editedNode?.id)
+        .map((node) => node.data.description ?? "")
+        .filter(Boolean),
+    [editedNode?.id, nodes]
+  );
+
+  const { errors, result } = validateSiteForm(values, existingUrls, variant);
+
+  useEffect(() => {
+    if (!request) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") closeSiteForm();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [closeSiteForm, request]);
+
+  // узел удалили, пока форма была открыта
+  useEffect(() => {
+    if (request?.mode === "edit" && !editedNode) closeSiteForm();
+  }, [closeSiteForm, editedNode, request]);
+
+  if (!request) return null;
+
+  const handleChange = (key: keyof SiteFormValues) => (event: ChangeEvent<HTMLInputElement>) => {
+    setValues((prev) => ({ ...prev, [key]: event.target.value }));
+  };
+
+  const handleBlur = (key: keyof SiteFormValues) => () => {
+    setTouched((prev) => ({ ...prev, [key]: true }));
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setTouched({ url: true, name: true, ping_interval: true });
+    if (!result || isSubmitting) return;
+
+    if (request.mode === "edit") {
+      if (!editedNode) return;
+      const updates: Partial<BaseNodeData> = {};
+      if (result.url !== editedNode.data.description) updates.description = result.url;
+      if (result.name !== editedNode.data.title) updates.title = result.name;
+      if (result.ping_interval !== (editedNode.data.ping_interval ?? DEFAULT_PING_INTERVAL)) {
+        updates.ping_interval = result.ping_interval;
+      }
+      if (Object.keys(updates).length > 0) updateNodeData(editedNode.id, updates);
+      closeSiteForm();
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    const created = await createSiteNode(request.variant, request.position, request.template, result);
+    setIsSubmitting(false);
+
+    if (created) {
+      closeSiteForm();
+    } else {
+      setSubmitError("Не удалось создать сайт, подробности в консоли");
+    }
+  };
+
+  const isCreate = request.mode === "create";
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/40 backdrop-blur-sm"
+      onClick={closeSiteForm}
+    >
+      <form
+        noValidate
+        onSubmit={(event) => void handleSubmit(event)}
+        className="w-full max-w-md rounded-2xl border border-slate-200 bg-white shadow-xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-slate-200 px-6 py-4">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">
+              {variant === "website" ? (isCreate ? "Новый сайт" : "Изменить сайт") : isCreate ? "Новая проверка" : "Изменить проверку"}
+            </h2>
+            <p className="text-xs text-slate-500">
+              {isCreate ? "Проверка сразу появится в мониторинге" : "Изменения сохранятся на сервере автоматически"}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={closeSiteForm}
+            className="rounded-full p-2 text-slate-500 transition hover:bg-slate-100 hover:text-slate-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-400"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4 px-6 py-4">
+          {fieldsFor(variant).map((baseField, index) => {
+            const field = baseField.key === "url" ? { ...baseField, ...MONITOR_TARGET_FIELDS[variant] } : baseField;
+            const error = touched[field.key] ? errors[field.key] : undefined;
+            return (
+              <div key={field.key} className="space-y-1">
+                <label className="flex items-baseline justify-between text-xs font-semibold uppercase tracking-wide text-slate-400">
+                  {field.label}
+                  {field.hint && <span className="font-normal normal-case tracking-normal">{field.hint}</span>}
+                </label>
+                <input
+                  ref={index === 0 ? firstFieldRef : undefined}
+                  type={field.key === "ping_interval" ? "number" : "text"}
+                  inputMode={
+                    field.key === "ping_interval" ? "numeric" : field.key === "url" && variant === "website" ? "url" : undefined
+                  }
+                  value={values[field.key]}
+                  onChange={handleChange(field.key)}
+                  onBlur={handleBlur(field.key)}
+                  placeholder={field.placeholder}
+                  aria-invalid={Boolean(error)}
+                  className={clsx(
+                    "w-full rounded-xl border bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:outline-none focus:ring-2",
+                    error
+                      ? "border-rose-300 focus:border-rose-300 focus:ring-rose-200"
+                      : "border-slate-200 focus:border-sky-300 focus:ring-sky-200"
+                  )}
+                />
+                {error && <p className="text-xs text-rose-600">{error}</p>}
+              </div>
+            );
+          })}
+
+          {submitError && (
+            <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs text-rose-600">
+              {submitError}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-slate-200 px-6 py-4">
+          <button
+            type="button"
+            onClick={closeSiteForm}
+            className="rounded-xl border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-600 transition hover:border-slate-300"
+          >
+            Отмена
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className={clsx(
+              "rounded-xl px-4 py-2 text-sm font-semibold text-white shadow-sm transition",
+              isSubmitting ? "bg-slate-300" : "bg-sky-500 hover:bg-sky-600"
+            )}
+          >
+            {isSubmitting ? "Сохранение…" : isCreate ? "Создать" : "Сохранить"}
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body,
+  );
+}
@@ -1,8 +1,155 @@
-import { useEffect, useState, type KeyboardEventHandler } from "react";
+import { useEffect, useRef, useState, type KeyboardEventHandler } from "react";
 import clsx from "clsx";
 
+import { exportFlow } from "../flow/transfer";
 import { useFlowStore } from "../state/store";
 import { formatRelativeTime } from "../utils/date";
+import ImportFlowDialog from "./ImportFlowDialog";
+
+const downloadJson = (fileName: string, payload: unknown) => {
+  const blob = new Blob([JSON.stringify(payload, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+function FlowMenu() {
+  const flows = useFlowStore((s) => s.flows);
+  const activeFlowId = useFlowStore((s) => s.activeFlowId);
+  const openFlow = useFlowStore((s) => s.openFlow);
+  const createFlow = useFlowStore((s) => s.createFlow);
+  const duplicateFlow = useFlowStore((s) => s.duplicateFlow);
+  const deleteFlow = useFlowStore((s) => s.deleteFlow);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleEscape);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleEscape);
+    };
+  }, [isOpen]);
+
+  const runAndClose = (action: () => Promise<void>) => {
+    setIsOpen(false);
+    void action();
+  };
+
+  const handleDelete = () => {
+    if (!activeFlowId) return;
+    const flow = flows.find((candidate) => candidate.id === activeFlowId);
+    const confirmed = window.confirm(
+      `Удалить сценарий «${flow?.name ?? ""}» вместе с его сайтами?`
+    );
+    if (!confirmed) return;
+    runAndClose(() => deleteFlow(activeFlowId));
+  };
+
+  const handleExport = () => {
+    setIsOpen(false);
+    const { flowName, nodes, edges } = useFlowStore.getState();
+    const fileName = `${flowName.trim().replace(/[\\/:*?"<>|]+/g, "_") || "flow"}.pingtower.json`;
+    downloadJson(fileName, exportFlow(flowName, nodes, edges));
+  };
+
+  const itemClass =
+    "flex w-full items-center justify-between gap-3 rounded-lg px-3 py-2 text-left text-sm transition hover:bg-slate-50";
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-500 transition hover:border-sky-300 hover:text-sky-600"
+      >
+        Сценарии
+        <span className="rounded-full bg-slate-100 px-1.5 text-[10px] text-slate-500">{flows.length}</span>
+        <span className={clsx("transition-transform", isOpen ? "rotate-180" : "rotate-0")}>▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full z-20 mt-2 w-72 rounded-2xl border border-slate-200 bg-white p-2 shadow-lg">
+          <div className="max-h-64 space-y-1 overflow-y-auto">
+            {flows.map((flow) => (
+              <button
+                key={flow.id}
+                type="button"
+                onClick={() => runAndClose(() => openFlow(flow.id))}
+                className={clsx(
+                  itemClass,
+                  flow.id === activeFlowId ? "bg-sky-50 text-sky-700" : "text-slate-700"
+                )}
+              >
+                <span className="truncate font-medium">{flow.name}</span>
+                <span className="flex-none text-[11px] text-slate-400">{flow.site_ids.length} сайтов</span>
+              </button>
+            ))}
+          </div>
+          <div className="mt-2 space-y-1 border-t border-slate-100 pt-2">
+            <button
+              type="button"
+              onClick={() => runAndClose(() => createFlow())}
+              className={clsx(itemClass, "text-slate-600")}
+            >
+              ＋ Новый сценарий
+            </button>
+            <button
+              type="button"
+              disabled={!activeFlowId}
+              onClick={() => activeFlowId && runAndClose(() => duplicateFlow(activeFlowId))}
+              className={clsx(itemClass, "text-slate-600 disabled:opacity-50")}
+            >
+              ⧉ Дублировать текущий
+            </button>
+            <button
+              type="button"
+              disabled={!activeFlowId}
+              onClick={handleDelete}
+              className={clsx(itemClass, "text-rose-600 disabled:opacity-50")}
+            >
+              🗑 Удалить текущий
+            </button>
+          </div>
+          <div className="mt-2 space-y-1 border-t border-slate-100 pt-2">
+            <button type="button" onClick={handleExport} className={clsx(itemClass, "text-slate-600")}>
+              ⤓ Экспорт в JSON
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setIsOpen(false);
+                setIsImportOpen(true);
+              }}
+              className={clsx(itemClass, "text-slate-600")}
+            >
+              ⤒ Импорт из JSON
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ImportFlowDialog open={isImportOpen} onClose={() => setIsImportOpen(false)} />
+    </div>
+  );
+}
 
 export default function Toolbar() {
   // 🎯 получаем поля по отдельности → нет новых объектов, нет бесконечного цикла
@@ -15,6 +162,7 @@ export default function Toolbar() {
   const saveFlow = useFlowStore((s) => s.saveFlow);
   const isRunning = useFlowStore((s) => s.isRunning);
   const isDirty = useFlowStore((s) => s.isDirty);
+  const isSaving = useFlowStore((s) => s.isSaving);
   const lastRunAt = useFlowStore((s) => s.lastRunAt);
   const lastSavedAt = useFlowStore((s) => s.lastSavedAt);
 
@@ -53,7 +201,7 @@ export default function Toolbar() {
 
   const saveButtonClass = clsx(
     "rounded-xl border px-4 py-2 text-sm font-semibold transition",
-    isDirty
+    isDirty && !isSaving
       ? "border-slate-300 bg-white text-slate-700 hover:border-sky-300 hover:text-sky-600"
       : "border-slate-200 bg-slate-100 text-slate-400"
   );
@@ -72,30 +220,33 @@ export default function Toolbar() {
           <span className="h-2 w-2 animate-pulse rounded-full bg-sky-400" /> Flow
         </div>
         <div className="flex flex-col gap-1">
-          {isEditingName ? (
-            <input
-              value={draftName}
-              onChange={(event) => setDraftName(event.target.value)}
-              onBlur={handleSubmitName}
-              onKeyDown={handleKeyDown}
-              autoFocus
-              className="rounded-lg border border-sky-300 bg-white px-3 py-1 text-lg font-semibold text-slate-800 shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-200"
-            />
-          ) : (
-            <button
-              type="button"
-              onClick={() => setIsEditingName(true)}
-              className="text-left text-lg font-semibold text-slate-800 transition hover:text-slate-900"
-            >
-              {flowName}
-            </button>
-          )}
+          <div className="flex items-center gap-2">
+            {isEditingName ? (
+              <input
+                value={draftName}
+                onChange={(event) => setDraftName(event.target.value)}
+                onBlur={handleSubmitName}
+                onKeyDown={handleKeyDown}
+                autoFocus
+                className="rounded-lg border border-sky-300 bg-white px-3 py-1 text-lg font-semibold text-slate-800 shadow-sm focus:outline-none focus:ring-2 focus:ring-sky-200"
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => setIsEditingName(true)}
+                className="text-left text-lg font-semibold text-slate-800 transition hover:text-slate-900"
+              >
+                {flowName}
+              </button>
+            )}
+            <FlowMenu />
+          </div>
           <div className="flex items-center gap-3 text-xs text-slate-400">
-            <span>Сохранено {formatRelativeTime(lastSavedAt)}</span>
+            <span>Сохранено {formatRelativeTime(lastSavedAt?.getTime())}</span>
             <span className="hidden md:inline">•</span>
             <span className="hidden md:inline">
               Последний запуск{" "}
-              {lastRunAt ? formatRelativeTime(lastRunAt) : "не запускался"}
+              {lastRunAt ? formatRelativeTime(lastRunAt.getTime()) : "не запускался"}
             </span>
           </div>
         </div>
@@ -117,10 +268,10 @@ export default function Toolbar() {
         <button
           type="button"
           className={saveButtonClass}
-          disabled={!isDirty}
-          onClick={saveFlow}
+          disabled={!isDirty || isSaving}
+          onClick={() => void saveFlow()}
         >
-          Сохранить
+          {isSaving ? "Сохранение…" : "Сохранить"}
         </button>
         <button
           type="button"
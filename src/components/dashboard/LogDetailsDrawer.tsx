@@ -1,8 +1,11 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { createPortal } from "react-dom";
+import clsx from "clsx";
 import { X } from "lucide-react";
 import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis } from "recharts";
 import type { LogRecord } from "@/utils/stats";
+import { describeAssertion } from "@/flow/nodes/assertions";
+import type { CheckAssertion } from "@/flow/nodes/types";
 
 export type LogDetailsDrawerProps = {
   log: LogRecord | null;
@@ -10,6 +13,60 @@ export type LogDetailsDrawerProps = {
   onClose: () => void;
   latencyTrend: { timestamp: number; value: number }[];
   pingTrend: { timestamp: number; value: number }[];
+  // утверждения сайта — чтобы подписать результаты из лога
+  assertions?: CheckAssertion[];
+  // выбрать запись образцом для превью промпта LLM-блока
+  onUseAsPromptSample?: (log: LogRecord) => void;
+};
+
+const AssertionResults = ({ log, assertions }: { log: LogRecord; assertions: CheckAssertion[] }) => {
+  const results = log.assertions ?? [];
+  if (results.length === 0 && assertions.length === 0) return null;
+
+  const definitions = new Map(assertions.map((assertion) => [assertion.id, assertion]));
+  const passed = results.filter((result) => result.passed).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Утверждения</h3>
+        {results.length > 0 && (
+          <span className="text-xs text-slate-500">
+            {passed} из {results.length} пройдено
+          </span>
+        )}
+      </div>
+      {results.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-400">В этой проверке утверждения не вычислялись</p>
+      ) : (
+        <ul className="mt-3 space-y-2">
+          {results.map((result) => {
+            const definition = definitions.get(result.id);
+            return (
+              <li
+                key={result.id}
+                className={clsx(
+                  "rounded-xl border px-3 py-2 text-xs",
+                  result.passed ? "border-emerald-200 bg-emerald-50/70" : "border-rose-200 bg-rose-50/70"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono text-slate-700">
+                    {definition ? describeAssertion(definition) : `Удалённое утверждение ${result.id}`}
+                  </span>
+                  <span className={clsx("flex-none font-semibold", result.passed ? "text-emerald-600" : "text-rose-600")}>
+                    {result.passed ? "✓ Пройдено" : "✕ Провалено"}
+                  </span>
+                </div>
+                {result.actual != null && <p className="mt-1 text-slate-500">Фактически: {result.actual}</p>}
+                {result.error && <p className="mt-1 text-rose-600">{result.error}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
 };
 
 const DrawerContent = ({
@@ -17,7 +74,13 @@ const DrawerContent = ({
   onClose,
   latencyTrend,
   pingTrend,
-}: Pick<LogDetailsDrawerProps, "log" | "onClose" | "latencyTrend" | "pingTrend">) => {
+  assertions = [],
+  onUseAsPromptSample,
+}: Omit<LogDetailsDrawerProps, "open">) => {
+  const [isSampleChosen, setIsSampleChosen] = useState(false);
+
+  useEffect(() => setIsSampleChosen(false), [log]);
+
   if (!log) return null;
 
   return (
@@ -27,6 +90,19 @@ const DrawerContent = ({
           <h2 className="text-base font-semibold text-slate-900">Детали проверки</h2>
           <p className="text-xs text-slate-500">{new Date(log.timestamp).toLocaleString()}</p>
         </div>
+        {onUseAsPromptSample && (
+          <button
+            type="button"
+            onClick={() => {
+              onUseAsPromptSample(log);
+              setIsSampleChosen(true);
+            }}
+            className="ml-auto mr-2 rounded-xl border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-600 transition hover:border-violet-300 hover:text-violet-600"
+            title="Запись появится в превью промпта LLM-блока в редакторе сценариев"
+          >
+            {isSampleChosen ? "✓ Выбрано для превью" : "🤖 В превью промпта"}
+          </button>
+        )}
         <button
           type="button"
           onClick={onClose}
@@ -72,6 +148,7 @@ const DrawerContent = ({
               </div>
             </div>
           </div>
+          <AssertionResults log={log} assertions={assertions} />
           <div>
             <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">JSON</h3>
             <pre className="mt-2 overflow-x-auto rounded-xl border border-slate-200/70 bg-slate-950/95 p-4 text-xs text-slate-200">
@@ -84,7 +161,15 @@ const DrawerContent = ({
   );
 };
 
-export function LogDetailsDrawer({ log, open, onClose, latencyTrend, pingTrend }: LogDetailsDrawerProps) {
+export function LogDetailsDrawer({
+  log,
+  open,
+  onClose,
+  latencyTrend,
+  pingTrend,
+  assertions,
+  onUseAsPromptSample,
+}: LogDetailsDrawerProps) {
   useEffect(() => {
     if (open) {
       document.body.style.overflow = "hidden";
@@ -101,7 +186,14 @@ export function LogDetailsDrawer({ log, open, onClose, latencyTrend, pingTrend }
   return createPortal(
     <div className="fixed inset-0 z-50 flex bg-slate-950/40 backdrop-blur-sm" onClick={onClose}>
       <div className="pointer-events-none flex h-full w-full" onClick={(event) => event.stopPropagation()}>
-        <DrawerContent log={log} onClose={onClose} latencyTrend={latencyTrend} pingTrend={pingTrend} />
+        <DrawerContent
+          log={log}
+          onClose={onClose}
+          latencyTrend={latencyTrend}
+          pingTrend={pingTrend}
+          assertions={assertions}
+          onUseAsPromptSample={onUseAsPromptSample}
+        />
       </div>
     </div>,
     document.body,
@@ -0,0 +1,120 @@
+import clsx from "clsx";
+import { Trash2 } from "lucide-react";
+
+import {
+  ASSERTION_KIND_LABELS,
+  ASSERTION_OPERATORS,
+  createAssertion,
+  needsAssertionValue,
+  validateAssertion,
+} from "../../flow/nodes/assertions";
+import type { AssertionKind, AssertionOperator, CheckAssertion } from "../../flow/nodes/types";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-lg border bg-white px-2 py-1.5 text-xs text-slate-700 shadow-sm focus:outline-none focus:ring-2";
+const fieldStateClass = (invalid: boolean) =>
+  invalid
+    ? "border-rose-300 focus:border-rose-300 focus:ring-rose-200"
+    : "border-slate-200 focus:border-sky-300 focus:ring-sky-200";
+
+type Props = {
+  assertions: CheckAssertion[];
+  onChange: (assertions: CheckAssertion[]) => void;
+};
+
+export default function AssertionsSection({ assertions, onChange }: Props) {
+  const update = (id: string, patch: Partial<CheckAssertion>) =>
+    onChange(
+      assertions.map((assertion) => {
+        if (assertion.id !== id) return assertion;
+        const next = { ...assertion, ...patch };
+        // при переключении на JSONPath сразу подставляем корень
+        if (patch.kind === "jsonpath" && !next.path) next.path = "$.";
+        return next;
+      })
+    );
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <div className="flex items-center justify-between">
+        <span className={labelClass}>Утверждения</span>
+        <button
+          type="button"
+          onClick={() => onChange(assertions.concat(createAssertion()))}
+          className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-600 transition hover:border-sky-300 hover:text-sky-600"
+        >
+          ＋ Добавить
+        </button>
+      </div>
+
+      {assertions.length === 0 && (
+        <p className="text-xs text-slate-400">Например: тело содержит «OK» или $.status == "up"</p>
+      )}
+
+      {assertions.map((assertion) => {
+        const error = validateAssertion(assertion);
+        const isJsonPath = assertion.kind === "jsonpath";
+
+        return (
+          <div key={assertion.id} className="space-y-2 rounded-lg border border-slate-200/70 bg-white p-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={assertion.kind}
+                onChange={(event) => update(assertion.id, { kind: event.target.value as AssertionKind })}
+                className={clsx(fieldClass, fieldStateClass(false))}
+              >
+                {(Object.keys(ASSERTION_KIND_LABELS) as AssertionKind[]).map((kind) => (
+                  <option key={kind} value={kind}>
+                    {ASSERTION_KIND_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange(assertions.filter((candidate) => candidate.id !== assertion.id))}
+                className="flex-none rounded-lg p-1.5 text-slate-400 transition hover:bg-rose-50 hover:text-rose-600"
+                title="Удалить утверждение"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+
+            {isJsonPath && (
+              <div className="grid grid-cols-[1fr_5.5rem] gap-2">
+                <input
+                  value={assertion.path}
+                  onChange={(event) => update(assertion.id, { path: event.target.value })}
+                  placeholder="$.data.status"
+                  className={clsx(fieldClass, "font-mono", fieldStateClass(error?.field === "path"))}
+                />
+                <select
+                  value={assertion.operator}
+                  onChange={(event) => update(assertion.id, { operator: event.target.value as AssertionOperator })}
+                  className={clsx(fieldClass, fieldStateClass(false))}
+                >
+                  {ASSERTION_OPERATORS.map((operator) => (
+                    <option key={operator} value={operator}>
+                      {operator}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {needsAssertionValue(assertion) && (
+              <input
+                value={assertion.value}
+                onChange={(event) => update(assertion.id, { value: event.target.value })}
+                placeholder={isJsonPath ? "Значение" : "Искомый текст"}
+                className={clsx(fieldClass, fieldStateClass(error?.field === "value"))}
+              />
+            )}
+
+            {error && <p className="text-xs text-rose-600">{error.message}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
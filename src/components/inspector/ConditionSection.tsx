@@ -0,0 +1,104 @@
+import clsx from "clsx";
+
+import {
+  CONDITION_KINDS,
+  DEFAULT_CONDITION_RULES,
+  MAX_CONSECUTIVE_CHECKS,
+  MAX_LATENCY_THRESHOLD_MS,
+  MAX_SSL_DAYS,
+  MIN_LATENCY_THRESHOLD_MS,
+  TRAFFIC_LIGHT_LABELS,
+  describeCondition,
+  normalizeConditionRule,
+} from "../../flow/nodes/condition";
+import type { ConditionRule } from "../../flow/nodes/types";
+import type { TrafficLight } from "../../utils/stats";
+import NumberField from "./NumberField";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200";
+
+type Props = {
+  rule?: ConditionRule;
+  onChange: (rule: ConditionRule) => void;
+};
+
+export default function ConditionSection({ rule, onChange }: Props) {
+  const current = normalizeConditionRule(rule);
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <div className="space-y-2">
+        <label className={labelClass}>Правило</label>
+        <select
+          value={current.kind}
+          onChange={(event) => onChange(DEFAULT_CONDITION_RULES[event.target.value as ConditionRule["kind"]])}
+          className={fieldClass}
+        >
+          {(Object.keys(CONDITION_KINDS) as ConditionRule["kind"][]).map((kind) => (
+            <option key={kind} value={kind}>
+              {CONDITION_KINDS[kind]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {current.kind === "traffic_light" && (
+        <div className="grid grid-cols-3 gap-1">
+          {(Object.keys(TRAFFIC_LIGHT_LABELS) as TrafficLight[]).map((light) => (
+            <button
+              key={light}
+              type="button"
+              onClick={() => onChange({ kind: "traffic_light", value: light })}
+              className={clsx(
+                "rounded-lg border px-2 py-1 text-xs font-semibold transition",
+                current.value === light
+                  ? "border-sky-300 bg-sky-50 text-sky-600"
+                  : "border-slate-200 bg-white text-slate-500 hover:border-slate-300"
+              )}
+            >
+              {TRAFFIC_LIGHT_LABELS[light]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {current.kind === "latency" && (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField
+            label="Порог"
+            value={current.threshold_ms}
+            min={MIN_LATENCY_THRESHOLD_MS}
+            max={MAX_LATENCY_THRESHOLD_MS}
+            suffix="мс"
+            onCommit={(threshold_ms) => onChange({ ...current, threshold_ms })}
+          />
+          <NumberField
+            label="Подряд"
+            value={current.consecutive}
+            min={1}
+            max={MAX_CONSECUTIVE_CHECKS}
+            onCommit={(consecutive) => onChange({ ...current, consecutive })}
+          />
+        </div>
+      )}
+
+      {current.kind === "ssl_days" && (
+        <NumberField
+          label="Меньше"
+          value={current.days}
+          min={0}
+          max={MAX_SSL_DAYS}
+          suffix="дн."
+          onCommit={(days) => onChange({ kind: "ssl_days", days })}
+        />
+      )}
+
+      <p className="text-xs text-slate-500">
+        Если {describeCondition(current)} — проверка уходит в выход «да», иначе — в «нет». Сайты без проверок идут в
+        «нет».
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import clsx from "clsx";
+import { Send } from "lucide-react";
+
+import {
+  EMAIL_SECURITY,
+  LOCAL_SMTP_SINK,
+  findInvalidRecipients,
+  normalizeEmailConfig,
+  parseRecipients,
+  renderEmail,
+  validateEmailConfig,
+} from "../../flow/nodes/email";
+import { PROMPT_PLACEHOLDERS } from "../../flow/nodes/llm";
+import type { EmailConfig, EmailSecurity } from "../../flow/nodes/types";
+import { sendEmail } from "../../lib/api";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200";
+
+type TestState = { status: "idle" | "sending" | "sent" } | { status: "error"; message: string };
+
+type Props = {
+  config?: EmailConfig;
+  onChange: (config: EmailConfig) => void;
+};
+
+export default function EmailSection({ config, onChange }: Props) {
+  const current = normalizeEmailConfig(config);
+  const [recipients, setRecipients] = useState(current.to.join(", "));
+  const [test, setTest] = useState<TestState>({ status: "idle" });
+
+  const error = validateEmailConfig(current);
+  const invalidRecipients = findInvalidRecipients(current);
+
+  const update = (patch: Partial<EmailConfig>) => {
+    setTest({ status: "idle" });
+    onChange({ ...current, ...patch });
+  };
+
+  const handleTestSend = async () => {
+    setTest({ status: "sending" });
+    try {
+      await sendEmail(
+        current,
+        renderEmail(current, {
+          site: { name: "Тестовый сайт", url: "https://example.com" },
+          log: null,
+          input: "Тестовое письмо PingTower",
+        })
+      );
+      setTest({ status: "sent" });
+    } catch (err) {
+      console.error("[EmailSection] Ошибка тестовой отправки:", err);
+      setTest({ status: "error", message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className={labelClass}>SMTP-сервер</label>
+          <button
+            type="button"
+            onClick={() => update(LOCAL_SMTP_SINK)}
+            className="text-[11px] font-semibold text-sky-600 transition hover:text-sky-700"
+            title="Mailpit или MailHog на localhost:1025"
+          >
+            Локальный sink
+          </button>
+        </div>
+        <div className="grid grid-cols-[1fr_5rem] gap-2">
+          <input
+            value={current.host}
+            onChange={(event) => update({ host: event.target.value.trim() })}
+            placeholder="smtp.example.com"
+            className={clsx(fieldClass, "font-mono text-xs")}
+          />
+          <input
+            type="number"
+            min={1}
+            max={65535}
+            value={current.port}
+            onChange={(event) => update({ port: Number(event.target.value) })}
+            className={fieldClass}
+          />
+        </div>
+        <select
+          value={current.security}
+          onChange={(event) => {
+            const security = event.target.value as EmailSecurity;
+            update({ security, port: EMAIL_SECURITY[security].port });
+          }}
+          className={fieldClass}
+        >
+          {(Object.keys(EMAIL_SECURITY) as EmailSecurity[]).map((security) => (
+            <option key={security} value={security}>
+              {EMAIL_SECURITY[security].label} · порт {EMAIL_SECURITY[security].port}
+            </option>
+          ))}
+        </select>
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            autoComplete="off"
+            value={current.username}
+            onChange={(event) => update({ username: event.target.value.trim() })}
+            placeholder="Логин"
+            className={fieldClass}
+          />
+          <input
+            type="password"
+            autoComplete="off"
+            value={current.password}
+            onChange={(event) => update({ password: event.target.value })}
+            placeholder="Пароль"
+            className={fieldClass}
+          />
+        </div>
+        <p className="text-xs text-slate-400">Пароль хранится только в этом браузере, не на сервере и не в экспорте</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Отправитель</label>
+        <input
+          type="email"
+          value={current.from}
+          onChange={(event) => update({ from: event.target.value.trim() })}
+          placeholder="pingtower@example.com"
+          className={fieldClass}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Получатели</label>
+        <textarea
+          value={recipients}
+          onChange={(event) => {
+            setRecipients(event.target.value);
+            update({ to: parseRecipients(event.target.value) });
+          }}
+          rows={2}
+          placeholder="oncall@example.com, sre@example.com"
+          className={clsx(fieldClass, "resize-y")}
+        />
+        {invalidRecipients.length > 0 && (
+          <p className="text-xs text-rose-600">Некорректные адреса: {invalidRecipients.join(", ")}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Тема</label>
+        <input
+          value={current.subject}
+          onChange={(event) => update({ subject: event.target.value })}
+          className={clsx(fieldClass, "font-mono text-xs")}
+        />
+        <label className={labelClass}>Текст письма</label>
+        <textarea
+          value={current.body}
+          onChange={(event) => update({ body: event.target.value })}
+          rows={5}
+          className={clsx(fieldClass, "resize-y font-mono text-xs")}
+        />
+        <p className="text-xs text-slate-400">
+          Подстановки: {PROMPT_PLACEHOLDERS.map((placeholder) => `{{${placeholder.key}}}`).join(", ")}
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      <div className="space-y-2">
+        <button
+          type="button"
+          onClick={() => void handleTestSend()}
+          disabled={Boolean(error) || test.status === "sending"}
+          className="flex w-full items-center justify-center gap-2 rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs font-semibold text-emerald-700 transition hover:bg-emerald-100 disabled:opacity-50"
+        >
+          <Send className="h-3.5 w-3.5" />
+          {test.status === "sending" ? "Отправка…" : "Отправить тестовое письмо"}
+        </button>
+        {test.status === "sent" && <p className="text-xs text-emerald-600">Сервер принял письмо</p>}
+        {test.status === "error" && <p className="text-xs text-rose-600">{test.message}</p>}
+      </div>
+    </div>
+  );
+}
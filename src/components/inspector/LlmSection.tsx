@@ -0,0 +1,162 @@
+import { useRef } from "react";
+import clsx from "clsx";
+
+import {
+  LLM_PROVIDERS,
+  MAX_LLM_MAX_TOKENS,
+  MAX_LLM_TEMPERATURE,
+  MIN_LLM_MAX_TOKENS,
+  MIN_LLM_TEMPERATURE,
+  PROMPT_PLACEHOLDERS,
+  findUnknownPlaceholders,
+  normalizeLlmConfig,
+  validateLlmConfig,
+} from "../../flow/nodes/llm";
+import type { LlmConfig, LlmProvider } from "../../flow/nodes/types";
+import NumberField from "./NumberField";
+import PromptPreview from "./PromptPreview";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200 disabled:bg-slate-50 disabled:text-slate-400";
+
+type Props = {
+  nodeId: string;
+  config?: LlmConfig;
+  onChange: (config: LlmConfig) => void;
+};
+
+export default function LlmSection({ nodeId, config, onChange }: Props) {
+  const current = normalizeLlmConfig(config);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+
+  const isLocal = current.provider === "local";
+  const error = validateLlmConfig(current);
+  const unknownPlaceholders = findUnknownPlaceholders(current.prompt);
+
+  const update = (patch: Partial<LlmConfig>) => onChange({ ...current, ...patch });
+
+  // подстановка вставляется на место курсора
+  const insertPlaceholder = (key: string) => {
+    const textarea = promptRef.current;
+    const token = `{{${key}}}`;
+    const start = textarea?.selectionStart ?? current.prompt.length;
+    const end = textarea?.selectionEnd ?? current.prompt.length;
+    update({ prompt: current.prompt.slice(0, start) + token + current.prompt.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <span className={labelClass}>Модель</span>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Провайдер</label>
+        <select
+          value={current.provider}
+          onChange={(event) => {
+            const provider = event.target.value as LlmProvider;
+            update({ provider, endpoint: LLM_PROVIDERS[provider].endpoint });
+          }}
+          className={fieldClass}
+        >
+          {(Object.keys(LLM_PROVIDERS) as LlmProvider[]).map((provider) => (
+            <option key={provider} value={provider}>
+              {LLM_PROVIDERS[provider].label}
+            </option>
+          ))}
+        </select>
+        {isLocal && <p className="text-xs text-slate-400">Заглушка не ходит в сеть и отвечает самим промптом</p>}
+      </div>
+
+      {!isLocal && (
+        <>
+          <div className="space-y-2">
+            <label className={labelClass}>Адрес API</label>
+            <input
+              value={current.endpoint}
+              onChange={(event) => update({ endpoint: event.target.value })}
+              placeholder={LLM_PROVIDERS[current.provider].endpoint}
+              className={clsx(fieldClass, "font-mono text-xs")}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Модель</label>
+            <input
+              value={current.model}
+              onChange={(event) => update({ model: event.target.value })}
+              placeholder="gpt-4o-mini"
+              className={fieldClass}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Ключ API</label>
+            <input
+              type="password"
+              autoComplete="off"
+              value={current.api_key}
+              onChange={(event) => update({ api_key: event.target.value.trim() })}
+              placeholder="sk-…"
+              className={fieldClass}
+            />
+            <p className="text-xs text-slate-400">Хранится только в этом браузере: ни в сценарий на сервере, ни в экспорт не попадает</p>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="Темп."
+          value={current.temperature}
+          min={MIN_LLM_TEMPERATURE}
+          max={MAX_LLM_TEMPERATURE}
+          step={0.1}
+          onCommit={(temperature) => update({ temperature })}
+        />
+        <NumberField
+          label="Токены"
+          value={current.max_tokens}
+          min={MIN_LLM_MAX_TOKENS}
+          max={MAX_LLM_MAX_TOKENS}
+          onCommit={(max_tokens) => update({ max_tokens })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Шаблон промпта</label>
+        <textarea
+          ref={promptRef}
+          value={current.prompt}
+          onChange={(event) => update({ prompt: event.target.value })}
+          rows={6}
+          className={clsx(fieldClass, "resize-y font-mono text-xs")}
+        />
+        <div className="flex flex-wrap gap-1">
+          {PROMPT_PLACEHOLDERS.map((placeholder) => (
+            <button
+              key={placeholder.key}
+              type="button"
+              onClick={() => insertPlaceholder(placeholder.key)}
+              title={placeholder.description}
+              className="rounded-md border border-slate-200 bg-white px-1.5 py-0.5 font-mono text-[11px] text-slate-500 transition hover:border-sky-300 hover:text-sky-600"
+            >
+              {placeholder.key}
+            </button>
+          ))}
+        </div>
+        {unknownPlaceholders.length > 0 && (
+          <p className="text-xs text-amber-600">
+            Неизвестные подстановки: {unknownPlaceholders.map((key) => `{{${key}}}`).join(", ")} — будут заменены на «—»
+          </p>
+        )}
+      </div>
+
+      <PromptPreview nodeId={nodeId} template={current.prompt} />
+
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import clsx from "clsx";
+import { Send } from "lucide-react";
+
+import { PROMPT_PLACEHOLDERS } from "../../flow/nodes/llm";
+import {
+  MESSENGER_FORMATS,
+  MESSENGER_PROVIDERS,
+  MOCK_WEBHOOK_PATH,
+  buildMessengerPayload,
+  messengerUrlWarning,
+  normalizeMessengerConfig,
+  renderMessengerMessage,
+  validateMessengerConfig,
+} from "../../flow/nodes/messenger";
+import type { MessengerConfig, MessengerFormat, MessengerProvider } from "../../flow/nodes/types";
+import { sendMessengerWebhook } from "../../lib/api";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200";
+
+type TestState = { status: "idle" | "sending" | "sent" } | { status: "error"; message: string };
+
+type Props = {
+  config?: MessengerConfig;
+  onChange: (config: MessengerConfig) => void;
+};
+
+export default function MessengerSection({ config, onChange }: Props) {
+  const current = normalizeMessengerConfig(config);
+  const [test, setTest] = useState<TestState>({ status: "idle" });
+
+  const error = validateMessengerConfig(current);
+  const warning = messengerUrlWarning(current);
+
+  const update = (patch: Partial<MessengerConfig>) => {
+    setTest({ status: "idle" });
+    onChange({ ...current, ...patch });
+  };
+
+  const handleTestSend = async () => {
+    setTest({ status: "sending" });
+    try {
+      const text = renderMessengerMessage(current, {
+        site: { name: "Тестовый сайт", url: "https://example.com" },
+        log: null,
+        input: "Тестовое сообщение PingTower",
+      });
+      await sendMessengerWebhook(current.url, buildMessengerPayload(current, text));
+      setTest({ status: "sent" });
+    } catch (err) {
+      console.error("[MessengerSection] Ошибка тестовой отправки:", err);
+      setTest({ status: "error", message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <div className="space-y-2">
+        <label className={labelClass}>Провайдер</label>
+        <select
+          value={current.provider}
+          onChange={(event) => update({ provider: event.target.value as MessengerProvider })}
+          className={fieldClass}
+        >
+          {(Object.keys(MESSENGER_PROVIDERS) as MessengerProvider[]).map((provider) => (
+            <option key={provider} value={provider}>
+              {MESSENGER_PROVIDERS[provider].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className={labelClass}>Адрес вебхука</label>
+          {import.meta.env.DEV && (
+            <button
+              type="button"
+              onClick={() => update({ url: `${window.location.origin}${MOCK_WEBHOOK_PATH}` })}
+              className="text-[11px] font-semibold text-sky-600 transition hover:text-sky-700"
+              title="Приёмник dev-сервера печатает запросы в консоль"
+            >
+              Локальный приёмник
+            </button>
+          )}
+        </div>
+        <input
+          type="url"
+          autoComplete="off"
+          value={current.url}
+          onChange={(event) => update({ url: event.target.value.trim() })}
+          placeholder={MESSENGER_PROVIDERS[current.provider].placeholder}
+          className={clsx(fieldClass, "font-mono text-xs")}
+        />
+        {warning && <p className="text-xs text-amber-600">{warning}</p>}
+        <p className="text-xs text-slate-400">Адрес вебхука — секрет: хранится только в этом браузере, не на сервере и не в экспорте</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Сообщение</label>
+        <div className="flex gap-1">
+          {(Object.keys(MESSENGER_FORMATS) as MessengerFormat[]).map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => update({ format })}
+              className={clsx(
+                "rounded-lg border px-2 py-1 text-xs font-semibold transition",
+                current.format === format
+                  ? "border-sky-300 bg-sky-50 text-sky-600"
+                  : "border-slate-200 bg-white text-slate-500 hover:border-slate-300"
+              )}
+            >
+              {MESSENGER_FORMATS[format]}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={current.template}
+          onChange={(event) => update({ template: event.target.value })}
+          rows={4}
+          className={clsx(fieldClass, "resize-y font-mono text-xs")}
+        />
+        <p className="text-xs text-slate-400">
+          Подстановки: {PROMPT_PLACEHOLDERS.map((placeholder) => `{{${placeholder.key}}}`).join(", ")}
+        </p>
+      </div>
+
+      {current.provider === "generic" && (
+        <div className="space-y-2">
+          <label className={labelClass}>Тело запроса (JSON)</label>
+          <textarea
+            value={current.payload}
+            onChange={(event) => update({ payload: event.target.value })}
+            rows={4}
+            className={clsx(fieldClass, "resize-y font-mono text-xs")}
+          />
+          <p className="text-xs text-slate-400">{"{{message}}"} заменяется текстом сообщения в кавычках</p>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      <div className="space-y-2">
+        <button
+          type="button"
+          onClick={() => void handleTestSend()}
+          disabled={Boolean(error) || test.status === "sending"}
+          className="flex w-full items-center justify-center gap-2 rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs font-semibold text-emerald-700 transition hover:bg-emerald-100 disabled:opacity-50"
+        >
+          <Send className="h-3.5 w-3.5" />
+          {test.status === "sending" ? "Отправка…" : "Отправить тестовое сообщение"}
+        </button>
+        {test.status === "sent" && <p className="text-xs text-emerald-600">Вебхук принял сообщение</p>}
+        {test.status === "error" && <p className="text-xs text-rose-600">{test.message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import {
+  DEFAULT_NOISE_RULES,
+  MAX_DEBOUNCE_FAILURES,
+  MAX_NOISE_MINUTES,
+  MIN_NOISE_MINUTES,
+  NOISE_KINDS,
+  normalizeNoiseRule,
+} from "../../flow/nodes/noise";
+import type { NoiseRule } from "../../flow/nodes/types";
+import NumberField from "./NumberField";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200";
+
+const NOISE_HINTS: Record<NoiseRule["kind"], string> = {
+  debounce: "Падение проходит дальше, только когда сайт упал столько раз подряд. Зелёная проверка сбрасывает счёт.",
+  throttle: "Один и тот же статус сайта проходит дальше не чаще раза за окно; смена статуса проходит сразу.",
+  recovery: "Проходят только проверки, где ранее упавший сайт снова зелёный.",
+  digest: "Проверки копятся за окно и уходят дальше одним сообщением — по последнему статусу каждого сайта.",
+};
+
+type Props = {
+  rule?: NoiseRule;
+  onChange: (rule: NoiseRule) => void;
+};
+
+export default function NoiseSection({ rule, onChange }: Props) {
+  const current = normalizeNoiseRule(rule);
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <div className="space-y-2">
+        <label className={labelClass}>Правило</label>
+        <select
+          value={current.kind}
+          onChange={(event) => onChange(DEFAULT_NOISE_RULES[event.target.value as NoiseRule["kind"]])}
+          className={fieldClass}
+        >
+          {(Object.keys(NOISE_KINDS) as NoiseRule["kind"][]).map((kind) => (
+            <option key={kind} value={kind}>
+              {NOISE_KINDS[kind]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {current.kind === "debounce" && (
+        <NumberField
+          label="Падений"
+          value={current.failures}
+          min={1}
+          max={MAX_DEBOUNCE_FAILURES}
+          onCommit={(failures) => onChange({ kind: "debounce", failures })}
+        />
+      )}
+
+      {(current.kind === "throttle" || current.kind === "digest") && (
+        <NumberField
+          label="Окно"
+          value={current.minutes}
+          min={MIN_NOISE_MINUTES}
+          max={MAX_NOISE_MINUTES}
+          suffix="мин"
+          onCommit={(minutes) => onChange({ kind: current.kind, minutes })}
+        />
+      )}
+
+      <p className="text-xs text-slate-500">{NOISE_HINTS[current.kind]}</p>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200";
+
+type Props = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  suffix?: string;
+  // шаг округления; по умолчанию только целые
+  step?: number;
+  onCommit: (value: number) => void;
+};
+
+const roundToStep = (value: number, step: number) => Number((Math.round(value / step) * step).toFixed(6));
+
+// Числовое поле, которое применяется по blur: промежуточный ввод не портит настройки
+export default function NumberField({ label, value, min, max, suffix, step = 1, onCommit }: Props) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const numeric = roundToStep(Number(draft.replace(",", ".")), step);
+    if (!draft.trim() || !Number.isFinite(numeric)) {
+      setDraft(String(value));
+      return;
+    }
+    const clamped = Math.min(max, Math.max(min, numeric));
+    setDraft(String(clamped));
+    if (clamped !== value) onCommit(clamped);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className={clsx(labelClass, "flex items-baseline justify-between")}>
+        {label}
+        <span className="font-normal normal-case tracking-normal">
+          {min}–{max}
+          {suffix && ` ${suffix}`}
+        </span>
+      </label>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        className={fieldClass}
+      />
+    </div>
+  );
+}
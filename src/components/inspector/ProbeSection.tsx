@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+import { Check, Copy } from "lucide-react";
+
+import {
+  DNS_RECORD_TYPES,
+  MAX_HEARTBEAT_GRACE,
+  MAX_HEARTBEAT_PERIOD,
+  MAX_PING_COUNT,
+  MAX_TLS_WARN_DAYS,
+  MIN_HEARTBEAT_PERIOD,
+  MIN_PING_COUNT,
+  MIN_TLS_WARN_DAYS,
+  heartbeatPushUrlOf,
+  normalizeProbe,
+} from "../../flow/nodes/monitors";
+import { MAX_CHECK_TIMEOUT, MIN_CHECK_TIMEOUT } from "../../flow/nodes/siteCheck";
+import NumberField from "./NumberField";
+import type { DnsRecordType, MonitorProbe, MonitorVariant } from "../../flow/nodes/types";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200";
+
+type Props = {
+  variant: Exclude<MonitorVariant, "website">;
+  // адрес сайта, нужен heartbeat для push-адреса
+  target?: string;
+  probe?: MonitorProbe;
+  onChange: (probe: MonitorProbe) => void;
+};
+
+function PushUrlField({ url }: { url?: string }) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), 1500);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = () => {
+    if (!url) return;
+    navigator.clipboard
+      .writeText(url)
+      .then(() => setCopied(true))
+      .catch((err) => console.error("[ProbeSection] Не удалось скопировать адрес:", err));
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className={labelClass}>Push URL</label>
+      <div className="flex items-center gap-2">
+        <input readOnly value={url ?? "—"} className={clsx(fieldClass, "font-mono text-xs")} />
+        <button
+          type="button"
+          onClick={handleCopy}
+          disabled={!url}
+          className="flex-none rounded-lg p-2 text-slate-400 transition hover:bg-sky-50 hover:text-sky-600 disabled:opacity-40"
+          title="Скопировать адрес"
+        >
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">
+        Задача отмечается запросом в конце работы, например <code>curl -fsS {"<адрес>"}</code>
+      </p>
+    </div>
+  );
+}
+
+export default function ProbeSection({ variant, target, probe, onChange }: Props) {
+  const current = normalizeProbe(variant, probe)!;
+  const expectedText = current.kind === "dns" ? current.expected.join("\n") : "";
+  const [expectedDraft, setExpectedDraft] = useState(expectedText);
+
+  useEffect(() => setExpectedDraft(expectedText), [expectedText]);
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <span className={labelClass}>Проверка</span>
+
+      {current.kind === "tcp" && (
+        <NumberField
+          label="Таймаут соединения"
+          value={current.timeout}
+          min={MIN_CHECK_TIMEOUT}
+          max={MAX_CHECK_TIMEOUT}
+          suffix="сек"
+          onCommit={(timeout) => onChange({ ...current, timeout })}
+        />
+      )}
+
+      {current.kind === "dns" && (
+        <>
+          <div className="space-y-2">
+            <label className={labelClass}>Тип записи</label>
+            <select
+              value={current.record_type}
+              onChange={(event) => onChange({ ...current, record_type: event.target.value as DnsRecordType })}
+              className={fieldClass}
+            >
+              {DNS_RECORD_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Ожидаемые значения</label>
+            <textarea
+              value={expectedDraft}
+              onChange={(event) => setExpectedDraft(event.target.value)}
+              onBlur={() =>
+                onChange({
+                  ...current,
+                  expected: expectedDraft
+                    .split("\n")
+                    .map((line) => line.trim())
+                    .filter(Boolean),
+                })
+              }
+              rows={3}
+              placeholder={current.record_type === "MX" ? "10 mx.example.com" : "93.184.216.34"}
+              className={clsx(fieldClass, "resize-none font-mono text-xs")}
+            />
+            <p className="text-xs text-slate-400">По одному значению в строке; пусто — подойдёт любой ответ</p>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>DNS-сервер</label>
+            <input
+              value={current.resolver}
+              onChange={(event) => onChange({ ...current, resolver: event.target.value.trim() })}
+              placeholder="Системный, например 1.1.1.1"
+              className={fieldClass}
+            />
+          </div>
+        </>
+      )}
+
+      {current.kind === "ping" && (
+        <>
+          <NumberField
+            label="Пакетов за проверку"
+            value={current.count}
+            min={MIN_PING_COUNT}
+            max={MAX_PING_COUNT}
+            suffix="шт."
+            onCommit={(count) => onChange({ ...current, count })}
+          />
+          <NumberField
+            label="Допустимые потери"
+            value={current.max_loss_percent}
+            min={0}
+            max={100}
+            suffix="%"
+            onCommit={(max_loss_percent) => onChange({ ...current, max_loss_percent })}
+          />
+        </>
+      )}
+
+      {current.kind === "tls" && (
+        <NumberField
+          label="Предупредить до истечения"
+          value={current.warn_days}
+          min={MIN_TLS_WARN_DAYS}
+          max={MAX_TLS_WARN_DAYS}
+          suffix="дн."
+          onCommit={(warn_days) => onChange({ ...current, warn_days })}
+        />
+      )}
+
+      {current.kind === "heartbeat" && (
+        <>
+          <PushUrlField url={heartbeatPushUrlOf(target)} />
+          <NumberField
+            label="Период"
+            value={Math.round(current.period / 60)}
+            min={MIN_HEARTBEAT_PERIOD / 60}
+            max={MAX_HEARTBEAT_PERIOD / 60}
+            suffix="мин"
+            onCommit={(minutes) => onChange({ ...current, period: minutes * 60 })}
+          />
+          <NumberField
+            label="Допуск"
+            value={Math.round(current.grace / 60)}
+            min={0}
+            max={MAX_HEARTBEAT_GRACE / 60}
+            suffix="мин"
+            onCommit={(minutes) => onChange({ ...current, grace: minutes * 60 })}
+          />
+          <p className="text-xs text-slate-400">Блок покраснеет, если сигнала не было дольше периода и допуска</p>
+        </>
+      )}
+    </div>
+  );
+}
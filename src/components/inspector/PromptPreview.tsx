@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import { RefreshCw } from "lucide-react";
+import { useShallow } from "zustand/react/shallow";
+import type { Edge } from "reactflow";
+
+import { formatCheckSummary } from "../../flow/executor";
+import { renderPromptSegments } from "../../flow/nodes/llm";
+import { maxCheckGap } from "../../flow/nodes/monitors";
+import { isMonitorVariant, type FlowNode } from "../../flow/nodes/types";
+import { fetchLatestLog, isCancelledError } from "../../lib/api";
+import { useFlowStore } from "../../state/store";
+import type { LogRecord } from "../../utils/stats";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+
+// значение select для записи, выбранной на дашборде
+const SAMPLE_SOURCE = "sample";
+
+// Мониторы, данные которых доходят до узла — напрямую или через другие блоки
+const findUpstreamMonitors = (nodeId: string, nodes: FlowNode[], edges: Edge[]): FlowNode[] => {
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+  const visited = new Set<string>([nodeId]);
+  const stack = [nodeId];
+  const monitors: FlowNode[] = [];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    edges.forEach((edge) => {
+      if (edge.target !== current || visited.has(edge.source)) return;
+      visited.add(edge.source);
+      const source = nodeMap.get(edge.source);
+      if (!source) return;
+      if (isMonitorVariant(source.type)) {
+        monitors.push(source);
+      } else {
+        stack.push(source.id);
+      }
+    });
+  }
+
+  return monitors;
+};
+
+type Props = {
+  nodeId: string;
+  template: string;
+};
+
+export default function PromptPreview({ nodeId, template }: Props) {
+  const { nodes, edges, promptSample } = useFlowStore(
+    useShallow((s) => ({ nodes: s.nodes, edges: s.edges, promptSample: s.promptSample }))
+  );
+  const upstream = useMemo(() => findUpstreamMonitors(nodeId, nodes, edges), [edges, nodeId, nodes]);
+
+  const [source, setSource] = useState("");
+  const [log, setLog] = useState<LogRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // выбранный источник пропал (связь удалили) — берём первый доступный
+  const sourceIds = upstream.map((node) => node.id).concat(promptSample ? SAMPLE_SOURCE : []);
+  const activeSource = sourceIds.includes(source) ? source : (sourceIds[0] ?? "");
+  const sourceNode = upstream.find((node) => node.id === activeSource);
+  const sourceUrl = sourceNode?.data.description ?? "";
+  const maxGap = sourceNode ? maxCheckGap(sourceNode.type, sourceNode.data) : undefined;
+
+  useEffect(() => {
+    setLog(null);
+    setError(null);
+    if (!sourceUrl) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    fetchLatestLog(sourceUrl, { signal: controller.signal, maxGap })
+      .then((latest) => {
+        setLog(latest);
+        if (!latest) setError("У сайта ещё нет проверок");
+      })
+      .catch((err) => {
+        if (isCancelledError(err)) return;
+        setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [reloadKey, sourceUrl, maxGap]);
+
+  const site =
+    activeSource === SAMPLE_SOURCE
+      ? promptSample?.site
+      : sourceNode && { name: sourceNode.data.title ?? sourceUrl, url: sourceUrl };
+  const sampleLog = activeSource === SAMPLE_SOURCE ? (promptSample?.log ?? null) : log;
+
+  const segments = renderPromptSegments(template, {
+    site,
+    log: sampleLog,
+    input: site ? formatCheckSummary({ kind: "check", site: { id: activeSource, ...site }, log: sampleLog }) : "",
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className={labelClass}>Превью промпта</span>
+        {sourceNode && (
+          <button
+            type="button"
+            onClick={() => setReloadKey((key) => key + 1)}
+            disabled={isLoading}
+            className="rounded-lg p-1 text-slate-400 transition hover:bg-sky-50 hover:text-sky-600 disabled:opacity-40"
+            title="Загрузить последнюю проверку"
+          >
+            <RefreshCw className={clsx("h-3.5 w-3.5", isLoading && "animate-spin")} />
+          </button>
+        )}
+      </div>
+
+      {sourceIds.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          Подключите к блоку сайт или выберите запись в журнале на дашборде, чтобы увидеть промпт с реальными данными
+        </p>
+      ) : (
+        <select
+          value={activeSource}
+          onChange={(event) => setSource(event.target.value)}
+          className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-xs text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200"
+        >
+          {upstream.map((node) => (
+            <option key={node.id} value={node.id}>
+              {node.data.title ?? node.data.description} — последняя проверка
+            </option>
+          ))}
+          {promptSample && (
+            <option value={SAMPLE_SOURCE}>
+              {promptSample.site.name} — запись от {new Date(promptSample.log.timestamp).toLocaleString()}
+            </option>
+          )}
+        </select>
+      )}
+
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-xl border border-slate-200 bg-white p-3 font-mono text-[11px] leading-relaxed text-slate-600">
+        {segments.map((segment, index) =>
+          segment.kind === "text" ? (
+            <span key={index}>{segment.text}</span>
+          ) : (
+            <mark
+              key={index}
+              title={segment.kind === "unknown" ? `Неизвестная подстановка {{${segment.placeholder}}}` : segment.placeholder}
+              className={clsx(
+                "rounded px-0.5",
+                segment.kind === "unknown" ? "bg-rose-100 text-rose-700" : "bg-sky-100 text-sky-700"
+              )}
+            >
+              {segment.kind === "unknown" ? `{{${segment.placeholder}}}` : segment.text}
+            </mark>
+          )
+        )}
+      </pre>
+    </div>
+  );
+}
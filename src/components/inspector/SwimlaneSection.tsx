@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useShallow } from "zustand/react/shallow";
+
+import { normalizeSwimlane } from "../../flow/nodes/swimlane";
+import {
+  DEFAULT_PING_INTERVAL,
+  MAX_PING_INTERVAL,
+  MIN_PING_INTERVAL,
+  isMonitorVariant,
+  type FlowNode,
+} from "../../flow/nodes/types";
+import { useFlowStore } from "../../state/store";
+import NumberField from "./NumberField";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200";
+const actionClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-xs font-semibold text-slate-600 transition hover:border-sky-300 hover:text-sky-600 disabled:opacity-50";
+
+type Props = {
+  lane: FlowNode;
+};
+
+// Действия сразу над всеми сайтами группы; каждое — один шаг истории
+export default function SwimlaneSection({ lane }: Props) {
+  const config = normalizeSwimlane(lane.data.swimlane);
+  const { members, telegramNodes } = useFlowStore(
+    useShallow((state) => ({
+      members: state.nodes.filter((node) => node.parentNode === lane.id),
+      telegramNodes: state.nodes.filter((node) => node.type === "telegram"),
+    }))
+  );
+  const takeSnapshot = useFlowStore((s) => s.takeSnapshot);
+  const updateSwimlane = useFlowStore((s) => s.updateSwimlane);
+  const updateSwimlaneSites = useFlowStore((s) => s.updateSwimlaneSites);
+  const linkSwimlaneToTelegram = useFlowStore((s) => s.linkSwimlaneToTelegram);
+  const removeSwimlane = useFlowStore((s) => s.removeSwimlane);
+
+  const [telegramId, setTelegramId] = useState(telegramNodes[0]?.id ?? "");
+
+  const sites = members.filter((node) => isMonitorVariant(node.type));
+  const intervals = new Set(sites.map((node) => node.data.ping_interval ?? DEFAULT_PING_INTERVAL));
+  const [interval] = intervals;
+  const selectedTelegram = telegramNodes.find((node) => node.id === telegramId) ?? telegramNodes[0];
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>
+          Блоков: {members.length}, из них сайтов: {sites.length}
+        </span>
+        <button
+          type="button"
+          onClick={() => {
+            takeSnapshot();
+            updateSwimlane(lane.id, { collapsed: !config.collapsed });
+          }}
+          className="rounded-lg border border-slate-200 bg-white px-2 py-1 font-semibold text-slate-600 transition hover:border-sky-300 hover:text-sky-600"
+        >
+          {config.collapsed ? "Развернуть" : "Свернуть"}
+        </button>
+      </div>
+
+      {sites.length === 0 ? (
+        <p className="text-xs text-slate-400">Перетащите в рамку сайты, чтобы менять их настройки разом</p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <NumberField
+              label="Интервал опроса сайтов"
+              value={interval ?? DEFAULT_PING_INTERVAL}
+              min={MIN_PING_INTERVAL}
+              max={MAX_PING_INTERVAL}
+              suffix="сек"
+              onCommit={(ping_interval) => updateSwimlaneSites(lane.id, { ping_interval })}
+            />
+            {intervals.size > 1 && (
+              <p className="text-xs text-amber-600">Сейчас у сайтов разные интервалы — новое значение получат все</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className={labelClass}>Telegram</label>
+            {telegramNodes.length === 0 ? (
+              <p className="text-xs text-slate-400">Добавьте на канвас Telegram-блок, чтобы подключить к нему группу</p>
+            ) : (
+              <>
+                <select
+                  value={selectedTelegram?.id}
+                  onChange={(event) => setTelegramId(event.target.value)}
+                  className={fieldClass}
+                >
+                  {telegramNodes.map((node) => (
+                    <option key={node.id} value={node.id}>
+                      {node.data.title || node.id}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => selectedTelegram && linkSwimlaneToTelegram(lane.id, selectedTelegram.id)}
+                  className={actionClass}
+                >
+                  Подключить все сайты группы
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      <button
+        type="button"
+        onClick={() => removeSwimlane(lane.id)}
+        className="w-full rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-xs font-semibold text-rose-600 transition hover:bg-rose-100"
+      >
+        Разгруппировать
+      </button>
+      <p className="text-xs text-slate-400">Блоки останутся на канвасе, удалится только рамка</p>
+    </div>
+  );
+}
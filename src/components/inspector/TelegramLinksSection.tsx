@@ -0,0 +1,54 @@
+import { useShallow } from "zustand/react/shallow";
+
+import { chatKey, normalizeTelegramConfig, readTelegramLinks, validateTelegramChat } from "../../flow/nodes/telegram";
+import type { BaseNodeData } from "../../flow/nodes/types";
+import { useFlowStore } from "../../state/store";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+
+type Props = {
+  siteId: string;
+  com: BaseNodeData["com"];
+};
+
+// Какие чаты подключённых Telegram-блоков получают оповещения об этом сайте
+export default function TelegramLinksSection({ siteId, com }: Props) {
+  const { nodes, setTelegramChatExcluded } = useFlowStore(
+    useShallow((s) => ({ nodes: s.nodes, setTelegramChatExcluded: s.setTelegramChatExcluded }))
+  );
+  const links = readTelegramLinks(com);
+  if (links.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <span className={labelClass}>Оповещения в Telegram</span>
+      {links.map((link) => {
+        const telegramNode = nodes.find((node) => node.id === link.node);
+        const chats = normalizeTelegramConfig(telegramNode?.data.telegram).chats.filter(
+          (chat) => !validateTelegramChat(chat)
+        );
+        return (
+          <div key={link.node} className="space-y-1.5">
+            <p className="text-xs font-semibold text-slate-600">{telegramNode?.data.title ?? "Telegram"}</p>
+            {chats.length === 0 && <p className="text-xs text-slate-400">В блоке ещё нет чатов</p>}
+            {chats.map((chat) => {
+              const key = chatKey(chat);
+              return (
+                <label key={key} className="flex items-center gap-2 text-xs text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={!link.excluded.includes(key)}
+                    onChange={(event) => setTelegramChatExcluded(siteId, link.node, key, !event.target.checked)}
+                    className="h-3.5 w-3.5 rounded border-slate-300 text-sky-600 focus:ring-sky-200"
+                  />
+                  <span>{chat.label || chat.chat_id}</span>
+                  {chat.label && <span className="font-mono text-[11px] text-slate-400">{key}</span>}
+                </label>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
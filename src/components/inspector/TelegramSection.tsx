@@ -0,0 +1,217 @@
+import { useState } from "react";
+import clsx from "clsx";
+import { Send, Trash2 } from "lucide-react";
+
+import { PROMPT_PLACEHOLDERS } from "../../flow/nodes/llm";
+import {
+  TELEGRAM_PARSE_MODES,
+  normalizeTelegramConfig,
+  renderTelegramMessage,
+  validateMuteWindow,
+  validateTelegramChat,
+} from "../../flow/nodes/telegram";
+import type { MuteWindow, TelegramChat, TelegramConfig, TelegramParseMode } from "../../flow/nodes/types";
+import { sendTelegramTest } from "../../lib/api";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-lg border bg-white px-2 py-1.5 text-xs text-slate-700 shadow-sm focus:outline-none focus:ring-2";
+const fieldStateClass = (invalid: boolean) =>
+  invalid
+    ? "border-rose-300 focus:border-rose-300 focus:ring-rose-200"
+    : "border-slate-200 focus:border-sky-300 focus:ring-sky-200";
+const addButtonClass =
+  "rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-600 transition hover:border-sky-300 hover:text-sky-600";
+
+type TestState = { status: "idle" | "sending" | "sent" } | { status: "error"; message: string };
+
+type Props = {
+  config?: TelegramConfig;
+  onChange: (config: TelegramConfig) => void;
+};
+
+export default function TelegramSection({ config, onChange }: Props) {
+  const current = normalizeTelegramConfig(config);
+  const [test, setTest] = useState<TestState>({ status: "idle" });
+
+  const update = (patch: Partial<TelegramConfig>) => onChange({ ...current, ...patch });
+  const updateChat = (index: number, patch: Partial<TelegramChat>) =>
+    update({ chats: current.chats.map((chat, candidate) => (candidate === index ? { ...chat, ...patch } : chat)) });
+
+  const validChats = current.chats.filter((chat) => !validateTelegramChat(chat));
+
+  const handleTestSend = async () => {
+    setTest({ status: "sending" });
+    try {
+      await sendTelegramTest({
+        chats: validChats.map(({ chat_id, topic_id }) => ({ chat_id, topic_id })),
+        parse_mode: current.parse_mode,
+        text: renderTelegramMessage(current, {
+          site: { name: "Тестовый сайт", url: "https://example.com" },
+          log: null,
+          input: "Тестовое сообщение PingTower",
+        }),
+      });
+      setTest({ status: "sent" });
+    } catch (err) {
+      console.error("[TelegramSection] Ошибка тестовой отправки:", err);
+      setTest({ status: "error", message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Чаты</span>
+          <button
+            type="button"
+            onClick={() => update({ chats: current.chats.concat({ chat_id: "", topic_id: null, label: "" }) })}
+            className={addButtonClass}
+          >
+            ＋ Добавить
+          </button>
+        </div>
+        {current.chats.length === 0 && (
+          <p className="text-xs text-slate-400">Добавьте бота в чат и укажите его ID, например -1001234567890</p>
+        )}
+        {current.chats.map((chat, index) => {
+          const error = chat.chat_id ? validateTelegramChat(chat) : undefined;
+          return (
+            <div key={index} className="space-y-2 rounded-lg border border-slate-200/70 bg-white p-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={chat.label}
+                  onChange={(event) => updateChat(index, { label: event.target.value })}
+                  placeholder="Подпись, например «Дежурные»"
+                  className={clsx(fieldClass, fieldStateClass(false))}
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ chats: current.chats.filter((_, candidate) => candidate !== index) })}
+                  className="flex-none rounded-lg p-1.5 text-slate-400 transition hover:bg-rose-50 hover:text-rose-600"
+                  title="Удалить чат"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              <div className="grid grid-cols-[1fr_5rem] gap-2">
+                <input
+                  value={chat.chat_id}
+                  onChange={(event) => updateChat(index, { chat_id: event.target.value.trim() })}
+                  placeholder="ID чата или @канал"
+                  className={clsx(fieldClass, "font-mono", fieldStateClass(Boolean(error)))}
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={chat.topic_id ?? ""}
+                  onChange={(event) =>
+                    updateChat(index, { topic_id: event.target.value ? Number(event.target.value) : null })
+                  }
+                  placeholder="Тема"
+                  title="ID темы форума, если сообщения нужны в конкретной теме"
+                  className={clsx(fieldClass, fieldStateClass(false))}
+                />
+              </div>
+              {error && <p className="text-xs text-rose-600">{error}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Шаблон сообщения</label>
+        <div className="flex gap-1">
+          {TELEGRAM_PARSE_MODES.map((mode: TelegramParseMode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => update({ parse_mode: mode })}
+              className={clsx(
+                "rounded-lg border px-2 py-1 text-xs font-semibold transition",
+                current.parse_mode === mode
+                  ? "border-sky-300 bg-sky-50 text-sky-600"
+                  : "border-slate-200 bg-white text-slate-500 hover:border-slate-300"
+              )}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        <textarea
+          value={current.template}
+          onChange={(event) => update({ template: event.target.value })}
+          rows={4}
+          className={clsx(fieldClass, fieldStateClass(false), "resize-y font-mono")}
+        />
+        <p className="text-xs text-slate-400">
+          Подстановки: {PROMPT_PLACEHOLDERS.map((placeholder) => `{{${placeholder.key}}}`).join(", ")}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Тихие часы</span>
+          <button
+            type="button"
+            onClick={() => update({ mute: current.mute.concat({ from: "23:00", to: "08:00" }) })}
+            className={addButtonClass}
+          >
+            ＋ Окно
+          </button>
+        </div>
+        {current.mute.map((mute, index) => {
+          const error = validateMuteWindow(mute);
+          const updateWindow = (patch: Partial<MuteWindow>) =>
+            update({
+              mute: current.mute.map((candidate, position) => (position === index ? { ...candidate, ...patch } : candidate)),
+            });
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={mute.from}
+                  onChange={(event) => updateWindow({ from: event.target.value })}
+                  className={clsx(fieldClass, fieldStateClass(Boolean(error)))}
+                />
+                <span className="text-xs text-slate-400">—</span>
+                <input
+                  type="time"
+                  value={mute.to}
+                  onChange={(event) => updateWindow({ to: event.target.value })}
+                  className={clsx(fieldClass, fieldStateClass(Boolean(error)))}
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ mute: current.mute.filter((_, position) => position !== index) })}
+                  className="flex-none rounded-lg p-1.5 text-slate-400 transition hover:bg-rose-50 hover:text-rose-600"
+                  title="Удалить окно"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              {error && <p className="text-xs text-rose-600">{error}</p>}
+            </div>
+          );
+        })}
+        {current.mute.length === 0 && <p className="text-xs text-slate-400">Уведомления приходят круглосуточно</p>}
+      </div>
+
+      <div className="space-y-2">
+        <button
+          type="button"
+          onClick={() => void handleTestSend()}
+          disabled={validChats.length === 0 || test.status === "sending"}
+          className="flex w-full items-center justify-center gap-2 rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs font-semibold text-emerald-700 transition hover:bg-emerald-100 disabled:opacity-50"
+        >
+          <Send className="h-3.5 w-3.5" />
+          {test.status === "sending" ? "Отправка…" : "Отправить тестовое сообщение"}
+        </button>
+        {test.status === "sent" && <p className="text-xs text-emerald-600">Отправлено в чатов: {validChats.length}</p>}
+        {test.status === "error" && <p className="text-xs text-rose-600">{test.message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import clsx from "clsx";
+import { Send, Trash2 } from "lucide-react";
+
+import {
+  MAX_WEBHOOK_BACKOFF_MS,
+  MAX_WEBHOOK_RETRIES,
+  MIN_WEBHOOK_BACKOFF_MS,
+  WEBHOOK_METHODS,
+  normalizeWebhookConfig,
+  renderWebhookBody,
+  validateWebhookConfig,
+  validateWebhookHeader,
+} from "../../flow/nodes/webhook";
+import type { WebhookConfig, WebhookHeader, WebhookMethod } from "../../flow/nodes/types";
+import { useFlowStore } from "../../state/store";
+import NumberField from "./NumberField";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-200";
+const addButtonClass =
+  "rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-600 transition hover:border-sky-300 hover:text-sky-600";
+
+type Props = {
+  nodeId: string;
+  config?: WebhookConfig;
+  onChange: (config: WebhookConfig) => void;
+};
+
+export default function WebhookSection({ nodeId, config, onChange }: Props) {
+  const current = normalizeWebhookConfig(config);
+  const attempts = useFlowStore((s) => s.webhookAttempts[nodeId]);
+  const deliverWebhook = useFlowStore((s) => s.deliverWebhook);
+  const [isSending, setIsSending] = useState(false);
+
+  const error = validateWebhookConfig(current);
+
+  const update = (patch: Partial<WebhookConfig>) => onChange({ ...current, ...patch });
+  const updateHeader = (index: number, patch: Partial<WebhookHeader>) =>
+    update({
+      headers: current.headers.map((header, position) => (position === index ? { ...header, ...patch } : header)),
+    });
+
+  // результат виден в списке попыток, отдельный статус не нужен
+  const handleTestSend = async () => {
+    setIsSending(true);
+    try {
+      const body = renderWebhookBody(current, {
+        site: { name: "Тестовый сайт", url: "https://example.com" },
+        log: null,
+        input: "Тестовый запрос PingTower",
+      });
+      await deliverWebhook(nodeId, current, body);
+    } catch (err) {
+      console.error("[WebhookSection] Ошибка тестовой доставки:", err);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <div className="space-y-2">
+        <label className={labelClass}>Запрос</label>
+        <div className="grid grid-cols-[5.5rem_1fr] gap-2">
+          <select
+            value={current.method}
+            onChange={(event) => update({ method: event.target.value as WebhookMethod })}
+            className={clsx(fieldClass, "px-2")}
+          >
+            {WEBHOOK_METHODS.map((method) => (
+              <option key={method} value={method}>
+                {method}
+              </option>
+            ))}
+          </select>
+          <input
+            type="url"
+            autoComplete="off"
+            value={current.url}
+            onChange={(event) => update({ url: event.target.value.trim() })}
+            placeholder="https://tickets.example.com/api/incidents"
+            className={clsx(fieldClass, "font-mono text-xs")}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className={labelClass}>Заголовки</span>
+          <button
+            type="button"
+            onClick={() => update({ headers: current.headers.concat({ name: "", value: "" }) })}
+            className={addButtonClass}
+          >
+            ＋ Заголовок
+          </button>
+        </div>
+        {current.headers.map((header, index) => {
+          const headerError = header.name ? validateWebhookHeader(header) : undefined;
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  value={header.name}
+                  onChange={(event) => updateHeader(index, { name: event.target.value.trim() })}
+                  placeholder="Authorization"
+                  className={clsx(fieldClass, "font-mono text-xs")}
+                />
+                <input
+                  value={header.value}
+                  onChange={(event) => updateHeader(index, { value: event.target.value })}
+                  placeholder="Bearer …"
+                  className={clsx(fieldClass, "font-mono text-xs")}
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ headers: current.headers.filter((_, position) => position !== index) })}
+                  className="flex-none rounded-lg p-1.5 text-slate-400 transition hover:bg-rose-50 hover:text-rose-600"
+                  title="Удалить заголовок"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              {headerError && <p className="text-xs text-rose-600">{headerError}</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Тело (JSON)</label>
+        <textarea
+          value={current.body}
+          onChange={(event) => update({ body: event.target.value })}
+          rows={7}
+          className={clsx(fieldClass, "resize-y font-mono text-xs")}
+        />
+        <p className="text-xs text-slate-400">Подстановки вида {"{{site.name}}"} пишутся внутри строк JSON</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Подпись HMAC-SHA256</label>
+        <input
+          type="password"
+          autoComplete="off"
+          value={current.secret}
+          onChange={(event) => update({ secret: event.target.value })}
+          placeholder="Секрет; пусто — без подписи"
+          className={fieldClass}
+        />
+        {current.secret && (
+          <input
+            value={current.signature_header}
+            onChange={(event) => update({ signature_header: event.target.value.trim() })}
+            className={clsx(fieldClass, "font-mono text-xs")}
+          />
+        )}
+        <p className="text-xs text-slate-400">Подписывает сервер, заголовок: sha256=&lt;hex&gt; от тела запроса. Секрет хранится только в этом браузере</p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="Повторы"
+          value={current.retries}
+          min={0}
+          max={MAX_WEBHOOK_RETRIES}
+          onCommit={(retries) => update({ retries })}
+        />
+        <NumberField
+          label="Пауза"
+          value={current.backoff_ms}
+          min={MIN_WEBHOOK_BACKOFF_MS}
+          max={MAX_WEBHOOK_BACKOFF_MS}
+          suffix="мс"
+          onCommit={(backoff_ms) => update({ backoff_ms })}
+        />
+      </div>
+
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      <button
+        type="button"
+        onClick={() => void handleTestSend()}
+        disabled={Boolean(error) || isSending}
+        className="flex w-full items-center justify-center gap-2 rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs font-semibold text-emerald-700 transition hover:bg-emerald-100 disabled:opacity-50"
+      >
+        <Send className="h-3.5 w-3.5" />
+        {isSending ? "Отправка…" : "Отправить тестовый запрос"}
+      </button>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Последние попытки</span>
+        {!attempts?.length && <p className="text-xs text-slate-400">Запросов ещё не было</p>}
+        {attempts?.map((attempt) => (
+          <div
+            key={attempt.at + attempt.latency_ms}
+            className={clsx(
+              "space-y-1 rounded-lg border px-2 py-1.5 text-xs",
+              attempt.ok ? "border-emerald-100 bg-emerald-50/60" : "border-rose-100 bg-rose-50/60"
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className={clsx("font-semibold", attempt.ok ? "text-emerald-700" : "text-rose-700")}>
+                {attempt.status ?? "нет ответа"}
+              </span>
+              <span className="text-slate-400">
+                {attempt.latency_ms} мс · {new Date(attempt.at).toLocaleTimeString()}
+              </span>
+            </div>
+            {attempt.response && (
+              <p className="break-all font-mono text-[11px] text-slate-500">{attempt.response}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import clsx from "clsx";
+
+import {
+  DEFAULT_SITE_CHECK,
+  HTTP_CHECK_METHODS,
+  MAX_CHECK_TIMEOUT,
+  METHODS_WITH_BODY,
+  MIN_CHECK_TIMEOUT,
+  formatHeaders,
+  formatStatusRanges,
+  isValidRegex,
+  normalizeCheckTimeout,
+  parseHeaders,
+  parseStatusRanges,
+} from "../../flow/nodes/siteCheck";
+import type { HttpCheckMethod, SiteCheckConfig } from "../../flow/nodes/types";
+
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-slate-400";
+const fieldClass =
+  "w-full rounded-xl border bg-white px-3 py-2 text-sm text-slate-700 shadow-sm focus:outline-none focus:ring-2";
+const fieldStateClass = (invalid: boolean) =>
+  invalid
+    ? "border-rose-300 focus:border-rose-300 focus:ring-rose-200"
+    : "border-slate-200 focus:border-sky-300 focus:ring-sky-200";
+
+// Текстовые поля, которые сначала разбираются и только потом попадают в настройки
+type DraftFields = {
+  headers: string;
+  expected_status: string;
+  timeout: string;
+};
+
+const toDraft = (check: SiteCheckConfig): DraftFields => ({
+  headers: formatHeaders(check.headers),
+  expected_status: formatStatusRanges(check.expected_status),
+  timeout: String(check.timeout),
+});
+
+type Props = {
+  nodeId: string;
+  check?: SiteCheckConfig;
+  onChange: (check: SiteCheckConfig) => void;
+};
+
+export default function WebsiteCheckSection({ nodeId, check, onChange }: Props) {
+  const current = check ?? DEFAULT_SITE_CHECK;
+  const [draft, setDraft] = useState<DraftFields>(() => toDraft(current));
+  const [errors, setErrors] = useState<Partial<Record<keyof DraftFields, string>>>({});
+
+  // черновик сбрасывается при выборе другого блока и при undo/redo
+  useEffect(() => {
+    setDraft(toDraft(check ?? DEFAULT_SITE_CHECK));
+    setErrors({});
+  }, [check, nodeId]);
+
+  const update = (patch: Partial<SiteCheckConfig>) => onChange({ ...current, ...patch });
+
+  const commitDraft = (field: keyof DraftFields) => {
+    const raw = draft[field];
+    let error: string | undefined;
+
+    if (field === "headers") {
+      const headers = parseHeaders(raw);
+      if (headers) update({ headers });
+      else error = "Каждая строка — «Имя: значение»";
+    } else if (field === "expected_status") {
+      const expected_status = parseStatusRanges(raw);
+      if (expected_status) update({ expected_status });
+      else error = "Коды 100–599 через запятую, диапазоны через дефис";
+    } else {
+      const timeout = normalizeCheckTimeout(raw);
+      if (timeout) {
+        setDraft((prev) => ({ ...prev, timeout: String(timeout) }));
+        update({ timeout });
+      } else {
+        error = `Число от ${MIN_CHECK_TIMEOUT} до ${MAX_CHECK_TIMEOUT} секунд`;
+      }
+    }
+
+    setErrors((prev) => ({ ...prev, [field]: error }));
+  };
+
+  const regexError =
+    current.body_match_mode === "regex" && current.body_match && !isValidRegex(current.body_match)
+      ? "Некорректное регулярное выражение"
+      : undefined;
+
+  return (
+    <div className="space-y-4 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+      <span className={labelClass}>Проверка</span>
+
+      <div className="grid grid-cols-[7rem_1fr] gap-2">
+        <select
+          value={current.method}
+          onChange={(event) => update({ method: event.target.value as HttpCheckMethod })}
+          className={clsx(fieldClass, fieldStateClass(false))}
+        >
+          {HTTP_CHECK_METHODS.map((method) => (
+            <option key={method} value={method}>
+              {method}
+            </option>
+          ))}
+        </select>
+        <input
+          value={draft.timeout}
+          onChange={(event) => setDraft((prev) => ({ ...prev, timeout: event.target.value }))}
+          onBlur={() => commitDraft("timeout")}
+          type="number"
+          min={MIN_CHECK_TIMEOUT}
+          max={MAX_CHECK_TIMEOUT}
+          title="Таймаут, сек"
+          className={clsx(fieldClass, fieldStateClass(Boolean(errors.timeout)))}
+        />
+      </div>
+      {errors.timeout ? (
+        <p className="-mt-2 text-xs text-rose-600">{errors.timeout}</p>
+      ) : (
+        <p className="-mt-2 text-xs text-slate-400">Метод запроса и таймаут в секундах</p>
+      )}
+
+      <div className="space-y-2">
+        <label className={labelClass}>Заголовки</label>
+        <textarea
+          value={draft.headers}
+          onChange={(event) => setDraft((prev) => ({ ...prev, headers: event.target.value }))}
+          onBlur={() => commitDraft("headers")}
+          rows={3}
+          placeholder={"Authorization: Bearer …\nAccept: application/json"}
+          className={clsx(fieldClass, "resize-none font-mono text-xs", fieldStateClass(Boolean(errors.headers)))}
+        />
+        {errors.headers && <p className="text-xs text-rose-600">{errors.headers}</p>}
+      </div>
+
+      {METHODS_WITH_BODY.includes(current.method) && (
+        <div className="space-y-2">
+          <label className={labelClass}>Тело запроса</label>
+          <textarea
+            value={current.body}
+            onChange={(event) => update({ body: event.target.value })}
+            rows={3}
+            placeholder='{"ping": true}'
+            className={clsx(fieldClass, "resize-none font-mono text-xs", fieldStateClass(false))}
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className={labelClass}>Ожидаемый статус</label>
+        <input
+          value={draft.expected_status}
+          onChange={(event) => setDraft((prev) => ({ ...prev, expected_status: event.target.value }))}
+          onBlur={() => commitDraft("expected_status")}
+          placeholder="200-299, 304"
+          className={clsx(fieldClass, fieldStateClass(Boolean(errors.expected_status)))}
+        />
+        {errors.expected_status && <p className="text-xs text-rose-600">{errors.expected_status}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Тело ответа</label>
+        <div className="grid grid-cols-[1fr_7rem] gap-2">
+          <input
+            value={current.body_match}
+            onChange={(event) => update({ body_match: event.target.value })}
+            placeholder={current.body_match_mode === "regex" ? "status\":\\s*\"ok" : "OK"}
+            className={clsx(fieldClass, fieldStateClass(Boolean(regexError)))}
+          />
+          <select
+            value={current.body_match_mode}
+            onChange={(event) => update({ body_match_mode: event.target.value as SiteCheckConfig["body_match_mode"] })}
+            className={clsx(fieldClass, fieldStateClass(false))}
+          >
+            <option value="substring">Подстрока</option>
+            <option value="regex">RegExp</option>
+          </select>
+        </div>
+        {regexError ? (
+          <p className="text-xs text-rose-600">{regexError}</p>
+        ) : (
+          <p className="text-xs text-slate-400">Пусто — содержимое ответа не проверяется</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
-import { useCallback, useMemo, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import { nanoid } from "nanoid";
 import ReactFlow, {
   Background,
   BackgroundVariant,
+  ControlButton,
   Controls,
   Panel,
   ReactFlowProvider,
@@ -18,23 +19,50 @@ import ReactFlow, {
 } from "reactflow";
 import "reactflow/dist/style.css";
 
+import { Group, LayoutDashboard } from "lucide-react";
 import { useShallow } from "zustand/react/shallow";
 
+import { SNAP_GRID } from "./layout";
 import { NODE_LIBRARY } from "./library";
+import { CONDITION_BRANCH_LABELS, isConditionBranch } from "./nodes/condition";
+import ConditionNode from "./nodes/ConditionNode";
+import DnsNode from "./nodes/DnsNode";
+import EmailNode from "./nodes/EmailNode";
+import HeartbeatNode from "./nodes/HeartbeatNode";
 import LLMNode from "./nodes/LLMNode";
 import MessengerNode from "./nodes/MessengerNode";
+import NoiseNode from "./nodes/NoiseNode";
+import PingNode from "./nodes/PingNode";
+import { findSwimlaneAt } from "./nodes/swimlane";
+import SwimlaneNode from "./nodes/SwimlaneNode";
+import TcpNode from "./nodes/TcpNode";
 import TelegramNode from "./nodes/TelegramNode";
+import TlsNode from "./nodes/TlsNode";
+import WebhookNode from "./nodes/WebhookNode";
 import WebsiteNode from "./nodes/WebsiteNode";
-import type { FlowNode } from "./nodes/types";
+import { SWIMLANE_TYPE, isMonitorVariant, isSwimlane, type FlowNode } from "./nodes/types";
+import { FlowImportError, exportSelection, planFlowImport, type FlowFragment } from "./transfer";
+import ProblemsPanel from "../components/ProblemsPanel";
 import { useFlowStore } from "../state/store";
+import { isPersistedSite } from "../state/history";
 import { canConnect } from "../utils/validation";
 import SmartConnectionLine from "./edges/SmartConnectionLine";
 
 const nodeTypes = {
   website: WebsiteNode,
+  tcp: TcpNode,
+  dns: DnsNode,
+  ping: PingNode,
+  tls: TlsNode,
+  heartbeat: HeartbeatNode,
   llm: LLMNode,
   messenger: MessengerNode,
   telegram: TelegramNode,
+  email: EmailNode,
+  webhook: WebhookNode,
+  condition: ConditionNode,
+  noise: NoiseNode,
+  [SWIMLANE_TYPE]: SwimlaneNode,
 };
 
 const EDGE_COLOR = "#38bdf8";
@@ -53,6 +81,13 @@ const defaultEdgeOptions = {
 
 const smoothstepLineType = "smoothstep" as ConnectionLineType;
 
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// выделенный на странице текст копируется как обычно, а не как блоки
+const hasTextSelection = () => window.getSelection()?.isCollapsed === false;
+
 type SelectionChangeParams = Parameters<
   NonNullable<React.ComponentProps<typeof ReactFlow>["onSelectionChange"]>
 >[0];
@@ -60,6 +95,10 @@ type SelectionChangeParams = Parameters<
 function CanvasInner() {
   const wrapperRef = useRef<HTMLDivElement | null>(null);
   const reactFlow = useReactFlow();
+  // последняя копия из этой вкладки: вставка из неё сохраняет ключи и адреса доставки,
+  // которые в общий буфер обмена не попадают
+  const lastCopyRef = useRef<{ text: string; fragment: FlowFragment } | null>(null);
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
 
   // 🔹 Один вызов useFlowStore со всеми нужными данными
   const {
@@ -68,7 +107,16 @@ function CanvasInner() {
     setNodes,
     setEdges,
     setSelectedNode,
-    createWebsiteNode,
+    openSiteForm,
+    deleteSiteNode,
+    takeSnapshot,
+    undo,
+    redo,
+    arrangeNodes,
+    createSwimlane,
+    assignToSwimlane,
+    pasteFragment,
+    duplicateSelection,
   } = useFlowStore(
     useShallow((state) => ({
       nodes: state.nodes,
@@ -76,10 +124,125 @@ function CanvasInner() {
       setNodes: state.setNodes,
       setEdges: state.setEdges,
       setSelectedNode: state.setSelectedNode,
-      createWebsiteNode: state.createWebsiteNode,
+      openSiteForm: state.openSiteForm,
+      deleteSiteNode: state.deleteSiteNode,
+      takeSnapshot: state.takeSnapshot,
+      undo: state.undo,
+      redo: state.redo,
+      arrangeNodes: state.arrangeNodes,
+      createSwimlane: state.createSwimlane,
+      assignToSwimlane: state.assignToSwimlane,
+      pasteFragment: state.pasteFragment,
+      duplicateSelection: state.duplicateSelection,
     }))
   );
 
+  // ⌨️ Ctrl+Z / Ctrl+Shift+Z (и Ctrl+Y), Ctrl+D — дублировать выделенное;
+  // в полях ввода остаётся нативное поведение
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        void undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        void redo();
+      } else if (key === "d") {
+        event.preventDefault();
+        void duplicateSelection();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [duplicateSelection, redo, undo]);
+
+  // 📋 Ctrl+C / Ctrl+V: в буфер обмена кладётся JSON фрагмента, поэтому блоки
+  // переносятся и между вкладками; вставка встаёт под курсор, если он над холстом
+  useEffect(() => {
+    const handleCopy = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target) || hasTextSelection()) return;
+
+      const { flowName, nodes, edges } = useFlowStore.getState();
+      const fragment = exportSelection(flowName, nodes, edges, { keepSecrets: true });
+      if (fragment.nodes.length === 0) return;
+
+      const text = JSON.stringify(exportSelection(flowName, nodes, edges), null, 2);
+      event.clipboardData?.setData("text/plain", text);
+      event.preventDefault();
+      lastCopyRef.current = { text, fragment };
+    };
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target)) return;
+      const text = event.clipboardData?.getData("text/plain");
+      if (!text) return;
+
+      let fragment: FlowFragment;
+      if (lastCopyRef.current?.text === text) {
+        fragment = lastCopyRef.current.fragment;
+      } else {
+        try {
+          const plan = planFlowImport(text, []);
+          plan.warnings.forEach((warning) => console.warn("[FlowCanvas] Вставка:", warning));
+          fragment = plan;
+        } catch (err) {
+          // в буфере не фрагмент сценария — вставлять нечего
+          if (err instanceof FlowImportError) return;
+          throw err;
+        }
+      }
+
+      event.preventDefault();
+      const pointer = pointerRef.current;
+      void pasteFragment(fragment, pointer ? reactFlow.screenToFlowPosition(pointer) : undefined);
+    };
+
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("paste", handlePaste);
+    return () => {
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+    };
+  }, [pasteFragment, reactFlow]);
+
+  // с nodeDragThreshold={1} срабатывает при настоящем перетаскивании, а не на каждый клик по блоку
+  const onNodeDragStart = useCallback(() => takeSnapshot(), [takeSnapshot]);
+
+  // Блок принадлежит группе, в рамку которой попал его центр
+  const onNodeDragStop = useCallback(
+    (_: React.MouseEvent, __: FlowNode, dragged: FlowNode[]) => {
+      const moves = new Map<string | undefined, string[]>();
+      dragged
+        .filter((node) => !isSwimlane(node))
+        .forEach((node) => {
+          const origin = node.positionAbsolute ?? node.position;
+          const center = { x: origin.x + (node.width ?? 0) / 2, y: origin.y + (node.height ?? 0) / 2 };
+          const laneId = findSwimlaneAt(center, nodes)?.id;
+          if (laneId === node.parentNode) return;
+          moves.set(laneId, (moves.get(laneId) ?? []).concat(node.id));
+        });
+      moves.forEach((nodeIds, laneId) => assignToSwimlane(nodeIds, laneId));
+    },
+    [assignToSwimlane, nodes]
+  );
+
+  const onEdgesDelete = useCallback(() => takeSnapshot("delete"), [takeSnapshot]);
+
+  // Удаление клавишей ведёт себя так же, как кнопка «Удалить»: сайт удаляется и на сервере
+  const onNodesDelete = useCallback(
+    (deleted: FlowNode[]) => {
+      takeSnapshot("delete");
+      deleted
+        .filter(isPersistedSite)
+        .forEach((node) => void deleteSiteNode(node.id, Number(node.id)));
+    },
+    [deleteSiteNode, takeSnapshot]
+  );
+
   const onNodesChange = useCallback(
     (changes: NodeChange[]) => setNodes((nds) => applyNodeChanges(changes, nds)),
     [setNodes]
@@ -98,6 +261,9 @@ function CanvasInner() {
       sourceHandle: connection.sourceHandle,
       targetHandle: connection.targetHandle,
       ...defaultEdgeOptions,
+      ...(isConditionBranch(connection.sourceHandle) && {
+        label: CONDITION_BRANCH_LABELS[connection.sourceHandle],
+      }),
     }),
     []
   );
@@ -110,9 +276,10 @@ function CanvasInner() {
   const onConnect = useCallback(
     (connection: Connection) => {
       if (!isValidConnection(connection)) return;
+      takeSnapshot();
       setEdges((eds) => eds.concat(buildEdge(connection)));
     },
-    [buildEdge, isValidConnection, setEdges]
+    [buildEdge, isValidConnection, setEdges, takeSnapshot]
   );
 
   const onSelectionChange = useCallback(
@@ -143,28 +310,59 @@ function CanvasInner() {
         y: event.clientY,
       });
 
-      if (template.type === "website") {
-        void createWebsiteNode(position, template.data);
+      if (isMonitorVariant(template.type)) {
+        openSiteForm({
+          mode: "create",
+          variant: template.type,
+          position,
+          template: { ...template.data, templateId: template.templateId },
+        });
         return;
       }
 
+      const lane = findSwimlaneAt(position, nodes);
       const newNode: FlowNode = {
         id: `temp-${nanoid()}`,
         type: template.type,
-        position,
-        data: { ...template.data },
+        position: lane ? { x: position.x - lane.position.x, y: position.y - lane.position.y } : position,
+        data: { ...template.data, templateId: template.templateId },
+        parentNode: lane?.id,
       };
 
+      takeSnapshot();
       setNodes((nds) => nds.concat(newNode));
       setSelectedNode(newNode.id);
     },
-    [createWebsiteNode, reactFlow, setNodes, setSelectedNode]
+    [nodes, openSiteForm, reactFlow, setNodes, setSelectedNode, takeSnapshot]
   );
 
+  const handleArrange = useCallback(async () => {
+    await arrangeNodes();
+    reactFlow.fitView({ padding: 0.2, duration: 300 });
+  }, [arrangeNodes, reactFlow]);
+
+  // Новая группа встаёт в центр видимой области, если нечего собирать из выделения
+  const handleCreateSwimlane = useCallback(() => {
+    const bounds = wrapperRef.current?.getBoundingClientRect();
+    const center = bounds
+      ? reactFlow.screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 })
+      : { x: 0, y: 0 };
+    createSwimlane(center);
+  }, [createSwimlane, reactFlow]);
+
   const backgroundGap = useMemo(() => ({ x: 40, y: 40 }), []);
 
   return (
-    <div ref={wrapperRef} className="relative flex h-full flex-1">
+    <div
+      ref={wrapperRef}
+      className="relative flex h-full flex-1"
+      onMouseMove={(event) => {
+        pointerRef.current = { x: event.clientX, y: event.clientY };
+      }}
+      onMouseLeave={() => {
+        pointerRef.current = null;
+      }}
+    >
       <ReactFlow
         nodes={nodes}
         edges={edges}
@@ -172,6 +370,13 @@ function CanvasInner() {
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onConnect={onConnect}
+        nodeDragThreshold={1}
+        onNodeDragStart={onNodeDragStart}
+        onSelectionDragStart={onNodeDragStart}
+        onNodeDragStop={onNodeDragStop}
+        onSelectionDragStop={(event, dragged) => onNodeDragStop(event, dragged[0], dragged)}
+        onNodesDelete={onNodesDelete}
+        onEdgesDelete={onEdgesDelete}
         onSelectionChange={onSelectionChange}
         onPaneClick={onPaneClick}
         onDrop={onDrop}
@@ -181,7 +386,7 @@ function CanvasInner() {
         connectionLineType={smoothstepLineType}
         connectionLineComponent={SmartConnectionLine}
         snapToGrid
-        snapGrid={[24, 24]}
+        snapGrid={SNAP_GRID}
         fitView
         fitViewOptions={{ padding: 0.2 }}
         proOptions={{ hideAttribution: true }}
@@ -197,13 +402,23 @@ function CanvasInner() {
           size={1.5}
           color="#94a3b8"
         />
-        <Controls showInteractive={false} position="bottom-left" />
+        <Controls showInteractive={false} position="bottom-left">
+          <ControlButton onClick={() => void handleArrange()} title="Упорядочить: источники → логика → доставка">
+            <LayoutDashboard />
+          </ControlButton>
+          <ControlButton onClick={handleCreateSwimlane} title="Группа: выделенные блоки или пустая рамка">
+            <Group />
+          </ControlButton>
+        </Controls>
         <Panel
           position="top-right"
           className="rounded-2xl border border-slate-200 bg-white/80 px-4 py-2 text-xs text-slate-500 shadow-sm backdrop-blur"
         >
           <span className="font-semibold text-slate-700">Подсказка:</span> перетащите блок из библиотеки слева
         </Panel>
+        <Panel position="bottom-right">
+          <ProblemsPanel />
+        </Panel>
       </ReactFlow>
     </div>
   );
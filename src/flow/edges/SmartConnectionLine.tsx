@@ -1,9 +1,36 @@
-import type { ConnectionLineComponentProps } from "reactflow";
-import { getSmoothStepPath } from "reactflow";
+import type { ConnectionLineComponentProps, ReactFlowState } from "reactflow";
+import { getSmoothStepPath, useStore } from "reactflow";
+import { useShallow } from "zustand/react/shallow";
+
+import { useFlowStore } from "../../state/store";
+import { explainConnection } from "../../utils/validation";
 
 const EDGE_COLOR = "#38bdf8";
 const INVALID_COLOR = "#f43f5e";
 
+const TOOLTIP_WIDTH = 240;
+
+const selectHandles = (state: ReactFlowState) => ({
+  start: state.connectionStartHandle,
+  end: state.connectionEndHandle,
+});
+
+// Причина, по которой связь к наведённой ручке недопустима; тянуть можно и от входа
+function useInvalidReason(isInvalid: boolean): string | undefined {
+  const { start, end } = useStore(useShallow(selectHandles));
+  const nodes = useFlowStore((s) => s.nodes);
+  const edges = useFlowStore((s) => s.edges);
+
+  if (!isInvalid || !start) return undefined;
+  if (!end) return "Выход соединяется только со входом";
+
+  const [from, to] = start.type === "source" ? [start, end] : [end, start];
+  return explainConnection(
+    { source: from.nodeId, sourceHandle: from.handleId ?? null, target: to.nodeId, targetHandle: to.handleId ?? null },
+    { nodes, edges }
+  );
+}
+
 export default function SmartConnectionLine({
   fromX,
   fromY,
@@ -25,6 +52,7 @@ export default function SmartConnectionLine({
   });
 
   const isInvalid = connectionStatus === "invalid";
+  const reason = useInvalidReason(isInvalid);
   const rawStrokeWidth = connectionLineStyle?.strokeWidth;
   const strokeWidth =
     typeof rawStrokeWidth === "number"
@@ -71,6 +99,13 @@ export default function SmartConnectionLine({
           />
         </g>
       ) : null}
+      {reason ? (
+        <foreignObject x={toX + 16} y={toY + 12} width={TOOLTIP_WIDTH} height={80} className="overflow-visible">
+          <div className="inline-block rounded-lg border border-rose-200 bg-white px-2 py-1 text-[11px] font-medium leading-snug text-rose-600 shadow-sm">
+            {reason}
+          </div>
+        </foreignObject>
+      ) : null}
     </g>
   );
 }
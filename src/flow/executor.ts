@@ -0,0 +1,574 @@
+import type { Edge } from "reactflow";
+
+import type { LogRecord } from "../utils/stats";
+import { normalizeLlmConfig, renderPromptTemplate, validateLlmConfig, type PromptContext } from "./nodes/llm";
+import {
+  describeCondition,
+  evaluateCondition,
+  isConditionBranch,
+  normalizeConditionRule,
+  requiredHistory,
+} from "./nodes/condition";
+import { normalizeEmailConfig, renderEmail, validateEmailConfig, type EmailMessage } from "./nodes/email";
+import {
+  MESSENGER_PROVIDERS,
+  buildMessengerPayload,
+  normalizeMessengerConfig,
+  renderMessengerMessage,
+  validateMessengerConfig,
+} from "./nodes/messenger";
+import { DEFAULT_PROBES, isHeartbeatOverdue, maxCheckGap } from "./nodes/monitors";
+import { applyNoiseRule, createNoiseState, normalizeNoiseRule, type NoiseState } from "./nodes/noise";
+import { normalizeWebhookConfig, renderWebhookBody, validateWebhookConfig } from "./nodes/webhook";
+import { isMuted, normalizeTelegramConfig, renderTelegramMessage } from "./nodes/telegram";
+import {
+  MONITOR_VARIANTS,
+  type BlockVariant,
+  type ConditionBranch,
+  type EmailConfig,
+  type FlowNode,
+  type LlmConfig,
+  type NodeStatus,
+  type WebhookConfig,
+} from "./nodes/types";
+
+// Данные, которые узлы передают друг другу по связям
+export type CheckPayload = {
+  kind: "check";
+  site: { id: string; name: string; url: string };
+  log: LogRecord | null;
+};
+
+export type MessagePayload = {
+  kind: "message";
+  text: string;
+  checks: CheckPayload[];
+};
+
+export type DeliveryPayload = {
+  kind: "delivery";
+  channel: string;
+  messages: string[];
+  // доставка пропущена из-за тихих часов
+  muted?: boolean;
+  // сообщения только собраны для просмотра: отправляет их сервер по итогам своих проверок
+  preview?: boolean;
+};
+
+export type FlowPayload = CheckPayload | MessagePayload | DeliveryPayload;
+
+export type NodeInput = {
+  sourceId: string;
+  payload: FlowPayload;
+};
+
+// Выходы «да»/«нет» ветвящегося узла: по связи с ручки уходят только свои данные
+export type NodeBranches = Partial<Record<ConditionBranch, FlowPayload[]>>;
+
+export type NodeRunResult = {
+  status: Extract<NodeStatus, "success" | "error">;
+  output?: FlowPayload;
+  branches?: NodeBranches;
+  // что уходит по связям, если это не сам output; пустой список — дальше ничего
+  forward?: FlowPayload[];
+  error?: string;
+  startedAt: string;
+  finishedAt: string;
+};
+
+export type ExecutorContext = {
+  signal: AbortSignal;
+  // maxGap — самый долгий промежуток между записями сайта, сек
+  fetchLatestLog: (url: string, maxGap: number) => Promise<LogRecord | null>;
+  // последние проверки сайта, новые первыми
+  fetchRecentLogs: (url: string, count: number) => Promise<LogRecord[]>;
+  completeChat: (config: LlmConfig, prompt: string, signal: AbortSignal) => Promise<string>;
+  // вебхук мессенджера; запрос делает сервер
+  sendMessenger: (url: string, payload: unknown, signal: AbortSignal) => Promise<void>;
+  sendEmail: (config: EmailConfig, message: EmailMessage, signal: AbortSignal) => Promise<void>;
+  // запрос, подпись и повторы делает сервер; контекст запоминает попытки доставки
+  deliverWebhook: (nodeId: string, config: WebhookConfig, body: unknown, signal: AbortSignal) => Promise<void>;
+  // память узлов между прогонами одного запуска сценария
+  memory: Map<string, unknown>;
+};
+
+// `failed` помечает узел ошибкой, но результат всё равно уходит дальше:
+// упавший сайт — как раз повод для уведомления.
+export type NodeExecution = {
+  output: FlowPayload;
+  branches?: NodeBranches;
+  forward?: FlowPayload[];
+  failed?: boolean;
+};
+
+export type NodeExecutor = (
+  node: FlowNode,
+  inputs: NodeInput[],
+  context: ExecutorContext
+) => Promise<NodeExecution>;
+
+export type ExecuteFlowOptions = ExecutorContext & {
+  onNodeStart?: (nodeId: string) => void;
+  onNodeFinish?: (nodeId: string, result: NodeRunResult) => void;
+};
+
+export class FlowAbortedError extends Error {
+  constructor() {
+    super("Выполнение сценария остановлено");
+    this.name = "FlowAbortedError";
+  }
+}
+
+const SOURCE_VARIANTS: BlockVariant[] = MONITOR_VARIANTS;
+
+const TRAFFIC_EMOJI: Record<LogRecord["traffic_light"], string> = {
+  green: "🟢",
+  orange: "🟠",
+  red: "🔴",
+};
+
+export function formatCheckSummary(check: CheckPayload): string {
+  const { site, log } = check;
+  if (!log) {
+    return `⚪️ ${site.name} (${site.url}): нет данных проверок`;
+  }
+
+  const parts = [
+    log.http_status !== null ? `HTTP ${log.http_status}` : "HTTP —",
+    log.latency_ms !== null ? `${log.latency_ms} мс` : null,
+    log.ssl_days_left !== null ? `SSL ${log.ssl_days_left} дн.` : null,
+  ].filter(Boolean);
+
+  return `${TRAFFIC_EMOJI[log.traffic_light]} ${site.name} (${site.url}): ${parts.join(", ")}`;
+}
+
+const collectChecks = (inputs: NodeInput[]): CheckPayload[] =>
+  inputs.flatMap(({ payload }) => {
+    if (payload.kind === "check") return [payload];
+    if (payload.kind === "message") return payload.checks;
+    return [];
+  });
+
+const collectMessages = (inputs: NodeInput[]): string[] =>
+  inputs.flatMap(({ payload }) => {
+    if (payload.kind === "check") return [formatCheckSummary(payload)];
+    if (payload.kind === "message") return [payload.text];
+    return payload.messages;
+  });
+
+// Любой монитор — сайт на сервере: результат берётся из его последней проверки
+const checkSite: NodeExecutor = async (node, _inputs, context) => {
+  const url = node.data.description ?? "";
+  const log = url ? await context.fetchLatestLog(url, maxCheckGap(node.type, node.data)) : null;
+
+  return {
+    output: {
+      kind: "check",
+      site: { id: node.id, name: node.data.title ?? url, url },
+      log,
+    },
+    failed: !log || log.traffic_light === "red",
+  };
+};
+
+// Heartbeat сам ничего не опрашивает: если задача не отметилась за period + grace,
+// последняя запись уже устарела, и блок считается красным, не дожидаясь записи сервера
+const checkHeartbeat: NodeExecutor = async (node, inputs, context) => {
+  const execution = await checkSite(node, inputs, context);
+  if (execution.output.kind !== "check") return execution;
+
+  const probe = node.data.probe?.kind === "heartbeat" ? node.data.probe : DEFAULT_PROBES.heartbeat;
+  const { log } = execution.output;
+  if (!log || !isHeartbeatOverdue(log, probe) || log.traffic_light === "red") return execution;
+
+  // время пропуска — срок сигнала, а не момент прогона: одна и та же запись на каждом такте
+  const deadline = new Date(log.timestamp).getTime() + (probe.period + probe.grace) * 1000;
+  const missed: LogRecord = {
+    timestamp: new Date(Number.isFinite(deadline) ? deadline : Date.now()).toISOString(),
+    traffic_light: "red",
+    http_status: null,
+    latency_ms: null,
+    ping_ms: null,
+    ssl_days_left: null,
+    dns_resolved: null,
+    redirects: null,
+    url: execution.output.site.url,
+  };
+  return { output: { ...execution.output, log: missed }, failed: true };
+};
+
+// Прогон идёт чаще, чем сервер проверяет сайты, и видит ту же последнюю запись
+// несколько раз. Узлы с внешними вызовами помнят, какие проверки уже обработали
+// (ключ — сайт, значение — время записи), и не отправляют одно и то же повторно
+type SeenChecks = Record<string, string>;
+
+const checkStamp = (check: CheckPayload) => check.log?.timestamp ?? "";
+
+const seenChecks = (node: FlowNode, context: ExecutorContext): SeenChecks => {
+  const memoryKey = `${node.id}:seen`;
+  const seen = (context.memory.get(memoryKey) as SeenChecks | undefined) ?? {};
+  context.memory.set(memoryKey, seen);
+  return seen;
+};
+
+// Сообщения без проверок проходят всегда, сообщение с проверками — если среди них есть новая
+const pickNewInputs = (inputs: NodeInput[], seen: SeenChecks): NodeInput[] =>
+  inputs.filter(({ payload }) => {
+    if (payload.kind === "check") return seen[payload.site.id] !== checkStamp(payload);
+    if (payload.kind === "message") {
+      return payload.checks.length === 0 || payload.checks.some((check) => seen[check.site.id] !== checkStamp(check));
+    }
+    return true;
+  });
+
+// Отмечается после успешной отправки: упавшая доставка повторится на следующем такте
+const markSeen = (inputs: NodeInput[], seen: SeenChecks) => {
+  collectChecks(inputs).forEach((check) => {
+    seen[check.site.id] = checkStamp(check);
+  });
+};
+
+// Промпт собирается отдельно для каждой входящей проверки, чтобы подстановки
+// site.* и log.* относились к одному сайту; без проверок — один промпт по сводке
+const generateMessage: NodeExecutor = async (node, inputs, context) => {
+  const config = normalizeLlmConfig(node.data.llm);
+  const configError = validateLlmConfig(config);
+  if (configError) throw new Error(configError);
+
+  const seen = seenChecks(node, context);
+  const fresh = pickNewInputs(inputs, seen);
+  if (fresh.length === 0) {
+    return { output: { kind: "message", text: "Новых проверок нет", checks: [] }, forward: [] };
+  }
+
+  const checks = collectChecks(fresh);
+  const prompts =
+    checks.length > 0
+      ? checks.map((check) =>
+          renderPromptTemplate(config.prompt, { site: check.site, log: check.log, input: formatCheckSummary(check) })
+        )
+      : [renderPromptTemplate(config.prompt, { input: collectMessages(fresh).join("\n") })];
+
+  const replies: string[] = [];
+  for (const prompt of prompts) {
+    replies.push(await context.completeChat(config, prompt, context.signal));
+  }
+  markSeen(fresh, seen);
+
+  return { output: { kind: "message", text: replies.join("\n\n"), checks } };
+};
+
+// Сообщения собираются по шаблону блока: проверка — со своими site.* и log.*,
+// текст LLM — как {{input}}; уже готовые сообщения отдаются в forward
+const renderDeliveryMessages = <T>(
+  inputs: NodeInput[],
+  render: (context: PromptContext) => T,
+  forward: (message: string) => T
+): T[] =>
+  inputs.flatMap(({ payload }) => {
+    if (payload.kind === "check") {
+      return [render({ site: payload.site, log: payload.log, input: formatCheckSummary(payload) })];
+    }
+    if (payload.kind === "message") {
+      const single = payload.checks.length === 1 ? payload.checks[0] : undefined;
+      return [render({ site: single?.site, log: single?.log, input: payload.text })];
+    }
+    return payload.messages.map(forward);
+  });
+
+const asIs = (message: string) => message;
+
+// В Telegram пишет сервер по привязкам в com.telegram сайтов (с шаблоном и тихими часами
+// блока); прогон в браузере лишь показывает, что ушло бы в чаты
+const deliverTelegram: NodeExecutor = async (node, inputs) => {
+  const config = normalizeTelegramConfig(node.data.telegram);
+  const channel = node.data.description ?? "telegram";
+  if (config.chats.length === 0) throw new Error("В Telegram-блоке не указан ни один чат");
+  if (isMuted(config)) {
+    return { output: { kind: "delivery", channel, messages: [], muted: true } };
+  }
+
+  const messages = renderDeliveryMessages(
+    inputs,
+    (promptContext) => renderTelegramMessage(config, promptContext),
+    asIs
+  );
+
+  return { output: { kind: "delivery", channel, messages, preview: true } };
+};
+
+// Каждое сообщение уходит в вебхук отдельным запросом в формате провайдера, через сервер
+const deliverMessenger: NodeExecutor = async (node, inputs, context) => {
+  const config = normalizeMessengerConfig(node.data.messenger);
+  const configError = validateMessengerConfig(config);
+  if (configError) throw new Error(configError);
+
+  const seen = seenChecks(node, context);
+  const fresh = pickNewInputs(inputs, seen);
+  const messages = renderDeliveryMessages(
+    fresh,
+    (promptContext) => renderMessengerMessage(config, promptContext),
+    asIs
+  );
+
+  for (const message of messages) {
+    await context.sendMessenger(config.url, buildMessengerPayload(config, message), context.signal);
+  }
+  markSeen(fresh, seen);
+
+  return { output: { kind: "delivery", channel: MESSENGER_PROVIDERS[config.provider].label, messages } };
+};
+
+// Одно письмо на каждую входящую проверку или сообщение, всем получателям сразу
+const deliverEmail: NodeExecutor = async (node, inputs, context) => {
+  const config = normalizeEmailConfig(node.data.email);
+  const configError = validateEmailConfig(config);
+  if (configError) throw new Error(configError);
+
+  const seen = seenChecks(node, context);
+  const fresh = pickNewInputs(inputs, seen);
+  const emails = renderDeliveryMessages(
+    fresh,
+    (promptContext) => renderEmail(config, promptContext),
+    (message) => renderEmail(config, { input: message })
+  );
+
+  for (const email of emails) {
+    await context.sendEmail(config, email, context.signal);
+  }
+  markSeen(fresh, seen);
+
+  return {
+    output: {
+      kind: "delivery",
+      channel: config.to.join(", "),
+      messages: emails.map((email) => `${email.subject}\n\n${email.body}`),
+    },
+  };
+};
+
+// Один запрос на каждую входящую проверку или сообщение
+const deliverOutboundWebhook: NodeExecutor = async (node, inputs, context) => {
+  const config = normalizeWebhookConfig(node.data.webhook);
+  const configError = validateWebhookConfig(config);
+  if (configError) throw new Error(configError);
+
+  const seen = seenChecks(node, context);
+  const fresh = pickNewInputs(inputs, seen);
+  const bodies = renderDeliveryMessages(
+    fresh,
+    (promptContext) => renderWebhookBody(config, promptContext),
+    (message) => renderWebhookBody(config, { input: message })
+  );
+
+  for (const body of bodies) {
+    await context.deliverWebhook(node.id, config, body, context.signal);
+  }
+  markSeen(fresh, seen);
+
+  return {
+    output: { kind: "delivery", channel: config.url, messages: bodies.map((body) => JSON.stringify(body)) },
+  };
+};
+
+// Каждая проверка проходит правило отдельно и уходит в «да» или «нет»;
+// в output — сводка и проверки, для которых правило выполнено
+const checkCondition: NodeExecutor = async (node, inputs, context) => {
+  const rule = normalizeConditionRule(node.data.condition);
+  const historySize = requiredHistory(rule);
+  const matched: CheckPayload[] = [];
+  const unmatched: CheckPayload[] = [];
+
+  for (const check of collectChecks(inputs)) {
+    const history =
+      historySize > 1 && check.site.url
+        ? await context.fetchRecentLogs(check.site.url, historySize)
+        : check.log
+          ? [check.log]
+          : [];
+    (evaluateCondition(rule, history) ? matched : unmatched).push(check);
+  }
+
+  return {
+    output: {
+      kind: "message",
+      text: `Если ${describeCondition(rule)}: да — ${matched.length}, нет — ${unmatched.length}`,
+      checks: matched,
+    },
+    branches: { true: matched, false: unmatched },
+  };
+};
+
+// Правила шумоподавления помнят прошлые прогоны; смена вида правила начинает память заново
+const controlNoise: NodeExecutor = async (node, inputs, context) => {
+  const rule = normalizeNoiseRule(node.data.noise);
+  const memoryKey = `${node.id}:${rule.kind}`;
+  const state =
+    (context.memory.get(memoryKey) as NoiseState<CheckPayload> | undefined) ?? createNoiseState<CheckPayload>();
+  context.memory.set(memoryKey, state);
+
+  const checks = collectChecks(inputs);
+  const { passed, digest } = applyNoiseRule(rule, checks, state);
+
+  if (digest && digest.length > 0) {
+    const summary: MessagePayload = {
+      kind: "message",
+      text: [`Сводка по сайтам: ${digest.length}`, ...digest.map(formatCheckSummary)].join("\n"),
+      checks: digest,
+    };
+    return { output: summary, forward: [summary] };
+  }
+
+  return {
+    output: { kind: "message", text: `Пропущено дальше: ${passed.length} из ${checks.length}`, checks: passed },
+    forward: passed,
+  };
+};
+
+export const nodeExecutors: Record<BlockVariant, NodeExecutor> = {
+  website: checkSite,
+  tcp: checkSite,
+  dns: checkSite,
+  ping: checkSite,
+  tls: checkSite,
+  heartbeat: checkHeartbeat,
+  llm: generateMessage,
+  messenger: deliverMessenger,
+  telegram: deliverTelegram,
+  email: deliverEmail,
+  webhook: deliverOutboundWebhook,
+  condition: checkCondition,
+  noise: controlNoise,
+};
+
+const nowIso = () => new Date().toISOString();
+
+// У ветвящегося узла связь с ручки «да»/«нет» получает только свою ветку
+const payloadsForEdge = (result: NodeRunResult, edge: Edge): FlowPayload[] => {
+  if (result.branches && isConditionBranch(edge.sourceHandle)) return result.branches[edge.sourceHandle] ?? [];
+  if (result.forward) return result.forward;
+  return result.output ? [result.output] : [];
+};
+
+// Узлы обходятся в топологическом порядке от источников; узел запускается,
+// если хотя бы один входящий узел передал ему данные. Узлы, до которых обход
+// не дошёл из-за цикла, получают ошибку.
+export async function executeFlow(
+  nodes: FlowNode[],
+  edges: Edge[],
+  options: ExecuteFlowOptions
+): Promise<Record<string, NodeRunResult>> {
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+  const outgoing = new Map<string, string[]>();
+  const outgoingEdges = new Map<string, Edge[]>();
+  edges.forEach((edge) => {
+    if (!nodeMap.has(edge.source) || !nodeMap.has(edge.target)) return;
+    outgoing.set(edge.source, (outgoing.get(edge.source) ?? []).concat(edge.target));
+    outgoingEdges.set(edge.source, (outgoingEdges.get(edge.source) ?? []).concat(edge));
+  });
+
+  const reachable = new Set<string>();
+  const stack = nodes
+    .filter((node) => SOURCE_VARIANTS.includes(node.type as BlockVariant))
+    .map((node) => node.id);
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    stack.push(...(outgoing.get(id) ?? []));
+  }
+
+  const inDegree = new Map<string, number>();
+  reachable.forEach((id) => inDegree.set(id, 0));
+  reachable.forEach((id) => {
+    (outgoing.get(id) ?? []).forEach((target) => {
+      inDegree.set(target, (inDegree.get(target) ?? 0) + 1);
+    });
+  });
+
+  const inputs = new Map<string, NodeInput[]>();
+  const results: Record<string, NodeRunResult> = {};
+  const queue = Array.from(reachable).filter((id) => inDegree.get(id) === 0);
+
+  while (queue.length > 0) {
+    if (options.signal.aborted) throw new FlowAbortedError();
+
+    const id = queue.shift()!;
+    const node = nodeMap.get(id)!;
+    const nodeInputs = inputs.get(id) ?? [];
+    const isSource = SOURCE_VARIANTS.includes(node.type as BlockVariant);
+
+    if (isSource || nodeInputs.length > 0) {
+      const result = await runNode(node, nodeInputs, options);
+      results[id] = result;
+
+      (outgoingEdges.get(id) ?? []).forEach((edge) => {
+        const payloads = payloadsForEdge(result, edge);
+        if (payloads.length === 0) return;
+        inputs.set(
+          edge.target,
+          (inputs.get(edge.target) ?? []).concat(payloads.map((payload) => ({ sourceId: id, payload })))
+        );
+      });
+    }
+
+    (outgoing.get(id) ?? []).forEach((target) => {
+      const remaining = (inDegree.get(target) ?? 0) - 1;
+      inDegree.set(target, remaining);
+      if (remaining === 0) queue.push(target);
+    });
+  }
+
+  inDegree.forEach((degree, id) => {
+    if (degree <= 0) return;
+    const timestamp = nowIso();
+    const result: NodeRunResult = {
+      status: "error",
+      error: "Узел недостижим: в графе есть цикл",
+      startedAt: timestamp,
+      finishedAt: timestamp,
+    };
+    results[id] = result;
+    options.onNodeFinish?.(id, result);
+  });
+
+  return results;
+}
+
+async function runNode(
+  node: FlowNode,
+  inputs: NodeInput[],
+  options: ExecuteFlowOptions
+): Promise<NodeRunResult> {
+  const startedAt = nowIso();
+  options.onNodeStart?.(node.id);
+
+  let result: NodeRunResult;
+  const executor = nodeExecutors[node.type as BlockVariant];
+
+  try {
+    if (!executor) {
+      throw new Error(`Нет исполнителя для узла типа «${node.type}»`);
+    }
+    const execution = await executor(node, inputs, options);
+    result = {
+      status: execution.failed ? "error" : "success",
+      output: execution.output,
+      branches: execution.branches,
+      forward: execution.forward,
+      startedAt,
+      finishedAt: nowIso(),
+    };
+  } catch (err) {
+    if (options.signal.aborted) throw new FlowAbortedError();
+    result = {
+      status: "error",
+      error: err instanceof Error ? err.message : String(err),
+      startedAt,
+      finishedAt: nowIso(),
+    };
+  }
+
+  options.onNodeFinish?.(node.id, result);
+  return result;
+}
@@ -0,0 +1,109 @@
+import type { Edge, XYPosition } from "reactflow";
+
+import { NODE_PORTS } from "./library";
+import { isSwimlane, type BlockVariant, type FlowNode } from "./nodes/types";
+
+export const SNAP_GRID: [number, number] = [24, 24];
+
+const COLUMN_GAP = 120;
+const ROW_GAP = 48;
+// размер блока до первой отрисовки, пока React Flow его не измерил
+const FALLBACK_SIZE = { width: 220, height: 170 };
+
+const snap = (value: number, step: number) => Math.round(value / step) * step;
+
+// Источники — первый столбец, доставка — последний, логика — между ними по длине
+// самого длинного пути от источников. Связи цикла при подсчёте не учитываются.
+const assignLayers = (nodes: FlowNode[], edges: Edge[]) => {
+  const kindOf = (node: FlowNode) => {
+    const ports = NODE_PORTS[node.type as BlockVariant];
+    if (!ports?.input) return "source";
+    return ports.outputs.length === 0 ? "delivery" : "logic";
+  };
+
+  const incoming = new Map<string, string[]>();
+  edges.forEach((edge) => incoming.set(edge.target, (incoming.get(edge.target) ?? []).concat(edge.source)));
+
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const logicLayer = (id: string): number => {
+    const cached = layers.get(id);
+    if (cached !== undefined) return cached;
+    if (visiting.has(id)) return 0;
+
+    visiting.add(id);
+    const layer =
+      1 +
+      Math.max(
+        0,
+        ...(incoming.get(id) ?? [])
+          .map((sourceId) => nodeMap.get(sourceId))
+          .filter((source): source is FlowNode => source !== undefined && kindOf(source) === "logic")
+          .map((source) => logicLayer(source.id))
+      );
+    visiting.delete(id);
+    layers.set(id, layer);
+    return layer;
+  };
+
+  nodes.filter((node) => kindOf(node) === "source").forEach((node) => layers.set(node.id, 0));
+  nodes.filter((node) => kindOf(node) === "logic").forEach((node) => logicLayer(node.id));
+
+  const lastLayer = Math.max(0, ...layers.values()) + 1;
+  nodes.filter((node) => kindOf(node) === "delivery").forEach((node) => layers.set(node.id, lastLayer));
+
+  return { layers, incoming };
+};
+
+// Позиции слева направо; внутри столбца блоки идут в порядке средних позиций
+// своих входов, чтобы связи меньше пересекались. Группы и их блоки раскладывает
+// пользователь, их позиции не трогаем
+export function layoutFlow(allNodes: FlowNode[], edges: Edge[]): Map<string, XYPosition> {
+  const nodes = allNodes.filter((node) => !isSwimlane(node) && !node.parentNode);
+  const { layers, incoming } = assignLayers(nodes, edges);
+
+  const columns: FlowNode[][] = [];
+  nodes.forEach((node) => {
+    const layer = layers.get(node.id) ?? 0;
+    (columns[layer] ??= []).push(node);
+  });
+
+  const order = new Map<string, number>();
+  const sortedColumns = columns
+    .filter((column) => column !== undefined)
+    .map((column, index) => {
+      const rank = (node: FlowNode) => {
+        const ranks = (incoming.get(node.id) ?? []).flatMap((id) => (order.has(id) ? [order.get(id)!] : []));
+        return index === 0 || ranks.length === 0 ? null : ranks.reduce((sum, value) => sum + value, 0) / ranks.length;
+      };
+      const sorted = column
+        .map((node) => ({ node, rank: rank(node) }))
+        .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity) || a.node.position.y - b.node.position.y)
+        .map(({ node }) => node);
+      sorted.forEach((node, position) => order.set(node.id, position));
+      return sorted;
+    });
+
+  const sizeOf = (node: FlowNode) => ({
+    width: node.width ?? FALLBACK_SIZE.width,
+    height: node.height ?? FALLBACK_SIZE.height,
+  });
+  const columnHeight = (column: FlowNode[]) =>
+    column.reduce((sum, node) => sum + sizeOf(node).height, 0) + ROW_GAP * (column.length - 1);
+  const tallest = Math.max(0, ...sortedColumns.map(columnHeight));
+
+  const positions = new Map<string, XYPosition>();
+  let x = 0;
+  sortedColumns.forEach((column) => {
+    let y = (tallest - columnHeight(column)) / 2;
+    column.forEach((node) => {
+      positions.set(node.id, { x: snap(x, SNAP_GRID[0]), y: snap(y, SNAP_GRID[1]) });
+      y += sizeOf(node).height + ROW_GAP;
+    });
+    x += Math.max(...column.map((node) => sizeOf(node).width)) + COLUMN_GAP;
+  });
+
+  return positions;
+}
@@ -1,10 +1,28 @@
 
+import type { FlowPayload } from "./executor";
 import {
   DEFAULT_PING_INTERVAL,
+  MONITOR_VARIANTS,
   buildWebsiteMetadata,
   type BaseNodeData,
   type BlockVariant,
+  type ConditionBranch,
 } from "./nodes/types";
+import {
+  DEFAULT_PROBES,
+  buildDnsMetadata,
+  buildHeartbeatMetadata,
+  buildPingMetadata,
+  buildTcpMetadata,
+  buildTlsMetadata,
+} from "./nodes/monitors";
+import { CONDITION_BRANCHES, DEFAULT_CONDITION_RULES, buildConditionMetadata } from "./nodes/condition";
+import { DEFAULT_EMAIL_CONFIG, buildEmailMetadata } from "./nodes/email";
+import { DEFAULT_LLM_CONFIG, buildLlmMetadata } from "./nodes/llm";
+import { DEFAULT_MESSENGER_CONFIG, buildMessengerMetadata } from "./nodes/messenger";
+import { DEFAULT_NOISE_RULES, buildNoiseMetadata } from "./nodes/noise";
+import { DEFAULT_TELEGRAM_CONFIG, buildTelegramNodeMetadata } from "./nodes/telegram";
+import { DEFAULT_WEBHOOK_CONFIG, buildWebhookMetadata } from "./nodes/webhook";
 
 
 export type LibraryCategory = "Источники" | "Логика" | "Доставка";
@@ -16,6 +34,62 @@ export type LibraryNodeTemplate = {
   data: BaseNodeData;
 };
 
+// Что уходит по связям; совпадает с kind у данных исполнителя
+export type PayloadKind = FlowPayload["kind"];
+
+export type InputPortSchema = {
+  accepts: PayloadKind[];
+  // только прямые связи от этих блоков; reason объясняет почему
+  onlyFrom?: { variants: BlockVariant[]; reason: string };
+  max?: number;
+};
+
+export type OutputPortSchema = {
+  // id ручки; без него — обычные выходы по краям блока
+  handle?: ConditionBranch;
+  emits: PayloadKind[];
+  max?: number;
+};
+
+// null на входе — блок-источник, пустые outputs — конечный блок
+export type PortSchema = {
+  input: InputPortSchema | null;
+  outputs: OutputPortSchema[];
+};
+
+const MONITOR_PORTS: PortSchema = { input: null, outputs: [{ emits: ["check"] }] };
+
+const DELIVERY_PORTS: PortSchema = { input: { accepts: ["check", "message"] }, outputs: [] };
+
+export const NODE_PORTS: Record<BlockVariant, PortSchema> = {
+  website: MONITOR_PORTS,
+  tcp: MONITOR_PORTS,
+  dns: MONITOR_PORTS,
+  ping: MONITOR_PORTS,
+  tls: MONITOR_PORTS,
+  heartbeat: MONITOR_PORTS,
+  llm: { input: { accepts: ["check", "message"] }, outputs: [{ emits: ["message"] }] },
+  // правила работают с проверками сайтов, а не с готовым текстом
+  condition: {
+    input: { accepts: ["check"] },
+    outputs: CONDITION_BRANCHES.map((handle) => ({ handle, emits: ["check"] })),
+  },
+  noise: { input: { accepts: ["check"] }, outputs: [{ emits: ["check", "message"] }] },
+  messenger: DELIVERY_PORTS,
+  email: DELIVERY_PORTS,
+  webhook: DELIVERY_PORTS,
+  telegram: {
+    input: {
+      accepts: ["check"],
+      onlyFrom: {
+        variants: MONITOR_VARIANTS,
+        reason: "Telegram получает оповещения от сервера по привязке сайта — подключайте монитор напрямую",
+      },
+    },
+    outputs: [],
+  },
+};
+
 export const NODE_LIBRARY: LibraryNodeTemplate[] = [
   {
     templateId: "website-uptime",
@@ -36,6 +110,92 @@ export const NODE_LIBRARY: LibraryNodeTemplate[] = [
 
     },
   },
+  {
+    templateId: "tcp-port",
+    type: "tcp",
+    category: "Источники",
+    data: {
+      title: "TCP-порт",
+      emoji: "🔌",
+      description: "tcp://db.example.com:5432",
+      status: "idle",
+      ping_interval: DEFAULT_PING_INTERVAL,
+      probe: DEFAULT_PROBES.tcp,
+      metadata: buildTcpMetadata({
+        description: "tcp://db.example.com:5432",
+        ping_interval: DEFAULT_PING_INTERVAL,
+        probe: DEFAULT_PROBES.tcp,
+      }),
+    },
+  },
+  {
+    templateId: "dns-record",
+    type: "dns",
+    category: "Источники",
+    data: {
+      title: "DNS-запись",
+      emoji: "🧭",
+      description: "dns://example.com",
+      status: "idle",
+      ping_interval: DEFAULT_PING_INTERVAL,
+      probe: DEFAULT_PROBES.dns,
+      metadata: buildDnsMetadata({
+        description: "dns://example.com",
+        ping_interval: DEFAULT_PING_INTERVAL,
+        probe: DEFAULT_PROBES.dns,
+      }),
+    },
+  },
+  {
+    templateId: "ping-host",
+    type: "ping",
+    category: "Источники",
+    data: {
+      title: "Пинг хоста",
+      emoji: "📡",
+      description: "ping://example.com",
+      status: "idle",
+      ping_interval: DEFAULT_PING_INTERVAL,
+      probe: DEFAULT_PROBES.ping,
+      metadata: buildPingMetadata({
+        description: "ping://example.com",
+        ping_interval: DEFAULT_PING_INTERVAL,
+        probe: DEFAULT_PROBES.ping,
+      }),
+    },
+  },
+  {
+    templateId: "tls-certificate",
+    type: "tls",
+    category: "Источники",
+    data: {
+      title: "TLS-сертификат",
+      emoji: "🔒",
+      description: "tls://example.com:443",
+      status: "idle",
+      ping_interval: 3600,
+      probe: DEFAULT_PROBES.tls,
+      metadata: buildTlsMetadata({
+        description: "tls://example.com:443",
+        ping_interval: 3600,
+        probe: DEFAULT_PROBES.tls,
+      }),
+    },
+  },
+  {
+    // адрес не задаётся: токен push-адреса выдаётся при создании
+    templateId: "cron-heartbeat",
+    type: "heartbeat",
+    category: "Источники",
+    data: {
+      title: "Heartbeat задачи",
+      emoji: "💓",
+      status: "idle",
+      ping_interval: DEFAULT_PING_INTERVAL,
+      probe: DEFAULT_PROBES.heartbeat,
+      metadata: buildHeartbeatMetadata({ probe: DEFAULT_PROBES.heartbeat }),
+    },
+  },
   {
     templateId: "llm-autoreply",
     type: "llm",
@@ -45,25 +205,125 @@ export const NODE_LIBRARY: LibraryNodeTemplate[] = [
       emoji: "🤖",
       description: "Генерирует персональные ответы клиентам",
       status: "idle",
-      metadata: [
-        { label: "Темп", value: "0.5" },
-        { label: "Язык", value: "RU" },
-      ],
+      llm: DEFAULT_LLM_CONFIG,
+      metadata: buildLlmMetadata({ llm: DEFAULT_LLM_CONFIG }),
     },
   },
   {
-    templateId: "messenger-telegram",
+    templateId: "condition-red",
+    type: "condition",
+    category: "Логика",
+    data: {
+      title: "Сайт красный",
+      emoji: "🚦",
+      description: "Пропускает дальше только упавшие сайты",
+      status: "idle",
+      condition: DEFAULT_CONDITION_RULES.traffic_light,
+      metadata: buildConditionMetadata({ condition: DEFAULT_CONDITION_RULES.traffic_light }),
+    },
+  },
+  {
+    templateId: "condition-latency",
+    type: "condition",
+    category: "Логика",
+    data: {
+      title: "Медленный ответ",
+      emoji: "🐢",
+      description: "Задержка выше порога несколько проверок подряд",
+      status: "idle",
+      condition: DEFAULT_CONDITION_RULES.latency,
+      metadata: buildConditionMetadata({ condition: DEFAULT_CONDITION_RULES.latency }),
+    },
+  },
+  {
+    templateId: "condition-ssl",
+    type: "condition",
+    category: "Логика",
+    data: {
+      title: "SSL скоро истечёт",
+      emoji: "⏳",
+      description: "Сертификат истекает раньше заданного срока",
+      status: "idle",
+      condition: DEFAULT_CONDITION_RULES.ssl_days,
+      metadata: buildConditionMetadata({ condition: DEFAULT_CONDITION_RULES.ssl_days }),
+    },
+  },
+  {
+    templateId: "condition-http",
+    type: "condition",
+    category: "Логика",
+    data: {
+      title: "Ошибка HTTP",
+      emoji: "🚫",
+      description: "Код ответа вне диапазона 2xx",
+      status: "idle",
+      condition: DEFAULT_CONDITION_RULES.http_error,
+      metadata: buildConditionMetadata({ condition: DEFAULT_CONDITION_RULES.http_error }),
+    },
+  },
+  {
+    templateId: "noise-debounce",
+    type: "noise",
+    category: "Логика",
+    data: {
+      title: "Только после N падений",
+      emoji: "🧯",
+      description: "Не будит дежурного из-за одиночного сбоя",
+      status: "idle",
+      noise: DEFAULT_NOISE_RULES.debounce,
+      metadata: buildNoiseMetadata({ noise: DEFAULT_NOISE_RULES.debounce }),
+    },
+  },
+  {
+    templateId: "noise-throttle",
+    type: "noise",
+    category: "Логика",
+    data: {
+      title: "Не повторять",
+      emoji: "🔕",
+      description: "Глушит повторы одного и того же статуса",
+      status: "idle",
+      noise: DEFAULT_NOISE_RULES.throttle,
+      metadata: buildNoiseMetadata({ noise: DEFAULT_NOISE_RULES.throttle }),
+    },
+  },
+  {
+    templateId: "noise-recovery",
+    type: "noise",
+    category: "Логика",
+    data: {
+      title: "Восстановление",
+      emoji: "✅",
+      description: "Сообщает, когда упавший сайт снова зелёный",
+      status: "idle",
+      noise: DEFAULT_NOISE_RULES.recovery,
+      metadata: buildNoiseMetadata({ noise: DEFAULT_NOISE_RULES.recovery }),
+    },
+  },
+  {
+    templateId: "noise-digest",
+    type: "noise",
+    category: "Логика",
+    data: {
+      title: "Сводка",
+      emoji: "🗞",
+      description: "Собирает оповещения нескольких сайтов в одно",
+      status: "idle",
+      noise: DEFAULT_NOISE_RULES.digest,
+      metadata: buildNoiseMetadata({ noise: DEFAULT_NOISE_RULES.digest }),
+    },
+  },
+  {
+    templateId: "messenger-webhook",
     type: "messenger",
     category: "Доставка",
     data: {
-      title: "Telegram бот",
-      emoji: "📲",
-      description: "Отправляет уведомления в Telegram",
+      title: "Мессенджер",
+      emoji: "💬",
+      description: "Slack, Teams, Mattermost или Discord по вебхуку",
       status: "idle",
-      metadata: [
-        { label: "Канал", value: "@pingtower" },
-        { label: "Формат", value: "Markdown" },
-      ],
+      messenger: DEFAULT_MESSENGER_CONFIG,
+      metadata: buildMessengerMetadata({ messenger: DEFAULT_MESSENGER_CONFIG }),
     },
   },
   {
@@ -75,10 +335,34 @@ export const NODE_LIBRARY: LibraryNodeTemplate[] = [
       emoji: "🤖",
       description: "@T1_InTeam_bot",
       status: "idle",
-      metadata: [
-        { label: "Тег", value: "@T1_InTeam_bot" },
-        { label: "Статус", value: "Готов к приёму" },
-      ],
+      telegram: DEFAULT_TELEGRAM_CONFIG,
+      metadata: buildTelegramNodeMetadata({ description: "@T1_InTeam_bot", telegram: DEFAULT_TELEGRAM_CONFIG }),
+    },
+  },
+  {
+    templateId: "email-smtp",
+    type: "email",
+    category: "Доставка",
+    data: {
+      title: "Email",
+      emoji: "✉️",
+      description: "Письма дежурным через SMTP",
+      status: "idle",
+      email: DEFAULT_EMAIL_CONFIG,
+      metadata: buildEmailMetadata({ email: DEFAULT_EMAIL_CONFIG }),
+    },
+  },
+  {
+    templateId: "outbound-webhook",
+    type: "webhook",
+    category: "Доставка",
+    data: {
+      title: "Вебхук",
+      emoji: "🪝",
+      description: "Создаёт инцидент во внешней системе",
+      status: "idle",
+      webhook: DEFAULT_WEBHOOK_CONFIG,
+      metadata: buildWebhookMetadata({ webhook: DEFAULT_WEBHOOK_CONFIG }),
     },
   },
 ];
@@ -2,7 +2,10 @@ import { type CSSProperties } from "react";
 import clsx from "clsx";
 import { Handle, Position, type NodeProps } from "reactflow";
 
-import type { BaseNodeData, BlockVariant, NodeStatus } from "./types";
+import { NODE_PORTS } from "../library";
+import { CONDITION_BRANCH_LABELS } from "./condition";
+import { STATUS_STYLES } from "./status";
+import type { BaseNodeData, BlockVariant, ConditionBranch, NodeStatus } from "./types";
 
 const variantStyles: Record<
   BlockVariant,
@@ -19,6 +22,36 @@ const variantStyles: Record<
     accent: "bg-sky-500/10 text-sky-600 border-sky-200",
     size: { width: 220, height: 170, radius: "rounded-2xl" },
   },
+  tcp: {
+    border: "border-cyan-200",
+    glow: "shadow-[0_10px_30px_-15px_rgba(6,182,212,0.45)]",
+    accent: "bg-cyan-500/10 text-cyan-600 border-cyan-200",
+    size: { width: 220, height: 170, radius: "rounded-2xl" },
+  },
+  dns: {
+    border: "border-indigo-200",
+    glow: "shadow-[0_10px_30px_-15px_rgba(99,102,241,0.45)]",
+    accent: "bg-indigo-500/10 text-indigo-600 border-indigo-200",
+    size: { width: 220, height: 170, radius: "rounded-2xl" },
+  },
+  ping: {
+    border: "border-teal-200",
+    glow: "shadow-[0_10px_30px_-15px_rgba(20,184,166,0.45)]",
+    accent: "bg-teal-500/10 text-teal-600 border-teal-200",
+    size: { width: 220, height: 170, radius: "rounded-2xl" },
+  },
+  tls: {
+    border: "border-amber-200",
+    glow: "shadow-[0_10px_30px_-15px_rgba(245,158,11,0.45)]",
+    accent: "bg-amber-500/10 text-amber-600 border-amber-200",
+    size: { width: 220, height: 170, radius: "rounded-2xl" },
+  },
+  heartbeat: {
+    border: "border-rose-200",
+    glow: "shadow-[0_10px_30px_-15px_rgba(244,63,94,0.45)]",
+    accent: "bg-rose-500/10 text-rose-600 border-rose-200",
+    size: { width: 220, height: 170, radius: "rounded-2xl" },
+  },
   llm: {
     border: "border-violet-200",
     glow: "shadow-[0_10px_32px_-18px_rgba(139,92,246,0.55)]",
@@ -37,31 +70,29 @@ const variantStyles: Record<
     accent: "bg-emerald-500/10 text-emerald-600 border-emerald-200",
     size: { width: 210, height: 160, radius: "rounded-2xl" },
   },
-};
-
-const statusStyles: Record<
-  NodeStatus,
-  { label: string; className: string; dot: string }
-> = {
-  idle: {
-    label: "Ожидание",
-    className: "border-slate-200 bg-slate-50 text-slate-500",
-    dot: "bg-slate-400",
+  email: {
+    border: "border-emerald-200",
+    glow: "shadow-[0_10px_32px_-18px_rgba(16,185,129,0.55)]",
+    accent: "bg-emerald-500/10 text-emerald-600 border-emerald-200",
+    size: { width: 210, height: 160, radius: "rounded-2xl" },
   },
-  running: {
-    label: "Выполняется",
-    className: "border-amber-200 bg-amber-50 text-amber-600",
-    dot: "bg-amber-400",
+  webhook: {
+    border: "border-emerald-200",
+    glow: "shadow-[0_10px_32px_-18px_rgba(16,185,129,0.55)]",
+    accent: "bg-emerald-500/10 text-emerald-600 border-emerald-200",
+    size: { width: 210, height: 160, radius: "rounded-2xl" },
   },
-  success: {
-    label: "Готово",
-    className: "border-emerald-200 bg-emerald-50 text-emerald-600",
-    dot: "bg-emerald-500",
+  condition: {
+    border: "border-fuchsia-200",
+    glow: "shadow-[0_10px_32px_-18px_rgba(217,70,239,0.5)]",
+    accent: "bg-fuchsia-500/10 text-fuchsia-600 border-fuchsia-200",
+    size: { width: 210, height: 160, radius: "rounded-3xl" },
   },
-  error: {
-    label: "Ошибка",
-    className: "border-rose-200 bg-rose-50 text-rose-600",
-    dot: "bg-rose-400",
+  noise: {
+    border: "border-orange-200",
+    glow: "shadow-[0_10px_32px_-18px_rgba(249,115,22,0.5)]",
+    accent: "bg-orange-500/10 text-orange-600 border-orange-200",
+    size: { width: 210, height: 160, radius: "rounded-3xl" },
   },
 };
 
@@ -121,6 +152,29 @@ function Port({ position, type }: { position: Position; type: "source" | "target
   );
 }
 
+const branchColors: Record<ConditionBranch, string> = {
+  true: "bg-emerald-400 hover:bg-emerald-500",
+  false: "bg-rose-400 hover:bg-rose-500",
+};
+
+// Выход «да»/«нет» ветвящегося узла; id ручки совпадает с веткой
+function BranchPort({ branch, top }: { branch: ConditionBranch; top: string }) {
+  return (
+    <Handle
+      id={branch}
+      type="source"
+      position={Position.Right}
+      style={{ position: "absolute", right: 0, top, transform: "translate(50%, -50%)" }}
+      className={clsx(portClassName, branchColors[branch])}
+      isConnectable
+    >
+      <span className="pointer-events-none absolute right-5 top-1/2 -translate-y-1/2 text-[10px] font-semibold uppercase text-slate-400">
+        {CONDITION_BRANCH_LABELS[branch]}
+      </span>
+    </Handle>
+  );
+}
+
 interface BaseBlockProps extends NodeProps<BaseNodeData> {
   variant: BlockVariant;
 }
@@ -128,7 +182,9 @@ interface BaseBlockProps extends NodeProps<BaseNodeData> {
 export default function BaseBlock({ variant, data, selected }: BaseBlockProps) {
   const config = variantStyles[variant];
   const status: NodeStatus = (data?.status as NodeStatus) ?? "idle";
-  const statusConfig = statusStyles[status] ?? statusStyles.idle;
+  const statusConfig = STATUS_STYLES[status] ?? STATUS_STYLES.idle;
+  const ports = NODE_PORTS[variant];
+  const branches = ports.outputs.flatMap((port) => (port.handle ? [port.handle] : []));
 
   return (
     <div
@@ -194,15 +250,27 @@ export default function BaseBlock({ variant, data, selected }: BaseBlockProps) {
 
       <div className="relative flex-1" />
 
-      {/* Ports */}
-      <Port type="target" position={Position.Top} />
-      <Port type="source" position={Position.Top} />
-      <Port type="target" position={Position.Bottom} />
-      <Port type="source" position={Position.Bottom} />
-      <Port type="target" position={Position.Left} />
-      <Port type="source" position={Position.Left} />
-      <Port type="target" position={Position.Right} />
-      <Port type="source" position={Position.Right} />
+      {/* Ports: по схеме блока — у источников нет входов, у доставки нет выходов */}
+      {ports.input && (
+        <>
+          <Port type="target" position={Position.Top} />
+          <Port type="target" position={Position.Bottom} />
+          <Port type="target" position={Position.Left} />
+        </>
+      )}
+      {branches.length > 0
+        ? branches.map((branch, index) => (
+            <BranchPort key={branch} branch={branch} top={`${35 + index * 40}%`} />
+          ))
+        : ports.outputs.length > 0 && (
+            <>
+              <Port type="source" position={Position.Top} />
+              <Port type="source" position={Position.Bottom} />
+              <Port type="source" position={Position.Left} />
+            </>
+          )}
+      {ports.input && branches.length === 0 && <Port type="target" position={Position.Right} />}
+      {ports.outputs.length > 0 && branches.length === 0 && <Port type="source" position={Position.Right} />}
     </div>
   );
 }
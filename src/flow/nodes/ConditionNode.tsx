@@ -0,0 +1,10 @@
+import type { NodeProps } from "reactflow";
+
+import BaseBlock from "./BaseBlock";
+import { buildConditionMetadata } from "./condition";
+import type { BaseNodeData } from "./types";
+
+export default function ConditionNode(props: NodeProps<BaseNodeData>) {
+  const { data } = props;
+  return <BaseBlock {...props} variant="condition" data={{ ...data, metadata: buildConditionMetadata(data) }} />;
+}
@@ -0,0 +1,18 @@
+import type { NodeProps } from "reactflow";
+import BaseBlock from "./BaseBlock";
+import SiteNodeToolbar from "./SiteNodeToolbar";
+
+import { buildDnsMetadata } from "./monitors";
+import type { BaseNodeData } from "./types";
+
+export default function DnsNode(props: NodeProps<BaseNodeData>) {
+  const { data, id, selected } = props;
+  const metadata = data.metadata ?? buildDnsMetadata(data);
+
+  return (
+    <>
+      <SiteNodeToolbar id={id} selected={selected} />
+      <BaseBlock {...props} variant="dns" data={{ ...data, metadata }} />
+    </>
+  );
+}
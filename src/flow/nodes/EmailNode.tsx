@@ -0,0 +1,10 @@
+import type { NodeProps } from "reactflow";
+
+import BaseBlock from "./BaseBlock";
+import { buildEmailMetadata } from "./email";
+import type { BaseNodeData } from "./types";
+
+export default function EmailNode(props: NodeProps<BaseNodeData>) {
+  const { data } = props;
+  return <BaseBlock {...props} variant="email" data={{ ...data, metadata: buildEmailMetadata(data) }} />;
+}
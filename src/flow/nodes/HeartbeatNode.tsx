@@ -0,0 +1,18 @@
+import type { NodeProps } from "reactflow";
+import BaseBlock from "./BaseBlock";
+import SiteNodeToolbar from "./SiteNodeToolbar";
+
+import { buildHeartbeatMetadata } from "./monitors";
+import type { BaseNodeData } from "./types";
+
+export default function HeartbeatNode(props: NodeProps<BaseNodeData>) {
+  const { data, id, selected } = props;
+  const metadata = data.metadata ?? buildHeartbeatMetadata(data);
+
+  return (
+    <>
+      <SiteNodeToolbar id={id} selected={selected} />
+      <BaseBlock {...props} variant="heartbeat" data={{ ...data, metadata }} />
+    </>
+  );
+}
@@ -1,8 +1,11 @@
 import type { NodeProps } from "reactflow";
 
 import BaseBlock from "./BaseBlock";
+import { buildLlmMetadata } from "./llm";
 import type { BaseNodeData } from "./types";
 
+// Метаданные всегда из настроек: в старых сценариях сохранён статический текст шаблона
 export default function LLMNode(props: NodeProps<BaseNodeData>) {
-  return <BaseBlock {...props} variant="llm" />;
+  const { data } = props;
+  return <BaseBlock {...props} variant="llm" data={{ ...data, metadata: buildLlmMetadata(data) }} />;
 }
@@ -1,8 +1,10 @@
 import type { NodeProps } from "reactflow";
 
 import BaseBlock from "./BaseBlock";
+import { buildMessengerMetadata } from "./messenger";
 import type { BaseNodeData } from "./types";
 
 export default function MessengerNode(props: NodeProps<BaseNodeData>) {
-  return <BaseBlock {...props} variant="messenger" />;
+  const { data } = props;
+  return <BaseBlock {...props} variant="messenger" data={{ ...data, metadata: buildMessengerMetadata(data) }} />;
 }
@@ -0,0 +1,10 @@
+import type { NodeProps } from "reactflow";
+
+import BaseBlock from "./BaseBlock";
+import { buildNoiseMetadata } from "./noise";
+import type { BaseNodeData } from "./types";
+
+export default function NoiseNode(props: NodeProps<BaseNodeData>) {
+  const { data } = props;
+  return <BaseBlock {...props} variant="noise" data={{ ...data, metadata: buildNoiseMetadata(data) }} />;
+}
@@ -0,0 +1,18 @@
+import type { NodeProps } from "reactflow";
+import BaseBlock from "./BaseBlock";
+import SiteNodeToolbar from "./SiteNodeToolbar";
+
+import { buildPingMetadata } from "./monitors";
+import type { BaseNodeData } from "./types";
+
+export default function PingNode(props: NodeProps<BaseNodeData>) {
+  const { data, id, selected } = props;
+  const metadata = data.metadata ?? buildPingMetadata(data);
+
+  return (
+    <>
+      <SiteNodeToolbar id={id} selected={selected} />
+      <BaseBlock {...props} variant="ping" data={{ ...data, metadata }} />
+    </>
+  );
+}
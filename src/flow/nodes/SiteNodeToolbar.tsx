@@ -0,0 +1,55 @@
+import { type MouseEventHandler } from "react";
+import { NodeToolbar, Position } from "reactflow";
+import { useFlowStore } from "../../state/store";
+import { isMonitorVariant } from "./types";
+
+// Панель «Изменить / Удалить» над блоками-мониторами
+export default function SiteNodeToolbar({ id, selected }: { id: string; selected: boolean }) {
+  const setSelectedNode = useFlowStore((state) => state.setSelectedNode);
+  const openSiteForm = useFlowStore((state) => state.openSiteForm);
+  const deleteSiteNode = useFlowStore((state) => state.deleteSiteNode);
+  const removeNode = useFlowStore((state) => state.removeNode);
+
+  const handleEditClick: MouseEventHandler<HTMLButtonElement> = (event) => {
+    event.stopPropagation();
+    setSelectedNode(id);
+    openSiteForm({ mode: "edit", nodeId: id });
+  };
+
+  const handleDeleteClick: MouseEventHandler<HTMLButtonElement> = (event) => {
+    event.stopPropagation();
+    setSelectedNode(undefined);
+
+    const state = useFlowStore.getState();
+    const current = state.nodes.find((node) => node.id === id);
+    if (!current || !isMonitorVariant(current.type)) return;
+
+    if (current.id.startsWith("temp-")) {
+      removeNode(current.id);
+      return;
+    }
+
+    void deleteSiteNode(current.id, Number(current.id));
+  };
+
+  return (
+    <NodeToolbar isVisible={selected} position={Position.Top}>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-600 shadow-sm transition hover:border-sky-300 hover:text-sky-600"
+          onClick={handleEditClick}
+        >
+          ✏️ Изменить
+        </button>
+        <button
+          type="button"
+          className="rounded-full border border-rose-200 bg-white px-3 py-1 text-xs font-semibold text-rose-600 shadow-sm transition hover:border-rose-300 hover:text-rose-600"
+          onClick={handleDeleteClick}
+        >
+          🗑 Удалить
+        </button>
+      </div>
+    </NodeToolbar>
+  );
+}
@@ -0,0 +1,79 @@
+import clsx from "clsx";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { NodeResizer, type NodeProps } from "reactflow";
+import { useShallow } from "zustand/react/shallow";
+
+import { useFlowStore } from "../../state/store";
+import { STATUS_STYLES } from "./status";
+import { MIN_SWIMLANE_SIZE, normalizeSwimlane, rollupStatus } from "./swimlane";
+import type { BaseNodeData, NodeStatus } from "./types";
+
+// Рамка группы: заголовок со сводным статусом блоков, тело — область, куда их перетаскивают
+export default function SwimlaneNode({ id, data, selected }: NodeProps<BaseNodeData>) {
+  const config = normalizeSwimlane(data.swimlane);
+  const statuses = useFlowStore(
+    useShallow((state) =>
+      state.nodes
+        .filter((node) => node.parentNode === id)
+        .map((node): NodeStatus => node.data.status ?? "idle")
+    )
+  );
+  const takeSnapshot = useFlowStore((s) => s.takeSnapshot);
+  const updateSwimlane = useFlowStore((s) => s.updateSwimlane);
+
+  const rollup = rollupStatus(statuses);
+  const statusConfig = STATUS_STYLES[rollup.status];
+
+  const toggleCollapsed = () => {
+    takeSnapshot();
+    updateSwimlane(id, { collapsed: !config.collapsed });
+  };
+
+  return (
+    <>
+      <NodeResizer
+        isVisible={selected && !config.collapsed}
+        minWidth={MIN_SWIMLANE_SIZE.width}
+        minHeight={MIN_SWIMLANE_SIZE.height}
+        color="#94a3b8"
+        onResizeStart={() => takeSnapshot()}
+        onResizeEnd={(_, { width, height }) => updateSwimlane(id, { width, height })}
+      />
+      <div
+        className={clsx(
+          "flex h-full w-full flex-col rounded-3xl border-2 border-dashed transition-colors",
+          config.collapsed ? "border-slate-300 bg-white/90" : "border-slate-300/80 bg-slate-200/25",
+          selected && "border-slate-400"
+        )}
+      >
+        <div className="flex items-center gap-2 px-4 py-3">
+          <button
+            type="button"
+            onClick={toggleCollapsed}
+            className="nodrag rounded-lg p-1 text-slate-400 transition hover:bg-slate-100 hover:text-slate-600"
+            title={config.collapsed ? "Развернуть группу" : "Свернуть группу"}
+          >
+            {config.collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+          <span className="text-lg">{data.emoji ?? "🗂"}</span>
+          <div className="min-w-0 flex-1">
+            <div className="truncate text-sm font-semibold text-slate-700">{data.title || "Группа"}</div>
+            <div className="text-[11px] text-slate-400">
+              Блоков: {statuses.length}
+              {rollup.counts.error > 0 && <span className="text-rose-500"> · ошибок {rollup.counts.error}</span>}
+            </div>
+          </div>
+          <div
+            className={clsx(
+              "flex items-center gap-2 rounded-full border px-3 py-1 text-[10px] font-semibold uppercase",
+              statusConfig.className
+            )}
+          >
+            <span className={clsx("h-1.5 w-1.5 rounded-full", statusConfig.dot)} />
+            {statusConfig.label}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,18 @@
+import type { NodeProps } from "reactflow";
+import BaseBlock from "./BaseBlock";
+import SiteNodeToolbar from "./SiteNodeToolbar";
+
+import { buildTcpMetadata } from "./monitors";
+import type { BaseNodeData } from "./types";
+
+export default function TcpNode(props: NodeProps<BaseNodeData>) {
+  const { data, id, selected } = props;
+  const metadata = data.metadata ?? buildTcpMetadata(data);
+
+  return (
+    <>
+      <SiteNodeToolbar id={id} selected={selected} />
+      <BaseBlock {...props} variant="tcp" data={{ ...data, metadata }} />
+    </>
+  );
+}
@@ -1,8 +1,10 @@
 import type { NodeProps } from "reactflow";
 
 import BaseBlock from "./BaseBlock";
+import { buildTelegramNodeMetadata } from "./telegram";
 import type { BaseNodeData } from "./types";
 
 export default function TelegramNode(props: NodeProps<BaseNodeData>) {
-  return <BaseBlock {...props} variant="telegram" />;
+  const { data } = props;
+  return <BaseBlock {...props} variant="telegram" data={{ ...data, metadata: buildTelegramNodeMetadata(data) }} />;
 }
@@ -0,0 +1,18 @@
+import type { NodeProps } from "reactflow";
+import BaseBlock from "./BaseBlock";
+import SiteNodeToolbar from "./SiteNodeToolbar";
+
+import { buildTlsMetadata } from "./monitors";
+import type { BaseNodeData } from "./types";
+
+export default function TlsNode(props: NodeProps<BaseNodeData>) {
+  const { data, id, selected } = props;
+  const metadata = data.metadata ?? buildTlsMetadata(data);
+
+  return (
+    <>
+      <SiteNodeToolbar id={id} selected={selected} />
+      <BaseBlock {...props} variant="tls" data={{ ...data, metadata }} />
+    </>
+  );
+}
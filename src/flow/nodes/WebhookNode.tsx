@@ -0,0 +1,10 @@
+import type { NodeProps } from "reactflow";
+
+import BaseBlock from "./BaseBlock";
+import { buildWebhookMetadata } from "./webhook";
+import type { BaseNodeData } from "./types";
+
+export default function WebhookNode(props: NodeProps<BaseNodeData>) {
+  const { data } = props;
+  return <BaseBlock {...props} variant="webhook" data={{ ...data, metadata: buildWebhookMetadata(data) }} />;
+}
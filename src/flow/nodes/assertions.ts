@@ -0,0 +1,89 @@
+import { nanoid } from "nanoid";
+
+import { isRecord } from "./normalize";
+import type { AssertionKind, AssertionOperator, BaseNodeData, CheckAssertion } from "./types";
+
+export const ASSERTION_KIND_LABELS: Record<AssertionKind, string> = {
+  contains: "Тело содержит",
+  not_contains: "Тело не содержит",
+  jsonpath: "JSONPath",
+};
+
+export const ASSERTION_OPERATORS: AssertionOperator[] = ["==", "!=", ">", ">=", "<", "<=", "exists", "contains"];
+
+// операторы, которым не нужно значение для сравнения
+const UNARY_OPERATORS: AssertionOperator[] = ["exists"];
+
+// Подмножество JSONPath, которое понимает сервер: $.a.b, $['key'], $.list[0], $.list[*]
+const JSON_PATH_PATTERN = /^\$(?:\.[A-Za-z_$][\w$-]*|\[\d+\]|\[\*\]|\['[^']+'\]|\["[^"]+"\])*$/;
+
+export function isValidJsonPath(path: string): boolean {
+  return JSON_PATH_PATTERN.test(path.trim());
+}
+
+export function needsAssertionValue(assertion: Pick<CheckAssertion, "kind" | "operator">): boolean {
+  return assertion.kind !== "jsonpath" || !UNARY_OPERATORS.includes(assertion.operator);
+}
+
+export function createAssertion(kind: AssertionKind = "contains"): CheckAssertion {
+  return { id: nanoid(8), kind, path: kind === "jsonpath" ? "$." : "", operator: "==", value: "" };
+}
+
+export type AssertionError = { field: "path" | "value"; message: string };
+
+// Возвращает ошибку с полем, к которому она относится, или undefined, если утверждение корректно
+export function validateAssertion(assertion: CheckAssertion): AssertionError | undefined {
+  if (assertion.kind === "jsonpath" && !isValidJsonPath(assertion.path)) {
+    return { field: "path", message: "Путь должен начинаться с $, например $.status" };
+  }
+  if (needsAssertionValue(assertion) && !assertion.value.trim()) {
+    return { field: "value", message: "Укажите значение" };
+  }
+  if (assertion.kind === "jsonpath" && [">", ">=", "<", "<="].includes(assertion.operator)) {
+    if (!Number.isFinite(Number(assertion.value))) return { field: "value", message: "Для сравнения нужно число" };
+  }
+  return undefined;
+}
+
+export function describeAssertion(assertion: CheckAssertion): string {
+  if (assertion.kind !== "jsonpath") {
+    return `${ASSERTION_KIND_LABELS[assertion.kind]} «${assertion.value}»`;
+  }
+  return needsAssertionValue(assertion)
+    ? `${assertion.path} ${assertion.operator} ${assertion.value}`
+    : `${assertion.path} ${assertion.operator}`;
+}
+
+export function readAssertions(com: BaseNodeData["com"]): CheckAssertion[] {
+  if (!isRecord(com) || !Array.isArray(com.assertions)) return [];
+
+  return com.assertions.flatMap((raw): CheckAssertion[] => {
+    if (!isRecord(raw) || typeof raw.id !== "string") return [];
+    const kind = (Object.keys(ASSERTION_KIND_LABELS) as AssertionKind[]).find((candidate) => candidate === raw.kind);
+    if (!kind) return [];
+    const operator = ASSERTION_OPERATORS.find((candidate) => candidate === raw.operator) ?? "==";
+    return [
+      {
+        id: raw.id,
+        kind,
+        path: typeof raw.path === "string" ? raw.path : "",
+        operator,
+        value: typeof raw.value === "string" ? raw.value : String(raw.value ?? ""),
+      },
+    ];
+  });
+}
+
+// Остальные ключи com (например, tg) сохраняются как есть
+export function withAssertions(
+  com: BaseNodeData["com"],
+  assertions: CheckAssertion[]
+): Record<string, unknown> {
+  const next: Record<string, unknown> = isRecord(com) ? { ...com } : {};
+  if (assertions.length > 0) {
+    next.assertions = assertions;
+  } else {
+    delete next.assertions;
+  }
+  return next;
+}
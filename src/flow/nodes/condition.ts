@@ -0,0 +1,116 @@
+import type { LogRecord, TrafficLight } from "../../utils/stats";
+import { clampInteger, isRecord } from "./normalize";
+import type { BaseNodeData, ConditionBranch, ConditionRule, NodeMetadataEntry } from "./types";
+
+export const CONDITION_BRANCHES: ConditionBranch[] = ["true", "false"];
+
+export const CONDITION_BRANCH_LABELS: Record<ConditionBranch, string> = {
+  true: "да",
+  false: "нет",
+};
+
+export function isConditionBranch(handle: string | null | undefined): handle is ConditionBranch {
+  return CONDITION_BRANCHES.some((branch) => branch === handle);
+}
+
+export const CONDITION_KINDS: Record<ConditionRule["kind"], string> = {
+  traffic_light: "Статус сайта",
+  latency: "Задержка выше порога",
+  ssl_days: "SSL истекает",
+  http_error: "HTTP-код не 2xx",
+};
+
+export const TRAFFIC_LIGHT_LABELS: Record<TrafficLight, string> = {
+  green: "🟢 зелёный",
+  orange: "🟠 оранжевый",
+  red: "🔴 красный",
+};
+
+export const MIN_LATENCY_THRESHOLD_MS = 1;
+export const MAX_LATENCY_THRESHOLD_MS = 120_000;
+export const MAX_CONSECUTIVE_CHECKS = 20;
+export const MAX_SSL_DAYS = 365;
+
+// Правило по умолчанию для каждого вида — при переключении вида в инспекторе
+export const DEFAULT_CONDITION_RULES: { [Kind in ConditionRule["kind"]]: Extract<ConditionRule, { kind: Kind }> } = {
+  traffic_light: { kind: "traffic_light", value: "red" },
+  latency: { kind: "latency", threshold_ms: 1000, consecutive: 3 },
+  ssl_days: { kind: "ssl_days", days: 14 },
+  http_error: { kind: "http_error" },
+};
+
+export function normalizeConditionRule(raw: unknown): ConditionRule {
+  if (!isRecord(raw)) return DEFAULT_CONDITION_RULES.traffic_light;
+
+  switch (raw.kind) {
+    case "traffic_light": {
+      const value = (Object.keys(TRAFFIC_LIGHT_LABELS) as TrafficLight[]).find((light) => light === raw.value);
+      return { kind: "traffic_light", value: value ?? "red" };
+    }
+    case "latency": {
+      const fallback = DEFAULT_CONDITION_RULES.latency;
+      return {
+        kind: "latency",
+        threshold_ms: clampInteger(raw.threshold_ms, MIN_LATENCY_THRESHOLD_MS, MAX_LATENCY_THRESHOLD_MS, fallback.threshold_ms),
+        consecutive: clampInteger(raw.consecutive, 1, MAX_CONSECUTIVE_CHECKS, fallback.consecutive),
+      };
+    }
+    case "ssl_days":
+      return { kind: "ssl_days", days: clampInteger(raw.days, 0, MAX_SSL_DAYS, DEFAULT_CONDITION_RULES.ssl_days.days) };
+    case "http_error":
+      return { kind: "http_error" };
+    default:
+      return DEFAULT_CONDITION_RULES.traffic_light;
+  }
+}
+
+// Сколько последних проверок нужно правилу; остальным хватает последней
+export function requiredHistory(rule: ConditionRule): number {
+  return rule.kind === "latency" ? rule.consecutive : 1;
+}
+
+// history — последние проверки сайта, новые первыми. Без данных правило не выполнено:
+// отсутствие проверок — повод для статуса сайта, а не для ложной тревоги
+export function evaluateCondition(rule: ConditionRule, history: LogRecord[]): boolean {
+  const [latest] = history;
+  if (!latest) return false;
+
+  switch (rule.kind) {
+    case "traffic_light":
+      return latest.traffic_light === rule.value;
+    case "latency":
+      return (
+        history.length >= rule.consecutive &&
+        history
+          .slice(0, rule.consecutive)
+          .every((log) => log.latency_ms !== null && log.latency_ms > rule.threshold_ms)
+      );
+    case "ssl_days":
+      return latest.ssl_days_left !== null && latest.ssl_days_left < rule.days;
+    case "http_error":
+      return latest.http_status === null || latest.http_status < 200 || latest.http_status >= 300;
+  }
+}
+
+export function describeCondition(rule: ConditionRule): string {
+  switch (rule.kind) {
+    case "traffic_light":
+      return `статус ${TRAFFIC_LIGHT_LABELS[rule.value]}`;
+    case "latency":
+      return rule.consecutive > 1
+        ? `задержка > ${rule.threshold_ms} мс, проверок подряд: ${rule.consecutive}`
+        : `задержка > ${rule.threshold_ms} мс`;
+    case "ssl_days":
+      return `SSL < ${rule.days} дн.`;
+    case "http_error":
+      return "HTTP-код не 2xx";
+  }
+}
+
+export function buildConditionMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const rule = normalizeConditionRule(data.condition);
+  return [
+    { label: "Вид", value: CONDITION_KINDS[rule.kind] },
+    { label: "Если", value: describeCondition(rule) },
+  ];
+}
@@ -0,0 +1,107 @@
+import { renderPromptTemplate, type PromptContext } from "./llm";
+import { isRecord } from "./normalize";
+import type { BaseNodeData, EmailConfig, EmailSecurity, NodeMetadataEntry } from "./types";
+
+export const EMAIL_SECURITY: Record<EmailSecurity, { label: string; port: number }> = {
+  none: { label: "Без шифрования", port: 25 },
+  starttls: { label: "STARTTLS", port: 587 },
+  tls: { label: "SSL/TLS", port: 465 },
+};
+
+// Mailpit / MailHog по умолчанию: принимают всё на 1025 и показывают письма в веб-интерфейсе
+export const LOCAL_SMTP_SINK: Pick<EmailConfig, "host" | "port" | "security" | "username" | "password"> = {
+  host: "localhost",
+  port: 1025,
+  security: "none",
+  username: "",
+  password: "",
+};
+
+export const DEFAULT_EMAIL_SUBJECT = "[PingTower] {{site.name}}: {{log.traffic_light}}";
+
+export const DEFAULT_EMAIL_BODY = "{{input}}\n\nАдрес: {{site.url}}\nВремя проверки: {{log.timestamp}}";
+
+export const DEFAULT_EMAIL_CONFIG: EmailConfig = {
+  host: "",
+  port: EMAIL_SECURITY.starttls.port,
+  security: "starttls",
+  username: "",
+  password: "",
+  from: "",
+  to: [],
+  subject: DEFAULT_EMAIL_SUBJECT,
+  body: DEFAULT_EMAIL_BODY,
+};
+
+export type EmailMessage = {
+  subject: string;
+  body: string;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const HOST_PATTERN = /^[a-z0-9.-]+$/i;
+
+// Получатели вводятся одной строкой через запятую, точку с запятой или перевод строки
+export function parseRecipients(text: string): string[] {
+  return text
+    .split(/[,;\s]+/)
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+export function normalizeEmailConfig(raw: unknown): EmailConfig {
+  if (!isRecord(raw)) return DEFAULT_EMAIL_CONFIG;
+
+  const security = (Object.keys(EMAIL_SECURITY) as EmailSecurity[]).find((key) => key === raw.security) ?? "starttls";
+  const port = Number(raw.port);
+  const asString = (value: unknown, fallback: string) => (typeof value === "string" ? value : fallback);
+
+  return {
+    host: asString(raw.host, "").trim(),
+    port: Number.isInteger(port) && port > 0 && port <= 65535 ? port : EMAIL_SECURITY[security].port,
+    security,
+    username: asString(raw.username, "").trim(),
+    password: asString(raw.password, ""),
+    from: asString(raw.from, "").trim(),
+    to: Array.isArray(raw.to)
+      ? raw.to.filter((address): address is string => typeof address === "string").map((address) => address.trim())
+      : [],
+    subject: asString(raw.subject, DEFAULT_EMAIL_SUBJECT),
+    body: asString(raw.body, DEFAULT_EMAIL_BODY),
+  };
+}
+
+export function findInvalidRecipients(config: EmailConfig): string[] {
+  return config.to.filter((address) => !EMAIL_PATTERN.test(address));
+}
+
+export function validateEmailConfig(config: EmailConfig): string | undefined {
+  if (!config.host) return "Укажите SMTP-сервер";
+  if (!HOST_PATTERN.test(config.host)) return "Некорректный адрес SMTP-сервера";
+  if (!Number.isInteger(config.port) || config.port < 1 || config.port > 65535) return "Порт — число от 1 до 65535";
+  if (!EMAIL_PATTERN.test(config.from)) return "Укажите адрес отправителя";
+  if (config.to.length === 0) return "Добавьте хотя бы одного получателя";
+
+  const invalid = findInvalidRecipients(config);
+  if (invalid.length > 0) return `Некорректные адреса: ${invalid.join(", ")}`;
+  if (!config.subject.trim()) return "Тема письма пуста";
+  if (config.password && !config.username) return "Пароль задан без логина";
+  return undefined;
+}
+
+export function renderEmail(config: EmailConfig, context: PromptContext): EmailMessage {
+  return {
+    // перевод строки в теме ломает заголовок письма
+    subject: renderPromptTemplate(config.subject, context).replace(/\s+/g, " ").trim(),
+    body: renderPromptTemplate(config.body, context).trim(),
+  };
+}
+
+export function buildEmailMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const config = normalizeEmailConfig(data.email);
+  return [
+    { label: "SMTP", value: config.host ? `${config.host}:${config.port}` : "не задан" },
+    { label: "Кому", value: config.to.length > 0 ? config.to.join(", ") : "никому" },
+    { label: "Защита", value: EMAIL_SECURITY[config.security].label },
+  ];
+}
@@ -0,0 +1,151 @@
+import type { LogRecord } from "../../utils/stats";
+import { clampNumber, isRecord } from "./normalize";
+import type { BaseNodeData, LlmConfig, LlmProvider, NodeMetadataEntry } from "./types";
+
+export const LLM_PROVIDERS: Record<LlmProvider, { label: string; endpoint: string }> = {
+  openai: { label: "OpenAI", endpoint: "https://api.openai.com/v1" },
+  custom: { label: "Свой сервер (OpenAI API)", endpoint: "http://localhost:11434/v1" },
+  local: { label: "Локальная заглушка", endpoint: "" },
+};
+
+export const MIN_LLM_TEMPERATURE = 0;
+export const MAX_LLM_TEMPERATURE = 2;
+export const MIN_LLM_MAX_TOKENS = 16;
+export const MAX_LLM_MAX_TOKENS = 8192;
+
+export const DEFAULT_LLM_PROMPT =
+  "Сайт {{site.name}} ({{site.url}}): статус {{log.traffic_light}}, HTTP {{log.http_status}}, " +
+  "задержка {{log.latency_ms}} мс.\nКоротко опиши состояние для дежурного инженера.";
+
+export const DEFAULT_LLM_CONFIG: LlmConfig = {
+  provider: "local",
+  endpoint: "",
+  model: "gpt-4o-mini",
+  api_key: "",
+  temperature: 0.5,
+  max_tokens: 256,
+  prompt: DEFAULT_LLM_PROMPT,
+};
+
+// Что можно подставить в шаблон промпта
+export type PromptContext = {
+  site?: { name: string; url: string };
+  log?: LogRecord | null;
+  // сводка входящих данных одной строкой — как её видят блоки доставки
+  input: string;
+};
+
+export const PROMPT_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: "site.name", description: "название сайта" },
+  { key: "site.url", description: "адрес сайта" },
+  { key: "log.traffic_light", description: "green / orange / red" },
+  { key: "log.http_status", description: "код ответа" },
+  { key: "log.latency_ms", description: "задержка, мс" },
+  { key: "log.ping_ms", description: "пинг, мс" },
+  { key: "log.ssl_days_left", description: "дней до истечения SSL" },
+  { key: "log.timestamp", description: "время проверки" },
+  { key: "input", description: "сводка входящих данных" },
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Приводит сохранённые настройки к полному виду; у старых блоков их нет вовсе
+export function normalizeLlmConfig(raw: unknown): LlmConfig {
+  if (!isRecord(raw)) return DEFAULT_LLM_CONFIG;
+
+  const provider = (Object.keys(LLM_PROVIDERS) as LlmProvider[]).find((key) => key === raw.provider) ?? "local";
+  const asString = (value: unknown, fallback: string) => (typeof value === "string" ? value : fallback);
+
+  return {
+    provider,
+    endpoint: asString(raw.endpoint, LLM_PROVIDERS[provider].endpoint).trim(),
+    model: asString(raw.model, DEFAULT_LLM_CONFIG.model).trim(),
+    api_key: asString(raw.api_key, ""),
+    temperature: clampNumber(raw.temperature, MIN_LLM_TEMPERATURE, MAX_LLM_TEMPERATURE, DEFAULT_LLM_CONFIG.temperature),
+    max_tokens: Math.round(
+      clampNumber(raw.max_tokens, MIN_LLM_MAX_TOKENS, MAX_LLM_MAX_TOKENS, DEFAULT_LLM_CONFIG.max_tokens)
+    ),
+    prompt: asString(raw.prompt, DEFAULT_LLM_PROMPT),
+  };
+}
+
+// Адрес, куда уйдёт запрос; у заглушки его нет
+export function resolveLlmEndpoint(config: LlmConfig): string {
+  if (config.provider === "local") return "";
+  return (config.endpoint || LLM_PROVIDERS[config.provider].endpoint).replace(/\/+$/, "");
+}
+
+const readPath = (context: PromptContext, path: string): unknown => {
+  if (path === "input") return context.input;
+  const [root, key, ...rest] = path.split(".");
+  if (rest.length > 0 || !key) return undefined;
+  if (root === "site") return context.site?.[key as keyof NonNullable<PromptContext["site"]>];
+  if (root === "log") return context.log?.[key as keyof LogRecord];
+  return undefined;
+};
+
+const KNOWN_PLACEHOLDERS = new Set(PROMPT_PLACEHOLDERS.map((placeholder) => placeholder.key));
+
+// Кусок отрендеренного промпта: обычный текст, подставленное значение или неизвестная подстановка
+export type PromptSegment = { kind: "text" | "value" | "unknown"; text: string; placeholder?: string };
+
+// Пустые значения подставляются как «—», чтобы модель видела, что данных нет
+export function renderPromptSegments(template: string, context: PromptContext): PromptSegment[] {
+  const segments: PromptSegment[] = [];
+  let cursor = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > cursor) segments.push({ kind: "text", text: template.slice(cursor, index) });
+
+    const path = match[1];
+    const value = readPath(context, path);
+    const text =
+      value === undefined || value === null || value === ""
+        ? "—"
+        : typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+    segments.push({ kind: KNOWN_PLACEHOLDERS.has(path) ? "value" : "unknown", text, placeholder: path });
+    cursor = index + match[0].length;
+  }
+
+  if (cursor < template.length) segments.push({ kind: "text", text: template.slice(cursor) });
+  return segments;
+}
+
+export function renderPromptTemplate(template: string, context: PromptContext): string {
+  return renderPromptSegments(template, context)
+    .map((segment) => segment.text)
+    .join("");
+}
+
+export function findUnknownPlaceholders(template: string): string[] {
+  const unknown = Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]).filter(
+    (key) => !KNOWN_PLACEHOLDERS.has(key)
+  );
+  return Array.from(new Set(unknown));
+}
+
+export function validateLlmConfig(config: LlmConfig): string | undefined {
+  if (!config.prompt.trim()) return "Шаблон промпта пуст";
+  if (config.provider === "local") return undefined;
+  if (!config.model) return "Укажите модель";
+
+  try {
+    const url = new URL(resolveLlmEndpoint(config));
+    if (url.protocol !== "http:" && url.protocol !== "https:") return "Адрес API должен начинаться с http:// или https://";
+  } catch {
+    return "Некорректный адрес API";
+  }
+  return undefined;
+}
+
+export function buildLlmMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const config = normalizeLlmConfig(data.llm);
+  return [
+    { label: "Провайдер", value: LLM_PROVIDERS[config.provider].label },
+    ...(config.provider === "local" ? [] : [{ label: "Модель", value: config.model || "—" }]),
+    { label: "Темп", value: String(config.temperature) },
+  ];
+}
@@ -0,0 +1,148 @@
+import { renderPromptTemplate, type PromptContext } from "./llm";
+import { isRecord } from "./normalize";
+import type {
+  BaseNodeData,
+  MessengerConfig,
+  MessengerFormat,
+  MessengerProvider,
+  NodeMetadataEntry,
+} from "./types";
+
+export const MESSENGER_PROVIDERS: Record<
+  MessengerProvider,
+  { label: string; placeholder: string; hosts: string[] }
+> = {
+  slack: { label: "Slack", placeholder: "https://hooks.slack.com/services/…", hosts: ["hooks.slack.com"] },
+  teams: {
+    label: "Microsoft Teams",
+    placeholder: "https://….webhook.office.com/webhookb2/…",
+    hosts: ["webhook.office.com", "logic.azure.com"],
+  },
+  // Mattermost обычно стоит на своём домене, поэтому адрес не проверяется
+  mattermost: { label: "Mattermost", placeholder: "https://chat.example.com/hooks/…", hosts: [] },
+  discord: {
+    label: "Discord",
+    placeholder: "https://discord.com/api/webhooks/…",
+    hosts: ["discord.com", "discordapp.com"],
+  },
+  generic: { label: "Свой вебхук", placeholder: "https://example.com/webhook", hosts: [] },
+};
+
+export const MESSENGER_FORMATS: Record<MessengerFormat, string> = {
+  markdown: "Markdown",
+  plain: "Обычный текст",
+};
+
+// Приёмник, который поднимает dev-сервер Vite (см. vite.config.ts): печатает запросы в консоль
+export const MOCK_WEBHOOK_PATH = "/__mock/webhook";
+
+export const DEFAULT_MESSENGER_TEMPLATE = "*{{site.name}}*: {{log.traffic_light}}\n{{input}}";
+
+export const DEFAULT_GENERIC_PAYLOAD = '{\n  "text": {{message}}\n}';
+
+export const DEFAULT_MESSENGER_CONFIG: MessengerConfig = {
+  provider: "slack",
+  url: "",
+  format: "markdown",
+  template: DEFAULT_MESSENGER_TEMPLATE,
+  payload: DEFAULT_GENERIC_PAYLOAD,
+};
+
+const MESSAGE_PLACEHOLDER_PATTERN = /\{\{\s*message\s*\}\}/g;
+
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+export function normalizeMessengerConfig(raw: unknown): MessengerConfig {
+  if (!isRecord(raw)) return DEFAULT_MESSENGER_CONFIG;
+
+  const provider =
+    (Object.keys(MESSENGER_PROVIDERS) as MessengerProvider[]).find((key) => key === raw.provider) ?? "generic";
+  const format = (Object.keys(MESSENGER_FORMATS) as MessengerFormat[]).find((key) => key === raw.format);
+
+  return {
+    provider,
+    url: typeof raw.url === "string" ? raw.url.trim() : "",
+    format: format ?? "markdown",
+    template: typeof raw.template === "string" ? raw.template : DEFAULT_MESSENGER_TEMPLATE,
+    payload: typeof raw.payload === "string" ? raw.payload : DEFAULT_GENERIC_PAYLOAD,
+  };
+}
+
+// В режиме «обычный текст» разметка экранируется, чтобы мессенджер показал символы как есть
+const escapeMarkdown = (text: string) => text.replace(/[\\`*_~]/g, (char) => `\\${char}`);
+
+export function renderMessengerMessage(config: MessengerConfig, context: PromptContext): string {
+  return renderPromptTemplate(config.template, context).trim();
+}
+
+// Тело запроса в формате провайдера; для generic — шаблон payload с текстом вместо {{message}}
+export function buildMessengerPayload(config: MessengerConfig, text: string): unknown {
+  const plain = config.format === "plain";
+  switch (config.provider) {
+    case "slack":
+      return { text, mrkdwn: !plain };
+    case "discord":
+      return { content: plain ? escapeMarkdown(text) : text };
+    case "teams":
+    case "mattermost":
+      return { text: plain ? escapeMarkdown(text) : text };
+    case "generic":
+      return JSON.parse(config.payload.replace(MESSAGE_PLACEHOLDER_PATTERN, () => JSON.stringify(text)));
+  }
+}
+
+export function validateMessengerConfig(config: MessengerConfig): string | undefined {
+  if (!config.url) return "Укажите адрес вебхука";
+
+  try {
+    const url = new URL(config.url);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return "Адрес должен начинаться с http:// или https://";
+  } catch {
+    return "Некорректный адрес вебхука";
+  }
+
+  if (!config.template.trim()) return "Шаблон сообщения пуст";
+
+  if (config.provider === "generic") {
+    if (!config.payload.match(MESSAGE_PLACEHOLDER_PATTERN)) return "В теле запроса нет {{message}}";
+    try {
+      buildMessengerPayload(config, "проверка");
+    } catch {
+      return "Тело запроса — некорректный JSON";
+    }
+  }
+  return undefined;
+}
+
+// Предупреждение, а не ошибка: у провайдера могут появиться новые домены
+export function messengerUrlWarning(config: MessengerConfig): string | undefined {
+  const { hosts, label } = MESSENGER_PROVIDERS[config.provider];
+  if (hosts.length === 0) return undefined;
+
+  try {
+    const { hostname } = new URL(config.url);
+    if (LOCAL_HOSTS.includes(hostname)) return undefined;
+    const matches = hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+    return matches ? undefined : `Адрес не похож на вебхук ${label}`;
+  } catch {
+    return undefined;
+  }
+}
+
+// Путь вебхука — секрет, в карточке показывается только хост
+const webhookHostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url || "не задан";
+  }
+};
+
+export function buildMessengerMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const config = normalizeMessengerConfig(data.messenger);
+  return [
+    { label: "Провайдер", value: MESSENGER_PROVIDERS[config.provider].label },
+    { label: "Вебхук", value: webhookHostOf(config.url) },
+    { label: "Формат", value: MESSENGER_FORMATS[config.format] },
+  ];
+}
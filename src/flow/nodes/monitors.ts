@@ -0,0 +1,287 @@
+import { customAlphabet } from "nanoid";
+
+import { heartbeatPushUrl } from "../../lib/api";
+import type { LogRecord } from "../../utils/stats";
+import { clampInteger, isRecord } from "./normalize";
+import { MAX_CHECK_TIMEOUT, MIN_CHECK_TIMEOUT } from "./siteCheck";
+import {
+  DEFAULT_PING_INTERVAL,
+  buildTelegramEntry,
+  buildWebsiteMetadata,
+  type BaseNodeData,
+  type DnsRecordType,
+  type MonitorProbe,
+  type MonitorVariant,
+  type NodeMetadataEntry,
+  type SiteKind,
+} from "./types";
+
+type ProbeVariant = Exclude<MonitorVariant, "website">;
+
+export const SITE_KIND_BY_VARIANT: Record<MonitorVariant, SiteKind> = {
+  website: "http",
+  tcp: "tcp",
+  dns: "dns",
+  ping: "ping",
+  tls: "tls",
+  heartbeat: "heartbeat",
+};
+
+// Сайты без kind заведены до появления других проверок — это HTTP
+export function variantForSiteKind(kind: unknown): MonitorVariant {
+  const entry = Object.entries(SITE_KIND_BY_VARIANT).find(([, candidate]) => candidate === kind);
+  return (entry?.[0] as MonitorVariant | undefined) ?? "website";
+}
+
+export const MONITOR_EMOJI: Record<MonitorVariant, string> = {
+  website: "🌐",
+  tcp: "🔌",
+  dns: "🧭",
+  ping: "📡",
+  tls: "🔒",
+  heartbeat: "💓",
+};
+
+export const MONITOR_TARGET_FIELDS: Record<MonitorVariant, { label: string; placeholder: string }> = {
+  website: { label: "URL", placeholder: "https://example.com" },
+  tcp: { label: "Хост и порт", placeholder: "db.example.com:5432" },
+  dns: { label: "Домен", placeholder: "example.com" },
+  ping: { label: "Хост", placeholder: "example.com" },
+  tls: { label: "Хост", placeholder: "example.com:443" },
+  heartbeat: { label: "Токен", placeholder: "" },
+};
+
+// Адрес не-HTTP проверки хранится в url сайта со своей схемой: tcp://db.example.com:5432
+const TARGET_SCHEMES: Record<ProbeVariant, string> = {
+  tcp: "tcp://",
+  dns: "dns://",
+  ping: "ping://",
+  tls: "tls://",
+  heartbeat: "heartbeat://",
+};
+
+export function stripTargetScheme(variant: MonitorVariant, url: string): string {
+  if (variant === "website") return url;
+  const scheme = TARGET_SCHEMES[variant];
+  return url.startsWith(scheme) ? url.slice(scheme.length) : url;
+}
+
+export function buildTargetUrl(variant: MonitorVariant, target: string): string {
+  const trimmed = target.trim();
+  if (variant === "website") return trimmed;
+  return `${TARGET_SCHEMES[variant]}${stripTargetScheme(variant, trimmed).toLowerCase()}`;
+}
+
+// Токен heartbeat — часть push-адреса, поэтому только строчные буквы и цифры
+const HEARTBEAT_TOKEN_LENGTH = 24;
+const HEARTBEAT_TOKEN_PATTERN = /^[a-z0-9]{16,64}$/;
+
+export const createHeartbeatToken = customAlphabet("0123456789abcdefghijklmnopqrstuvwxyz", HEARTBEAT_TOKEN_LENGTH);
+
+export function heartbeatPushUrlOf(url: string | undefined): string | undefined {
+  const token = url ? stripTargetScheme("heartbeat", url) : "";
+  return HEARTBEAT_TOKEN_PATTERN.test(token) ? heartbeatPushUrl(token) : undefined;
+}
+
+// Адрес для нового сайта-копии: у heartbeat токен должен быть своим, иначе сигналы задачи
+// засчитаются обоим сайтам
+export function copyTargetUrl(variant: MonitorVariant, url: string): string {
+  return variant === "heartbeat" ? buildTargetUrl(variant, createHeartbeatToken()) : url;
+}
+
+const HOST_PATTERN = /^(?=.{1,253}$)[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+
+export function parseHostPort(target: string): { host: string; port?: number } | undefined {
+  const match = /^([^:/\s]+)(?::(\d{1,5}))?$/.exec(target.trim());
+  if (!match || !HOST_PATTERN.test(match[1])) return undefined;
+
+  if (match[2] === undefined) return { host: match[1] };
+  const port = Number(match[2]);
+  if (port < 1 || port > 65535) return undefined;
+  return { host: match[1], port };
+}
+
+// Проверка адреса без схемы, как его вводит пользователь; для website — см. siteForm
+export function validateMonitorTarget(variant: ProbeVariant, raw: string): string | undefined {
+  const target = stripTargetScheme(variant, raw.trim());
+  if (!target) return "Укажите адрес";
+
+  if (variant === "heartbeat") {
+    return HEARTBEAT_TOKEN_PATTERN.test(target) ? undefined : "Токен — от 16 строчных латинских букв и цифр";
+  }
+
+  const parsed = parseHostPort(target);
+  if (!parsed) return `Некорректный адрес, пример: ${MONITOR_TARGET_FIELDS[variant].placeholder}`;
+
+  if (variant === "tcp" && parsed.port === undefined) return "Укажите порт, например db.example.com:5432";
+  if ((variant === "dns" || variant === "ping") && parsed.port !== undefined) return "Порт здесь не нужен";
+  if (variant === "dns" && !parsed.host.includes(".")) return "Укажите полное доменное имя";
+
+  return undefined;
+}
+
+export const DNS_RECORD_TYPES: DnsRecordType[] = ["A", "AAAA", "CNAME", "MX", "TXT", "NS"];
+
+export const MIN_PING_COUNT = 1;
+export const MAX_PING_COUNT = 20;
+export const MIN_TLS_WARN_DAYS = 1;
+export const MAX_TLS_WARN_DAYS = 365;
+export const MIN_HEARTBEAT_PERIOD = 60;
+export const MAX_HEARTBEAT_PERIOD = 7 * 24 * 3600;
+export const MAX_HEARTBEAT_GRACE = 24 * 3600;
+
+export const DEFAULT_PROBES: { [K in ProbeVariant]: Extract<MonitorProbe, { kind: K }> } = {
+  tcp: { kind: "tcp", timeout: 5 },
+  dns: { kind: "dns", record_type: "A", expected: [], resolver: "" },
+  ping: { kind: "ping", count: 3, max_loss_percent: 0 },
+  tls: { kind: "tls", warn_days: 14 },
+  heartbeat: { kind: "heartbeat", period: 3600, grace: 300 },
+};
+
+// Приводит параметры проверки с сервера или из файла к полному виду; у website их нет
+export function normalizeProbe(variant: MonitorVariant, raw: unknown): MonitorProbe | undefined {
+  if (variant === "website") return undefined;
+  const source = isRecord(raw) && raw.kind === variant ? raw : {};
+
+  switch (variant) {
+    case "tcp":
+      return {
+        kind: "tcp",
+        timeout: clampInteger(source.timeout, MIN_CHECK_TIMEOUT, MAX_CHECK_TIMEOUT, DEFAULT_PROBES.tcp.timeout),
+      };
+    case "dns":
+      return {
+        kind: "dns",
+        record_type: DNS_RECORD_TYPES.find((type) => type === source.record_type) ?? DEFAULT_PROBES.dns.record_type,
+        expected: Array.isArray(source.expected)
+          ? source.expected.filter((value): value is string => typeof value === "string" && value.trim() !== "")
+          : [],
+        resolver: typeof source.resolver === "string" ? source.resolver : "",
+      };
+    case "ping":
+      return {
+        kind: "ping",
+        count: clampInteger(source.count, MIN_PING_COUNT, MAX_PING_COUNT, DEFAULT_PROBES.ping.count),
+        max_loss_percent: clampInteger(source.max_loss_percent, 0, 100, DEFAULT_PROBES.ping.max_loss_percent),
+      };
+    case "tls":
+      return {
+        kind: "tls",
+        warn_days: clampInteger(source.warn_days, MIN_TLS_WARN_DAYS, MAX_TLS_WARN_DAYS, DEFAULT_PROBES.tls.warn_days),
+      };
+    case "heartbeat":
+      return {
+        kind: "heartbeat",
+        period: clampInteger(
+          source.period,
+          MIN_HEARTBEAT_PERIOD,
+          MAX_HEARTBEAT_PERIOD,
+          DEFAULT_PROBES.heartbeat.period
+        ),
+        grace: clampInteger(source.grace, 0, MAX_HEARTBEAT_GRACE, DEFAULT_PROBES.heartbeat.grace),
+      };
+  }
+}
+
+// Сигнал считается пропущенным, если с последнего прошло больше period + grace.
+// Сервер сам пишет красную запись о пропуске, но только на своём такте опроса —
+// до него последняя запись ещё зелёная.
+export function isHeartbeatOverdue(
+  log: Pick<LogRecord, "timestamp"> | null,
+  probe: Extract<MonitorProbe, { kind: "heartbeat" }>,
+  now = Date.now()
+): boolean {
+  if (!log) return true;
+  const last = new Date(log.timestamp).getTime();
+  if (!Number.isFinite(last)) return true;
+  return now - last > (probe.period + probe.grace) * 1000;
+}
+
+// Сколько у сайта может не быть новых записей, сек: опрос идёт раз в интервал,
+// а heartbeat ждёт сигнала до period + grace
+export function maxCheckGap(type: string | undefined, data: BaseNodeData): number {
+  if (type === "heartbeat") {
+    const probe = data.probe?.kind === "heartbeat" ? data.probe : DEFAULT_PROBES.heartbeat;
+    return probe.period + probe.grace;
+  }
+  return data.ping_interval ?? DEFAULT_PING_INTERVAL;
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds % 86400 === 0) return `${seconds / 86400} дн.`;
+  if (seconds % 3600 === 0) return `${seconds / 3600} ч`;
+  if (seconds % 60 === 0) return `${seconds / 60} мин`;
+  return `${seconds} сек`;
+}
+
+const baseEntries = (variant: ProbeVariant, data: BaseNodeData): NodeMetadataEntry[] => [
+  { label: "Адрес", value: data.description ? stripTargetScheme(variant, data.description) : "—" },
+  { label: "Интервал", value: `${data.ping_interval ?? DEFAULT_PING_INTERVAL} сек` },
+];
+
+const withTelegram = (entries: NodeMetadataEntry[], data: BaseNodeData) => {
+  const telegramEntry = buildTelegramEntry(data.com);
+  return telegramEntry ? entries.concat(telegramEntry) : entries;
+};
+
+export function buildTcpMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const probe = data.probe?.kind === "tcp" ? data.probe : DEFAULT_PROBES.tcp;
+  return withTelegram([...baseEntries("tcp", data), { label: "Таймаут", value: `${probe.timeout} сек` }], data);
+}
+
+export function buildDnsMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const probe = data.probe?.kind === "dns" ? data.probe : DEFAULT_PROBES.dns;
+  return withTelegram(
+    [
+      ...baseEntries("dns", data),
+      { label: "Запись", value: probe.record_type },
+      { label: "Ожидается", value: probe.expected.length > 0 ? probe.expected.join(", ") : "любой ответ" },
+    ],
+    data
+  );
+}
+
+export function buildPingMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const probe = data.probe?.kind === "ping" ? data.probe : DEFAULT_PROBES.ping;
+  return withTelegram(
+    [
+      ...baseEntries("ping", data),
+      { label: "Пакетов", value: String(probe.count) },
+      { label: "Потери до", value: `${probe.max_loss_percent}%` },
+    ],
+    data
+  );
+}
+
+export function buildTlsMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const probe = data.probe?.kind === "tls" ? data.probe : DEFAULT_PROBES.tls;
+  return withTelegram(
+    [...baseEntries("tls", data), { label: "Предупредить за", value: `${probe.warn_days} дн.` }],
+    data
+  );
+}
+
+export function buildHeartbeatMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const probe = data.probe?.kind === "heartbeat" ? data.probe : DEFAULT_PROBES.heartbeat;
+  return withTelegram(
+    [
+      { label: "Push URL", value: heartbeatPushUrlOf(data.description) ?? "—" },
+      { label: "Период", value: formatDuration(probe.period) },
+      { label: "Допуск", value: probe.grace > 0 ? formatDuration(probe.grace) : "нет" },
+    ],
+    data
+  );
+}
+
+const METADATA_BUILDERS: Record<MonitorVariant, (data: BaseNodeData) => NodeMetadataEntry[]> = {
+  website: buildWebsiteMetadata,
+  tcp: buildTcpMetadata,
+  dns: buildDnsMetadata,
+  ping: buildPingMetadata,
+  tls: buildTlsMetadata,
+  heartbeat: buildHeartbeatMetadata,
+};
+
+export function buildMonitorMetadata(variant: MonitorVariant, data: BaseNodeData): NodeMetadataEntry[] {
+  return METADATA_BUILDERS[variant](data);
+}
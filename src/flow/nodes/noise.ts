@@ -0,0 +1,156 @@
+import type { LogRecord } from "../../utils/stats";
+import { clampInteger, isRecord } from "./normalize";
+import type { BaseNodeData, NodeMetadataEntry, NoiseRule } from "./types";
+
+export const NOISE_KINDS: Record<NoiseRule["kind"], string> = {
+  debounce: "Только после N падений",
+  throttle: "Не повторять T минут",
+  recovery: "Сообщить о восстановлении",
+  digest: "Сводка раз в T минут",
+};
+
+export const MAX_DEBOUNCE_FAILURES = 20;
+export const MIN_NOISE_MINUTES = 1;
+export const MAX_NOISE_MINUTES = 24 * 60;
+
+export const DEFAULT_NOISE_RULES: { [Kind in NoiseRule["kind"]]: Extract<NoiseRule, { kind: Kind }> } = {
+  debounce: { kind: "debounce", failures: 3 },
+  throttle: { kind: "throttle", minutes: 30 },
+  recovery: { kind: "recovery" },
+  digest: { kind: "digest", minutes: 15 },
+};
+
+// Что нужно правилам от проверки; полный тип — CheckPayload исполнителя
+export type NoiseCheck = {
+  site: { id: string };
+  log: LogRecord | null;
+};
+
+// Память блока между прогонами; ключи — id сайтов
+export type NoiseState<T extends NoiseCheck> = {
+  // время последней учтённой проверки сайта: прогон идёт чаще, чем сервер проверяет сайт
+  seen: Record<string, string>;
+  streaks: Record<string, number>;
+  // когда статус сайта последний раз прошёл дальше; ключ — сайт и статус
+  lastPassed: Record<string, number>;
+  failing: Record<string, boolean>;
+  digest: { since: number | null; pending: Record<string, T> };
+};
+
+export const createNoiseState = <T extends NoiseCheck>(): NoiseState<T> => ({
+  seen: {},
+  streaks: {},
+  lastPassed: {},
+  failing: {},
+  digest: { since: null, pending: {} },
+});
+
+export function normalizeNoiseRule(raw: unknown): NoiseRule {
+  if (!isRecord(raw)) return DEFAULT_NOISE_RULES.debounce;
+
+  switch (raw.kind) {
+    case "debounce":
+      return {
+        kind: "debounce",
+        failures: clampInteger(raw.failures, 1, MAX_DEBOUNCE_FAILURES, DEFAULT_NOISE_RULES.debounce.failures),
+      };
+    case "throttle":
+    case "digest":
+      return {
+        kind: raw.kind,
+        minutes: clampInteger(raw.minutes, MIN_NOISE_MINUTES, MAX_NOISE_MINUTES, DEFAULT_NOISE_RULES[raw.kind].minutes),
+      };
+    case "recovery":
+      return { kind: "recovery" };
+    default:
+      return DEFAULT_NOISE_RULES.debounce;
+  }
+}
+
+// Упавшим считается то же, что и в мониторе: красный статус или нет данных
+export const isFailingLog = (log: LogRecord | null) => !log || log.traffic_light === "red";
+
+const MINUTE_MS = 60_000;
+
+// Новая ли это проверка; «нет данных» учитывается один раз, пока не появится лог
+const isNewCheck = <T extends NoiseCheck>(check: T, state: NoiseState<T>) => {
+  const timestamp = check.log?.timestamp ?? "";
+  if (state.seen[check.site.id] === timestamp) return false;
+  state.seen[check.site.id] = timestamp;
+  return true;
+};
+
+// Проверки, которые правило пропускает дальше на этом прогоне; state обновляется на месте.
+// Правила видят только новые проверки, повторно прочитанный тот же лог пропускается.
+// digest возвращает накопленные проверки одной пачкой, когда окно закрылось
+export function applyNoiseRule<T extends NoiseCheck>(
+  rule: NoiseRule,
+  allChecks: T[],
+  state: NoiseState<T>,
+  now = Date.now()
+): { passed: T[]; digest?: T[] } {
+  const checks = allChecks.filter((check) => isNewCheck(check, state));
+
+  switch (rule.kind) {
+    case "debounce":
+      return {
+        passed: checks.filter((check) => {
+          const streak = isFailingLog(check.log) ? (state.streaks[check.site.id] ?? 0) + 1 : 0;
+          state.streaks[check.site.id] = streak;
+          return streak >= rule.failures;
+        }),
+      };
+    case "throttle":
+      return {
+        passed: checks.filter((check) => {
+          const key = `${check.site.id}:${check.log?.traffic_light ?? "none"}`;
+          const last = state.lastPassed[key];
+          if (last !== undefined && now - last < rule.minutes * MINUTE_MS) return false;
+          state.lastPassed[key] = now;
+          return true;
+        }),
+      };
+    case "recovery":
+      return {
+        passed: checks.filter((check) => {
+          const wasFailing = state.failing[check.site.id] ?? false;
+          state.failing[check.site.id] = isFailingLog(check.log);
+          return wasFailing && check.log?.traffic_light === "green";
+        }),
+      };
+    case "digest": {
+      checks.forEach((check) => {
+        state.digest.pending[check.site.id] = check;
+      });
+      // окно открывается с первой проверкой, пустых сводок не бывает
+      if (Object.keys(state.digest.pending).length === 0) return { passed: [] };
+      if (state.digest.since === null) state.digest.since = now;
+      if (now - state.digest.since < rule.minutes * MINUTE_MS) return { passed: [] };
+
+      const digest = Object.values(state.digest.pending);
+      state.digest = { since: null, pending: {} };
+      return { passed: [], digest };
+    }
+  }
+}
+
+export function describeNoiseRule(rule: NoiseRule): string {
+  switch (rule.kind) {
+    case "debounce":
+      return `падений подряд: ${rule.failures}`;
+    case "throttle":
+      return `повтор не чаще раза в ${rule.minutes} мин`;
+    case "recovery":
+      return "упавший сайт снова зелёный";
+    case "digest":
+      return `сводка раз в ${rule.minutes} мин`;
+  }
+}
+
+export function buildNoiseMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const rule = normalizeNoiseRule(data.noise);
+  return [
+    { label: "Вид", value: NOISE_KINDS[rule.kind] },
+    { label: "Правило", value: describeNoiseRule(rule) },
+  ];
+}
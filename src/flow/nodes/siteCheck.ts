@@ -0,0 +1,126 @@
+import { isRecord } from "./normalize";
+import type { HttpCheckMethod, SiteCheckConfig, StatusRange } from "./types";
+
+export const HTTP_CHECK_METHODS: HttpCheckMethod[] = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+// методы, для которых имеет смысл тело запроса
+export const METHODS_WITH_BODY: HttpCheckMethod[] = ["POST", "PUT", "PATCH", "DELETE"];
+
+export const DEFAULT_CHECK_TIMEOUT = 10;
+export const MIN_CHECK_TIMEOUT = 1;
+export const MAX_CHECK_TIMEOUT = 120;
+
+export const DEFAULT_SITE_CHECK: SiteCheckConfig = {
+  method: "GET",
+  headers: {},
+  body: "",
+  expected_status: [{ from: 200, to: 399 }],
+  body_match: "",
+  body_match_mode: "substring",
+  timeout: DEFAULT_CHECK_TIMEOUT,
+};
+
+const isStatusCode = (value: number) => Number.isInteger(value) && value >= 100 && value <= 599;
+
+export function formatStatusRanges(ranges: StatusRange[]): string {
+  return ranges.map((range) => (range.from === range.to ? String(range.from) : `${range.from}-${range.to}`)).join(", ");
+}
+
+// «200-299, 304» → диапазоны; undefined, если хоть один фрагмент некорректен
+export function parseStatusRanges(text: string): StatusRange[] | undefined {
+  const parts = text.split(",").map((part) => part.trim()).filter(Boolean);
+  if (parts.length === 0) return undefined;
+
+  const ranges: StatusRange[] = [];
+  for (const part of parts) {
+    const match = /^(\d{3})(?:\s*-\s*(\d{3}))?$/.exec(part);
+    if (!match) return undefined;
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    if (!isStatusCode(from) || !isStatusCode(to) || from > to) return undefined;
+    ranges.push({ from, to });
+  }
+  return ranges;
+}
+
+export function formatHeaders(headers: Record<string, string>): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
+}
+
+// Строки вида «Имя: значение»; пустые строки пропускаются
+export function parseHeaders(text: string): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    const separator = line.indexOf(":");
+    if (separator <= 0) return undefined;
+    const name = line.slice(0, separator).trim();
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) return undefined;
+    headers[name] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+export function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function normalizeCheckTimeout(value: string): number | undefined {
+  const numeric = Number(value.trim());
+  if (!value.trim() || !Number.isFinite(numeric) || numeric <= 0) return undefined;
+  return Math.min(MAX_CHECK_TIMEOUT, Math.max(MIN_CHECK_TIMEOUT, Math.round(numeric)));
+}
+
+// Приводит настройки проверки с сервера или из файла к полному виду;
+// неизвестные и битые поля заменяются значениями по умолчанию.
+export function normalizeSiteCheck(raw: unknown): SiteCheckConfig | undefined {
+  if (!isRecord(raw)) return undefined;
+
+  const method = HTTP_CHECK_METHODS.find((candidate) => candidate === raw.method) ?? DEFAULT_SITE_CHECK.method;
+
+  const headers: Record<string, string> = {};
+  if (isRecord(raw.headers)) {
+    Object.entries(raw.headers).forEach(([name, value]) => {
+      if (typeof value === "string") headers[name] = value;
+    });
+  }
+
+  const expected_status = Array.isArray(raw.expected_status)
+    ? raw.expected_status.filter(
+        (range): range is StatusRange =>
+          isRecord(range) &&
+          typeof range.from === "number" &&
+          typeof range.to === "number" &&
+          isStatusCode(range.from) &&
+          isStatusCode(range.to) &&
+          range.from <= range.to
+      )
+    : [];
+
+  const timeout = typeof raw.timeout === "number" ? normalizeCheckTimeout(String(raw.timeout)) : undefined;
+
+  return {
+    method,
+    headers,
+    body: typeof raw.body === "string" ? raw.body : "",
+    expected_status: expected_status.length > 0 ? expected_status : DEFAULT_SITE_CHECK.expected_status,
+    body_match: typeof raw.body_match === "string" ? raw.body_match : "",
+    body_match_mode: raw.body_match_mode === "regex" ? "regex" : "substring",
+    timeout: timeout ?? DEFAULT_CHECK_TIMEOUT,
+  };
+}
+
+export function isSameSiteCheck(a?: SiteCheckConfig, b?: SiteCheckConfig): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Короткая сводка для карточки блока: «POST • 200-299 • 10 сек»
+export function describeSiteCheck(check: SiteCheckConfig): string {
+  return [check.method, formatStatusRanges(check.expected_status), `${check.timeout} сек`].join(" • ");
+}
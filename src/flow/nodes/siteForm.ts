@@ -0,0 +1,82 @@
+import { buildTargetUrl, validateMonitorTarget } from "./monitors";
+import { MAX_PING_INTERVAL, MIN_PING_INTERVAL, type MonitorVariant } from "./types";
+
+// Значения полей формы сайта — как их ввёл пользователь
+export type SiteFormValues = {
+  url: string;
+  name: string;
+  ping_interval: string;
+};
+
+export type SiteFormErrors = Partial<Record<keyof SiteFormValues, string>>;
+
+// Проверенные значения, готовые к отправке на сервер
+export type SiteFormResult = {
+  url: string;
+  name: string;
+  ping_interval: number;
+};
+
+export const normalizeSiteUrl = (url: string) => url.trim().replace(/\/+$/, "").toLowerCase();
+
+function validateUrl(raw: string): string | undefined {
+  const url = raw.trim();
+  if (!url) return "Укажите URL сайта";
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Некорректный URL, пример: https://example.com";
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "Поддерживаются только адреса http:// и https://";
+  }
+  if (!parsed.hostname || (!parsed.hostname.includes(".") && parsed.hostname !== "localhost")) {
+    return "В адресе должен быть домен, например example.com";
+  }
+
+  return undefined;
+}
+
+function validateInterval(raw: string): string | undefined {
+  const value = raw.trim();
+  const numeric = Number(value);
+  if (!value || !Number.isInteger(numeric) || numeric < MIN_PING_INTERVAL || numeric > MAX_PING_INTERVAL) {
+    return `Целое число от ${MIN_PING_INTERVAL} до ${MAX_PING_INTERVAL} секунд`;
+  }
+  return undefined;
+}
+
+// existingUrls — адреса остальных сайтов сценария (без редактируемого);
+// для не-HTTP мониторов в поле url вводится адрес без схемы, например host:port
+export function validateSiteForm(
+  values: SiteFormValues,
+  existingUrls: string[],
+  variant: MonitorVariant = "website"
+): { errors: SiteFormErrors; result?: SiteFormResult } {
+  const errors: SiteFormErrors = {};
+  const url = buildTargetUrl(variant, values.url);
+
+  const urlError = variant === "website" ? validateUrl(values.url) : validateMonitorTarget(variant, values.url);
+  if (urlError) {
+    errors.url = urlError;
+  } else if (existingUrls.some((existing) => normalizeSiteUrl(existing) === normalizeSiteUrl(url))) {
+    errors.url = "Этот адрес уже отслеживается в сценарии";
+  }
+  if (!values.name.trim()) errors.name = "Укажите название сайта";
+  const intervalError = validateInterval(values.ping_interval);
+  if (intervalError) errors.ping_interval = intervalError;
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  return {
+    errors,
+    result: {
+      url,
+      name: values.name.trim(),
+      ping_interval: Number(values.ping_interval.trim()),
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import type { NodeStatus } from "./types";
+
+// Плашка статуса на блоках и группах
+export const STATUS_STYLES: Record<
+  NodeStatus,
+  { label: string; className: string; dot: string }
+> = {
+  idle: {
+    label: "Ожидание",
+    className: "border-slate-200 bg-slate-50 text-slate-500",
+    dot: "bg-slate-400",
+  },
+  running: {
+    label: "Выполняется",
+    className: "border-amber-200 bg-amber-50 text-amber-600",
+    dot: "bg-amber-400",
+  },
+  success: {
+    label: "Готово",
+    className: "border-emerald-200 bg-emerald-50 text-emerald-600",
+    dot: "bg-emerald-500",
+  },
+  error: {
+    label: "Ошибка",
+    className: "border-rose-200 bg-rose-50 text-rose-600",
+    dot: "bg-rose-400",
+  },
+};
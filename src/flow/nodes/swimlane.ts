@@ -0,0 +1,84 @@
+import type { CSSProperties } from "react";
+import type { XYPosition } from "reactflow";
+
+import { isRecord } from "./normalize";
+import { isSwimlane, type FlowNode, type NodeStatus, type SwimlaneConfig } from "./types";
+
+export const SWIMLANE_HEADER_HEIGHT = 56;
+export const SWIMLANE_COLLAPSED_WIDTH = 280;
+export const MIN_SWIMLANE_SIZE = { width: 320, height: 240 };
+// отступ рамки вокруг блоков, из которых собрана группа
+export const SWIMLANE_PADDING = 48;
+
+export const DEFAULT_SWIMLANE: SwimlaneConfig = { collapsed: false, width: 640, height: 400 };
+
+const clampSize = (value: unknown, min: number, fallback: number) => {
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? Math.max(min, Math.round(numeric)) : fallback;
+};
+
+export function normalizeSwimlane(raw: unknown): SwimlaneConfig {
+  if (!isRecord(raw)) return DEFAULT_SWIMLANE;
+  return {
+    collapsed: raw.collapsed === true,
+    width: clampSize(raw.width, MIN_SWIMLANE_SIZE.width, DEFAULT_SWIMLANE.width),
+    height: clampSize(raw.height, MIN_SWIMLANE_SIZE.height, DEFAULT_SWIMLANE.height),
+  };
+}
+
+export function swimlaneStyle(config: SwimlaneConfig): CSSProperties {
+  return config.collapsed
+    ? { width: SWIMLANE_COLLAPSED_WIDTH, height: SWIMLANE_HEADER_HEIGHT }
+    : { width: config.width, height: config.height };
+}
+
+// Группы не вкладываются друг в друга, поэтому позиция на канвасе — сдвиг родителя плюс свой
+export function absolutePosition(node: FlowNode, nodes: FlowNode[]): XYPosition {
+  const parent = node.parentNode ? nodes.find((candidate) => candidate.id === node.parentNode) : undefined;
+  return parent
+    ? { x: parent.position.x + node.position.x, y: parent.position.y + node.position.y }
+    : node.position;
+}
+
+// Развёрнутая группа, в рамку которой попадает точка
+export function findSwimlaneAt(point: XYPosition, nodes: FlowNode[]): FlowNode | undefined {
+  return nodes.find((node) => {
+    if (!isSwimlane(node)) return false;
+    const config = normalizeSwimlane(node.data.swimlane);
+    return (
+      !config.collapsed &&
+      point.x >= node.position.x &&
+      point.x <= node.position.x + config.width &&
+      point.y >= node.position.y + SWIMLANE_HEADER_HEIGHT &&
+      point.y <= node.position.y + config.height
+    );
+  });
+}
+
+export type SwimlaneRollup = {
+  status: NodeStatus;
+  counts: Record<NodeStatus, number>;
+};
+
+// Статус группы — худший среди блоков: ошибка важнее выполнения, выполнение — успеха
+export function rollupStatus(statuses: NodeStatus[]): SwimlaneRollup {
+  const counts: Record<NodeStatus, number> = { idle: 0, running: 0, success: 0, error: 0 };
+  statuses.forEach((status) => {
+    counts[status] += 1;
+  });
+
+  const status: NodeStatus =
+    counts.error > 0
+      ? "error"
+      : counts.running > 0
+        ? "running"
+        : counts.success > 0 && counts.success === statuses.length
+          ? "success"
+          : "idle";
+  return { status, counts };
+}
+
+// Родители должны идти в списке раньше детей, иначе React Flow не найдёт группу
+export function sortSwimlanesFirst(nodes: FlowNode[]): FlowNode[] {
+  return nodes.filter(isSwimlane).concat(nodes.filter((node) => !isSwimlane(node)));
+}
@@ -0,0 +1,206 @@
+import type { Edge } from "reactflow";
+
+import { renderPromptTemplate, type PromptContext } from "./llm";
+import { isRecord } from "./normalize";
+import type {
+  BaseNodeData,
+  FlowNode,
+  MuteWindow,
+  NodeMetadataEntry,
+  TelegramChat,
+  TelegramConfig,
+  TelegramLink,
+  TelegramParseMode,
+  TelegramTarget,
+} from "./types";
+
+export const TELEGRAM_PARSE_MODES: TelegramParseMode[] = ["Markdown", "HTML"];
+
+export const DEFAULT_TELEGRAM_TEMPLATE = "*{{site.name}}*: {{log.traffic_light}}\n{{input}}";
+
+export const DEFAULT_TELEGRAM_CONFIG: TelegramConfig = {
+  chats: [],
+  parse_mode: "Markdown",
+  template: DEFAULT_TELEGRAM_TEMPLATE,
+  mute: [],
+};
+
+// -1001234567890, 123456 или @channel_name
+const CHAT_ID_PATTERN = /^(-?\d{1,20}|@[A-Za-z][\w]{4,31})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function chatKey(target: TelegramTarget): string {
+  return target.topic_id !== null ? `${target.chat_id}/${target.topic_id}` : target.chat_id;
+}
+
+export function validateTelegramChat(chat: TelegramChat): string | undefined {
+  if (!CHAT_ID_PATTERN.test(chat.chat_id.trim())) return "ID чата — число (например -100…) или @канал";
+  if (chat.topic_id !== null && (!Number.isInteger(chat.topic_id) || chat.topic_id <= 0)) {
+    return "ID темы — положительное целое число";
+  }
+  return undefined;
+}
+
+export function validateMuteWindow(window: MuteWindow): string | undefined {
+  if (!TIME_PATTERN.test(window.from) || !TIME_PATTERN.test(window.to)) return "Время в формате ЧЧ:ММ";
+  if (window.from === window.to) return "Начало и конец совпадают";
+  return undefined;
+}
+
+const toTarget = (raw: unknown): TelegramTarget | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const chatId = typeof raw.chat_id === "number" ? String(raw.chat_id) : raw.chat_id;
+  if (typeof chatId !== "string" || !chatId.trim()) return undefined;
+  const topic = Number(raw.topic_id);
+  return { chat_id: chatId.trim(), topic_id: raw.topic_id != null && Number.isInteger(topic) ? topic : null };
+};
+
+export function normalizeTelegramConfig(raw: unknown): TelegramConfig {
+  if (!isRecord(raw)) return DEFAULT_TELEGRAM_CONFIG;
+
+  const chats = Array.isArray(raw.chats)
+    ? raw.chats.flatMap((candidate): TelegramChat[] => {
+        const target = toTarget(candidate);
+        if (!target) return [];
+        const label = isRecord(candidate) && typeof candidate.label === "string" ? candidate.label : "";
+        return [{ ...target, label }];
+      })
+    : [];
+  const mute = Array.isArray(raw.mute)
+    ? raw.mute.flatMap((candidate): MuteWindow[] =>
+        isRecord(candidate) && typeof candidate.from === "string" && typeof candidate.to === "string"
+          ? [{ from: candidate.from, to: candidate.to }]
+          : []
+      )
+    : [];
+
+  return {
+    chats,
+    parse_mode: TELEGRAM_PARSE_MODES.find((mode) => mode === raw.parse_mode) ?? "Markdown",
+    template: typeof raw.template === "string" ? raw.template : DEFAULT_TELEGRAM_TEMPLATE,
+    mute,
+  };
+}
+
+// Тихие часы задаются по часам пользователя, а сервер может жить в другом поясе
+const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Окно 23:00–07:00 переходит через полночь: тихо с 23:00 до конца суток и с начала суток до 07:00
+export function isMuted(config: TelegramConfig, date = new Date()): boolean {
+  const now = date.getHours() * 60 + date.getMinutes();
+  return config.mute.some((window) => {
+    if (validateMuteWindow(window)) return false;
+    const from = minutesOf(window.from);
+    const to = minutesOf(window.to);
+    return from < to ? now >= from && now < to : now >= from || now < to;
+  });
+}
+
+export function renderTelegramMessage(config: TelegramConfig, context: PromptContext): string {
+  return renderPromptTemplate(config.template, context).trim();
+}
+
+export function readTelegramLinks(com: BaseNodeData["com"]): TelegramLink[] {
+  if (!isRecord(com) || !Array.isArray(com.telegram)) return [];
+
+  return com.telegram.flatMap((raw): TelegramLink[] => {
+    if (!isRecord(raw) || typeof raw.node !== "string") return [];
+    // привязки, записанные до появления шаблона в com, читаются с настройками по умолчанию
+    const { template, parse_mode, mute } = normalizeTelegramConfig(raw);
+    return [
+      {
+        node: raw.node,
+        chats: Array.isArray(raw.chats) ? raw.chats.flatMap((chat) => toTarget(chat) ?? []) : [],
+        excluded: Array.isArray(raw.excluded)
+          ? raw.excluded.filter((key): key is string => typeof key === "string")
+          : [],
+        template,
+        parse_mode,
+        mute,
+        timezone: typeof raw.timezone === "string" ? raw.timezone : "",
+      },
+    ];
+  });
+}
+
+// Старый флаг tg больше не пишется: адресаты теперь в com.telegram
+export function withTelegramLinks(com: BaseNodeData["com"], links: TelegramLink[]): Record<string, unknown> {
+  const next: Record<string, unknown> = isRecord(com) ? { ...com } : {};
+  delete next.tg;
+  if (links.length > 0) {
+    next.telegram = links;
+  } else {
+    delete next.telegram;
+  }
+  return next;
+}
+
+// Привязки пишет только синхронизация связей; остальные правки сайта уходят без них,
+// чтобы не затереть более свежие
+export function withoutTelegramLinks(com: BaseNodeData["com"]): Record<string, unknown> | null {
+  if (!isRecord(com)) return null;
+  const next = { ...com };
+  delete next.telegram;
+  return Object.keys(next).length > 0 ? next : null;
+}
+
+export function isSameTelegramLinks(a: TelegramLink[], b: TelegramLink[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Сохранять нужно, если привязки разошлись со связями или в com остался старый флаг tg
+export function needsTelegramSync(com: BaseNodeData["com"], desired: TelegramLink[]): boolean {
+  return !isSameTelegramLinks(readTelegramLinks(com), desired) || (isRecord(com) && "tg" in com);
+}
+
+// Привязки сайта по текущим связям: по одной на каждый Telegram-блок, в который ведёт ребро.
+// Отключённые для сайта чаты переживают пересборку, пока они есть в блоке.
+export function resolveTelegramLinks(siteId: string, nodes: FlowNode[], edges: Edge[]): TelegramLink[] {
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+  const site = nodeMap.get(siteId);
+  const previous = new Map(readTelegramLinks(site?.data.com).map((link) => [link.node, link]));
+  const targets = new Set(
+    edges
+      .filter((edge) => edge.source === siteId && nodeMap.get(edge.target)?.type === "telegram")
+      .map((edge) => edge.target)
+  );
+
+  return Array.from(targets).map((nodeId) => {
+    const config = normalizeTelegramConfig(nodeMap.get(nodeId)?.data.telegram);
+    // недописанный или ошибочный чат серверу не отдаём
+    const chats = config.chats.filter((chat) => !validateTelegramChat(chat));
+    const keys = new Set(chats.map(chatKey));
+    const excluded = (previous.get(nodeId)?.excluded ?? []).filter((key) => keys.has(key));
+    return {
+      node: nodeId,
+      chats: chats
+        .filter((chat) => !excluded.includes(chatKey(chat)))
+        .map(({ chat_id, topic_id }) => ({ chat_id, topic_id })),
+      excluded,
+      template: config.template,
+      parse_mode: config.parse_mode,
+      mute: config.mute.filter((window) => !validateMuteWindow(window)),
+      timezone: BROWSER_TIMEZONE,
+    };
+  });
+}
+
+export function buildTelegramNodeMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const config = normalizeTelegramConfig(data.telegram);
+  return [
+    { label: "Бот", value: data.description ?? "—" },
+    {
+      label: "Чаты",
+      value: config.chats.length > 0 ? config.chats.map((chat) => chat.label || chat.chat_id).join(", ") : "не заданы",
+    },
+    { label: "Формат", value: config.parse_mode },
+    ...(config.mute.length > 0
+      ? [{ label: "Тихие часы", value: config.mute.map((window) => `${window.from}–${window.to}`).join(", ") }]
+      : []),
+  ];
+}
@@ -1,7 +1,44 @@
 import type { Edge, Node } from "reactflow";
+import { readAssertions } from "./assertions";
+import { describeSiteCheck } from "./siteCheck";
+import { readTelegramLinks } from "./telegram";
+import type { TrafficLight } from "../../utils/stats";
 
 // Варианты блоков
-export type BlockVariant = "website" | "llm" | "messenger" | "telegram";
+export type BlockVariant =
+  | "website"
+  | "tcp"
+  | "dns"
+  | "ping"
+  | "tls"
+  | "heartbeat"
+  | "llm"
+  | "messenger"
+  | "telegram"
+  | "email"
+  | "webhook"
+  | "condition"
+  | "noise";
+
+// Источники-мониторы: каждый такой блок — сайт на сервере, id блока = id сайта
+export type MonitorVariant = "website" | "tcp" | "dns" | "ping" | "tls" | "heartbeat";
+
+export const MONITOR_VARIANTS: MonitorVariant[] = ["website", "tcp", "dns", "ping", "tls", "heartbeat"];
+
+export function isMonitorVariant(type: string | undefined): type is MonitorVariant {
+  return MONITOR_VARIANTS.includes(type as MonitorVariant);
+}
+
+// Группа — рамка на канвасе, а не блок сценария, поэтому в BlockVariant её нет.
+// Имя "group" занято встроенным типом React Flow со своими стилями
+export const SWIMLANE_TYPE = "swimlane";
+
+export function isSwimlane(node: { type?: string }): boolean {
+  return node.type === SWIMLANE_TYPE;
+}
+
+// Тип проверки на сервере (поле kind сайта); heartbeat не опрашивается, а ждёт входящих сигналов
+export type SiteKind = "http" | "tcp" | "dns" | "ping" | "tls" | "heartbeat";
 
 // Статусы нод
 export type NodeStatus = "idle" | "running" | "success" | "error";
@@ -17,6 +54,178 @@ export const DEFAULT_PING_INTERVAL = 30;
 export const MIN_PING_INTERVAL = 1;
 export const MAX_PING_INTERVAL = 3600;
 
+// Настройки HTTP-проверки сайта
+export type HttpCheckMethod = "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS";
+
+// Диапазон ожидаемых кодов ответа, границы включительно
+export type StatusRange = { from: number; to: number };
+
+export type SiteCheckConfig = {
+  method: HttpCheckMethod;
+  headers: Record<string, string>;
+  body: string;
+  expected_status: StatusRange[];
+  // пустая строка — тело ответа не проверяется
+  body_match: string;
+  body_match_mode: "substring" | "regex";
+  // таймаут запроса, сек
+  timeout: number;
+};
+
+// Проверки содержимого ответа; хранятся в com.assertions
+export type AssertionKind = "contains" | "not_contains" | "jsonpath";
+
+export type AssertionOperator = "==" | "!=" | ">" | ">=" | "<" | "<=" | "exists" | "contains";
+
+export type CheckAssertion = {
+  id: string;
+  kind: AssertionKind;
+  // JSONPath, только для kind = "jsonpath", например $.data.items[0].status
+  path: string;
+  operator: AssertionOperator;
+  // искомая подстрока или значение для сравнения
+  value: string;
+};
+
+export type DnsRecordType = "A" | "AAAA" | "CNAME" | "MX" | "TXT" | "NS";
+
+// Параметры не-HTTP проверок; хост и порт берутся из адреса сайта
+export type MonitorProbe =
+  | { kind: "tcp"; timeout: number }
+  | { kind: "dns"; record_type: DnsRecordType; expected: string[]; resolver: string }
+  | { kind: "ping"; count: number; max_loss_percent: number }
+  | { kind: "tls"; warn_days: number }
+  // period — как часто задача должна отмечаться, grace — сколько ждать сверх периода, сек
+  | { kind: "heartbeat"; period: number; grace: number };
+
+// Настройки LLM-блока; провайдер — любой OpenAI-совместимый API,
+// local — заглушка без сети, которая возвращает сам промпт
+export type LlmProvider = "openai" | "custom" | "local";
+
+export type LlmConfig = {
+  provider: LlmProvider;
+  // базовый адрес API, к нему добавляется /chat/completions
+  endpoint: string;
+  model: string;
+  api_key: string;
+  temperature: number;
+  max_tokens: number;
+  // шаблон с подстановками вида {{site.name}}, {{log.http_status}}
+  prompt: string;
+};
+
+// Куда бот шлёт сообщение: чат (числовой id или @канал) и, для форумов, тема
+export type TelegramTarget = {
+  chat_id: string;
+  topic_id: number | null;
+};
+
+export type TelegramChat = TelegramTarget & {
+  // подпись для людей, например «Дежурные»
+  label: string;
+};
+
+export type TelegramParseMode = "Markdown" | "HTML";
+
+// Тихие часы по локальному времени, HH:MM; окно может переходить через полночь
+export type MuteWindow = {
+  from: string;
+  to: string;
+};
+
+export type TelegramConfig = {
+  chats: TelegramChat[];
+  parse_mode: TelegramParseMode;
+  // шаблон сообщения с теми же подстановками, что и промпт LLM
+  template: string;
+  mute: MuteWindow[];
+};
+
+// Привязка сайта к Telegram-блоку; хранится в com.telegram сайта, и по ней отправляет сервер.
+// chats — итоговые адресаты, excluded — чаты блока, отключённые для этого сайта;
+// template, parse_mode и mute — настройки блока, тихие часы — в поясе timezone
+export type TelegramLink = {
+  node: string;
+  chats: TelegramTarget[];
+  excluded: string[];
+  template: string;
+  parse_mode: TelegramParseMode;
+  mute: MuteWindow[];
+  timezone: string;
+};
+
+// Вебхук мессенджера: провайдер задаёт форму тела запроса, generic — тело из своего шаблона
+export type MessengerProvider = "slack" | "teams" | "mattermost" | "discord" | "generic";
+
+export type MessengerFormat = "markdown" | "plain";
+
+export type MessengerConfig = {
+  provider: MessengerProvider;
+  url: string;
+  format: MessengerFormat;
+  // текст сообщения с подстановками, как у Telegram-блока
+  template: string;
+  // JSON-тело для generic; {{message}} заменяется текстом сообщения в виде JSON-строки
+  payload: string;
+};
+
+// Письма отправляет сервер по SMTP из настроек блока
+export type EmailSecurity = "none" | "starttls" | "tls";
+
+export type EmailConfig = {
+  host: string;
+  port: number;
+  security: EmailSecurity;
+  username: string;
+  password: string;
+  from: string;
+  to: string[];
+  // тема и текст письма — шаблоны с теми же подстановками, что и у остальных блоков доставки
+  subject: string;
+  body: string;
+};
+
+export type WebhookMethod = "POST" | "PUT" | "PATCH";
+
+export type WebhookHeader = {
+  name: string;
+  value: string;
+};
+
+// Исходящий вебхук во внешнюю систему, например в тикет-трекер
+export type WebhookConfig = {
+  url: string;
+  method: WebhookMethod;
+  headers: WebhookHeader[];
+  // JSON-шаблон; подстановки внутри строк экранируются по правилам JSON
+  body: string;
+  // ключ HMAC-SHA256; пустой — запрос уходит без подписи
+  secret: string;
+  signature_header: string;
+  // повторы при сетевой ошибке, таймауте, 5xx и 429; пауза растёт вдвое от backoff_ms
+  retries: number;
+  backoff_ms: number;
+};
+
+// Правило блока «Условие»: проверка уходит в выход «да», если правило выполнено, иначе — в «нет»
+export type ConditionRule =
+  | { kind: "traffic_light"; value: TrafficLight }
+  | { kind: "latency"; threshold_ms: number; consecutive: number }
+  | { kind: "ssl_days"; days: number }
+  | { kind: "http_error" };
+
+export type ConditionBranch = "true" | "false";
+
+// Борьба с шумом: состояние правил живёт между прогонами, пока сценарий запущен
+export type NoiseRule =
+  // пропускать сайт, только когда он падает failures проверок подряд
+  | { kind: "debounce"; failures: number }
+  // не пропускать тот же статус сайта повторно раньше, чем через minutes
+  | { kind: "throttle"; minutes: number }
+  // пропускать только возврат упавшего сайта в зелёный
+  | { kind: "recovery" }
+  // копить проверки и раз в minutes отправлять одну сводку
+  | { kind: "digest"; minutes: number };
 
 export type BaseNodeData = {
   title?: string;
@@ -26,7 +235,18 @@ export type BaseNodeData = {
   metadata?: NodeMetadataEntry[];
   ping_interval?: number;
   com?: Record<string, unknown> | null;
-
+  check?: SiteCheckConfig;
+  probe?: MonitorProbe;
+  llm?: LlmConfig;
+  telegram?: TelegramConfig;
+  messenger?: MessengerConfig;
+  email?: EmailConfig;
+  webhook?: WebhookConfig;
+  condition?: ConditionRule;
+  noise?: NoiseRule;
+  swimlane?: SwimlaneConfig;
+  // шаблон библиотеки, из которого создан блок
+  templateId?: string;
 };
 
 export function normalizePingInterval(value: string): number | undefined {
@@ -36,6 +256,22 @@ export function normalizePingInterval(value: string): number | undefined {
   return Math.min(MAX_PING_INTERVAL, Math.max(MIN_PING_INTERVAL, Math.round(numeric)));
 }
 
+// Сайты без com.telegram, но со старым флагом tg показываются по флагу
+export function buildTelegramEntry(com: BaseNodeData["com"]): NodeMetadataEntry | undefined {
+  const links = readTelegramLinks(com);
+  if (links.length > 0) {
+    const chats = links.reduce((sum, link) => sum + link.chats.length, 0);
+    return { label: "Telegram", value: chats > 0 ? `Подключен, чатов: ${chats}` : "Подключен, нет чатов" };
+  }
+
+  const telegramStatusRaw =
+    com && typeof com === "object" && "tg" in com ? (com as Record<string, unknown>).tg : undefined;
+  if (telegramStatusRaw === undefined) return undefined;
+
+  const isEnabled = Number(telegramStatusRaw) === 1 || telegramStatusRaw === true;
+  return { label: "Telegram", value: isEnabled ? "Подключен" : "Отключен" };
+}
+
 export function buildWebsiteMetadata(data: BaseNodeData): NodeMetadataEntry[] {
   const interval = data.ping_interval ?? DEFAULT_PING_INTERVAL;
 
@@ -46,20 +282,35 @@ export function buildWebsiteMetadata(data: BaseNodeData): NodeMetadataEntry[] {
     { label: "Интервал", value: `${interval} сек` },
   ];
 
-  const telegramStatusRaw =
-    data.com && typeof data.com === "object" && "tg" in data.com
-      ? (data.com as Record<string, unknown>).tg
-      : undefined;
+  if (data.check) {
+    entries.push({ label: "Проверка", value: describeSiteCheck(data.check) });
+    if (data.check.body_match) {
+      entries.push({
+        label: "Тело ответа",
+        value: data.check.body_match_mode === "regex" ? `/${data.check.body_match}/` : `содержит «${data.check.body_match}»`,
+      });
+    }
+  }
 
-  if (telegramStatusRaw !== undefined) {
-    const isEnabled = Number(telegramStatusRaw) === 1 || telegramStatusRaw === true;
-    entries.push({ label: "Telegram", value: isEnabled ? "Подключен" : "Отключен" });
+  const assertions = readAssertions(data.com);
+  if (assertions.length > 0) {
+    entries.push({ label: "Утверждения", value: String(assertions.length) });
   }
 
+  const telegramEntry = buildTelegramEntry(data.com);
+  if (telegramEntry) entries.push(telegramEntry);
+
   return entries;
 
 }
 
+// Размер развёрнутой группы хранится и в свёрнутом виде, чтобы вернуть его при разворачивании
+export type SwimlaneConfig = {
+  collapsed: boolean;
+  width: number;
+  height: number;
+};
+
 // FlowNode
 export type FlowNode = Node<BaseNodeData>;
 
@@ -0,0 +1,127 @@
+import { renderPromptSegments, type PromptContext } from "./llm";
+import { clampInteger, isRecord } from "./normalize";
+import type { BaseNodeData, NodeMetadataEntry, WebhookConfig, WebhookHeader, WebhookMethod } from "./types";
+
+export const WEBHOOK_METHODS: WebhookMethod[] = ["POST", "PUT", "PATCH"];
+
+export const DEFAULT_SIGNATURE_HEADER = "X-PingTower-Signature";
+export const MAX_WEBHOOK_RETRIES = 5;
+export const MIN_WEBHOOK_BACKOFF_MS = 100;
+export const MAX_WEBHOOK_BACKOFF_MS = 60_000;
+// сколько последних попыток доставки держать для инспектора
+export const WEBHOOK_ATTEMPTS_LIMIT = 10;
+
+export const DEFAULT_WEBHOOK_BODY = `{
+  "title": "{{site.name}}: {{log.traffic_light}}",
+  "url": "{{site.url}}",
+  "http_status": "{{log.http_status}}",
+  "checked_at": "{{log.timestamp}}",
+  "summary": "{{input}}"
+}`;
+
+export const DEFAULT_WEBHOOK_CONFIG: WebhookConfig = {
+  url: "",
+  method: "POST",
+  headers: [],
+  body: DEFAULT_WEBHOOK_BODY,
+  secret: "",
+  signature_header: DEFAULT_SIGNATURE_HEADER,
+  retries: 3,
+  backoff_ms: 1000,
+};
+
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9-]+$/;
+// эти заголовки выставляет сам клиент
+const RESERVED_HEADERS = ["content-type", "content-length", "host"];
+
+export function normalizeWebhookConfig(raw: unknown): WebhookConfig {
+  if (!isRecord(raw)) return DEFAULT_WEBHOOK_CONFIG;
+
+  const headers = Array.isArray(raw.headers)
+    ? raw.headers.flatMap((header): WebhookHeader[] =>
+        isRecord(header) && typeof header.name === "string" && typeof header.value === "string"
+          ? [{ name: header.name, value: header.value }]
+          : []
+      )
+    : [];
+
+  return {
+    url: typeof raw.url === "string" ? raw.url.trim() : "",
+    method: WEBHOOK_METHODS.find((method) => method === raw.method) ?? "POST",
+    headers,
+    body: typeof raw.body === "string" ? raw.body : DEFAULT_WEBHOOK_BODY,
+    secret: typeof raw.secret === "string" ? raw.secret : "",
+    signature_header:
+      typeof raw.signature_header === "string" && raw.signature_header.trim()
+        ? raw.signature_header.trim()
+        : DEFAULT_SIGNATURE_HEADER,
+    retries: clampInteger(raw.retries, 0, MAX_WEBHOOK_RETRIES, DEFAULT_WEBHOOK_CONFIG.retries),
+    backoff_ms: clampInteger(
+      raw.backoff_ms,
+      MIN_WEBHOOK_BACKOFF_MS,
+      MAX_WEBHOOK_BACKOFF_MS,
+      DEFAULT_WEBHOOK_CONFIG.backoff_ms
+    ),
+  };
+}
+
+// Значения подставляются внутрь JSON-строк, поэтому кавычки и переводы строк экранируются
+export function renderWebhookBody(config: WebhookConfig, context: PromptContext): unknown {
+  const text = renderPromptSegments(config.body, context)
+    .map((segment) => (segment.kind === "text" ? segment.text : JSON.stringify(segment.text).slice(1, -1)))
+    .join("");
+  return JSON.parse(text);
+}
+
+export function validateWebhookHeader(header: WebhookHeader): string | undefined {
+  if (!HEADER_NAME_PATTERN.test(header.name)) return "Имя заголовка — латиница, цифры и дефис";
+  if (RESERVED_HEADERS.includes(header.name.toLowerCase())) return `Заголовок ${header.name} выставляется автоматически`;
+  return undefined;
+}
+
+export function validateWebhookConfig(config: WebhookConfig): string | undefined {
+  try {
+    const url = new URL(config.url);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return "Адрес должен начинаться с http:// или https://";
+  } catch {
+    return config.url ? "Некорректный адрес вебхука" : "Укажите адрес вебхука";
+  }
+
+  const headerError = config.headers.map(validateWebhookHeader).find(Boolean);
+  if (headerError) return headerError;
+  if (config.secret && !HEADER_NAME_PATTERN.test(config.signature_header)) return "Некорректное имя заголовка подписи";
+
+  try {
+    renderWebhookBody(config, { input: "" });
+  } catch {
+    return "Тело запроса — некорректный JSON";
+  }
+  return undefined;
+}
+
+// Для файла экспорта: ключ подписи и Authorization не должны уходить вместе со сценарием
+export function stripWebhookSecrets(config: WebhookConfig): WebhookConfig {
+  return {
+    ...config,
+    secret: "",
+    headers: config.headers.map((header) =>
+      header.name.toLowerCase() === "authorization" ? { ...header, value: "" } : header
+    ),
+  };
+}
+
+export function buildWebhookMetadata(data: BaseNodeData): NodeMetadataEntry[] {
+  const config = normalizeWebhookConfig(data.webhook);
+  let host = "не задан";
+  try {
+    host = new URL(config.url).host;
+  } catch {
+    // адрес ещё не введён
+  }
+
+  return [
+    { label: config.method, value: host },
+    { label: "Подпись", value: config.secret ? "HMAC-SHA256" : "нет" },
+    { label: "Повторы", value: String(config.retries) },
+  ];
+}
@@ -0,0 +1,345 @@
+import type { Edge } from "reactflow";
+
+import type { SiteRecord } from "../lib/api";
+import { canConnect } from "../utils/validation";
+import { NODE_LIBRARY } from "./library";
+import { isRecord } from "./nodes/normalize";
+import { normalizeSiteCheck } from "./nodes/siteCheck";
+import { normalizeSiteUrl } from "./nodes/siteForm";
+import {
+  SWIMLANE_TYPE,
+  isMonitorVariant,
+  isSwimlane,
+  type BaseNodeData,
+  type BlockVariant,
+  type FlowNode,
+  type MonitorProbe,
+  type SiteCheckConfig,
+} from "./nodes/types";
+import { normalizeConditionRule } from "./nodes/condition";
+import { normalizeEmailConfig } from "./nodes/email";
+import { normalizeLlmConfig } from "./nodes/llm";
+import { normalizeNoiseRule } from "./nodes/noise";
+import { normalizeMessengerConfig } from "./nodes/messenger";
+import { normalizeTelegramConfig } from "./nodes/telegram";
+import { normalizeWebhookConfig, stripWebhookSecrets } from "./nodes/webhook";
+import { normalizeProbe } from "./nodes/monitors";
+import { absolutePosition, normalizeSwimlane } from "./nodes/swimlane";
+
+export const FLOW_EXPORT_FORMAT = "pingtower.flow";
+export const FLOW_EXPORT_VERSION = 1;
+
+export type ExportedSite = {
+  url: string;
+  name: string;
+  ping_interval: number;
+  com: Record<string, unknown> | null;
+  check: SiteCheckConfig | null;
+  probe: MonitorProbe | null;
+};
+
+export type ExportedNode = {
+  id: string;
+  type: BlockVariant | typeof SWIMLANE_TYPE;
+  templateId: string;
+  position: { x: number; y: number };
+  data: BaseNodeData;
+  parentNode?: string;
+  site?: ExportedSite;
+};
+
+export type ExportedEdge = {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+};
+
+export type FlowExport = {
+  format: typeof FLOW_EXPORT_FORMAT;
+  version: typeof FLOW_EXPORT_VERSION;
+  exportedAt: string;
+  name: string;
+  nodes: ExportedNode[];
+  edges: ExportedEdge[];
+};
+
+// Кусок сценария в буфере обмена — тот же формат экспорта, только без имени и даты
+export type FlowFragment = Pick<FlowExport, "nodes" | "edges">;
+
+export type ImportConflict = {
+  nodeId: string;
+  url: string;
+  existingSite: SiteRecord;
+};
+
+export type FlowImportPlan = {
+  name: string;
+  nodes: ExportedNode[];
+  edges: ExportedEdge[];
+  conflicts: ImportConflict[];
+  warnings: string[];
+};
+
+export class FlowImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FlowImportError";
+  }
+}
+
+const KNOWN_VARIANTS = new Set<string>([...NODE_LIBRARY.map((template) => template.type), SWIMLANE_TYPE]);
+
+const defaultTemplateId = (type: ExportedNode["type"]) =>
+  NODE_LIBRARY.find((template) => template.type === type)?.templateId ?? type;
+
+// keepSecrets — для копий внутри вкладки, где ключи и адреса доставки никуда не уходят
+export function exportFlow(
+  name: string,
+  nodes: FlowNode[],
+  edges: Edge[],
+  { keepSecrets = false }: { keepSecrets?: boolean } = {}
+): FlowExport {
+  return {
+    format: FLOW_EXPORT_FORMAT,
+    version: FLOW_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    name,
+    nodes: nodes.map((node) => {
+      const type = node.type as ExportedNode["type"];
+      const data: BaseNodeData = { ...node.data };
+      delete data.status;
+
+      const exported: ExportedNode = {
+        id: node.id,
+        type,
+        templateId: node.data.templateId ?? defaultTemplateId(type),
+        position: { x: node.position.x, y: node.position.y },
+        data,
+        ...(node.parentNode && { parentNode: node.parentNode }),
+      };
+
+      if (!keepSecrets) {
+        // ключ API не должен уходить в файл, которым делятся
+        if (data.llm) {
+          data.llm = { ...data.llm, api_key: "" };
+        }
+        // адрес вебхука сам по себе даёт право писать в канал
+        if (data.messenger) {
+          data.messenger = { ...data.messenger, url: "" };
+        }
+        if (data.email) {
+          data.email = { ...data.email, password: "" };
+        }
+        if (data.webhook) {
+          data.webhook = stripWebhookSecrets(data.webhook);
+        }
+      }
+
+      if (isMonitorVariant(type)) {
+        delete data.metadata;
+        exported.site = {
+          url: node.data.description ?? "",
+          name: node.data.title ?? "",
+          ping_interval: node.data.ping_interval ?? 0,
+          com: node.data.com ?? null,
+          check: node.data.check ?? null,
+          probe: node.data.probe ?? null,
+        };
+      }
+
+      return exported;
+    }),
+    edges: edges.map((edge) => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      sourceHandle: edge.sourceHandle ?? null,
+      targetHandle: edge.targetHandle ?? null,
+    })),
+  };
+}
+
+// Выделенные блоки и связи между ними. Группа копируется со всеми своими блоками,
+// а блок без выделенной группы попадает во фрагмент сам по себе, на своём месте холста.
+// Результат — обычный экспорт, поэтому его можно и вставить, и импортировать из файла
+export function exportSelection(
+  name: string,
+  nodes: FlowNode[],
+  edges: Edge[],
+  options: { keepSecrets?: boolean } = {}
+): FlowExport {
+  const laneIds = new Set(nodes.filter((node) => node.selected && isSwimlane(node)).map((node) => node.id));
+  const picked = nodes
+    .filter((node) => node.selected || (node.parentNode !== undefined && laneIds.has(node.parentNode)))
+    .map((node) =>
+      node.parentNode && !laneIds.has(node.parentNode)
+        ? { ...node, parentNode: undefined, position: absolutePosition(node, nodes) }
+        : node
+    );
+  const pickedIds = new Set(picked.map((node) => node.id));
+  const inner = edges.filter((edge) => pickedIds.has(edge.source) && pickedIds.has(edge.target));
+
+  return exportFlow(name, picked, inner, options);
+}
+
+const isPosition = (value: unknown): value is { x: number; y: number } =>
+  isRecord(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+
+// Настройки блоков из файла приводятся к полному виду; данные остальных блоков переносятся как есть
+const DATA_NORMALIZERS: Partial<Record<ExportedNode["type"], (data: BaseNodeData) => BaseNodeData>> = {
+  llm: (data) => ({ ...data, llm: normalizeLlmConfig(data.llm) }),
+  telegram: (data) => ({ ...data, telegram: normalizeTelegramConfig(data.telegram) }),
+  messenger: (data) => ({ ...data, messenger: normalizeMessengerConfig(data.messenger) }),
+  email: (data) => ({ ...data, email: normalizeEmailConfig(data.email) }),
+  webhook: (data) => ({ ...data, webhook: normalizeWebhookConfig(data.webhook) }),
+  condition: (data) => ({ ...data, condition: normalizeConditionRule(data.condition) }),
+  noise: (data) => ({ ...data, noise: normalizeNoiseRule(data.noise) }),
+  [SWIMLANE_TYPE]: (data) => ({ ...data, swimlane: normalizeSwimlane(data.swimlane) }),
+};
+
+const normalizeNodeData = (type: ExportedNode["type"], data: BaseNodeData) =>
+  DATA_NORMALIZERS[type]?.(data) ?? data;
+
+// Проверяет файл экспорта и готовит план импорта: битые узлы и запрещённые
+// связи отбрасываются с предупреждением, совпадения URL с существующими
+// сайтами возвращаются как конфликты — решение по ним принимает пользователь.
+export function planFlowImport(raw: string, existingSites: SiteRecord[]): FlowImportPlan {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new FlowImportError("Файл не является корректным JSON");
+  }
+
+  if (!isRecord(parsed) || parsed.format !== FLOW_EXPORT_FORMAT) {
+    throw new FlowImportError("Это не файл сценария PingTower");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > FLOW_EXPORT_VERSION) {
+    throw new FlowImportError(
+      `Версия формата ${String(parsed.version)} не поддерживается (ожидается ≤ ${FLOW_EXPORT_VERSION})`
+    );
+  }
+  if (!Array.isArray(parsed.nodes) || !Array.isArray(parsed.edges)) {
+    throw new FlowImportError("В файле нет списка узлов или связей");
+  }
+
+  const warnings: string[] = [];
+  const nodes: ExportedNode[] = [];
+  const seenIds = new Set<string>();
+
+  parsed.nodes.forEach((candidate, index) => {
+    if (
+      !isRecord(candidate) ||
+      typeof candidate.id !== "string" ||
+      typeof candidate.type !== "string" ||
+      !isPosition(candidate.position) ||
+      !isRecord(candidate.data)
+    ) {
+      warnings.push(`Узел №${index + 1} повреждён и пропущен`);
+      return;
+    }
+    if (!KNOWN_VARIANTS.has(candidate.type)) {
+      warnings.push(`Узел «${candidate.id}»: неизвестный тип «${candidate.type}», пропущен`);
+      return;
+    }
+    if (seenIds.has(candidate.id)) {
+      warnings.push(`Узел «${candidate.id}» встречается дважды, повтор пропущен`);
+      return;
+    }
+
+    const type = candidate.type as ExportedNode["type"];
+    const site = isRecord(candidate.site) ? candidate.site : undefined;
+    if (isMonitorVariant(type) && (typeof site?.url !== "string" || !site.url.trim())) {
+      warnings.push(`Сайт «${candidate.id}» без URL пропущен`);
+      return;
+    }
+
+    seenIds.add(candidate.id);
+    nodes.push({
+      id: candidate.id,
+      type,
+      templateId:
+        typeof candidate.templateId === "string" ? candidate.templateId : defaultTemplateId(type),
+      position: candidate.position,
+      data: normalizeNodeData(type, candidate.data as BaseNodeData),
+      ...(typeof candidate.parentNode === "string" && { parentNode: candidate.parentNode }),
+      site:
+        isMonitorVariant(type) && site
+          ? {
+              url: String(site.url).trim(),
+              name: typeof site.name === "string" && site.name.trim() ? site.name : String(site.url),
+              ping_interval: Number(site.ping_interval) || 0,
+              com: isRecord(site.com) ? site.com : null,
+              check: type === "website" ? normalizeSiteCheck(site.check) ?? null : null,
+              probe: normalizeProbe(type, site.probe) ?? null,
+            }
+          : undefined,
+    });
+  });
+
+  // группа могла не попасть в файл — тогда блок остаётся без неё
+  const laneIds = new Set(nodes.filter(isSwimlane).map((node) => node.id));
+  nodes.forEach((node) => {
+    if (node.parentNode && !laneIds.has(node.parentNode)) {
+      warnings.push(`Узел «${node.id}»: группа «${node.parentNode}» не найдена, узел вынесен из неё`);
+      delete node.parentNode;
+    }
+  });
+
+  // Связи проверяются теми же правилами, что и при соединении на канвасе
+  const flowNodes: FlowNode[] = nodes.map((node) => ({
+    id: node.id,
+    type: node.type,
+    position: node.position,
+    data: node.data,
+  }));
+  const edges: ExportedEdge[] = [];
+
+  parsed.edges.forEach((candidate, index) => {
+    if (
+      !isRecord(candidate) ||
+      typeof candidate.source !== "string" ||
+      typeof candidate.target !== "string"
+    ) {
+      warnings.push(`Связь №${index + 1} повреждена и пропущена`);
+      return;
+    }
+
+    const edge: ExportedEdge = {
+      id: typeof candidate.id === "string" ? candidate.id : `edge-${index}`,
+      source: candidate.source,
+      target: candidate.target,
+      sourceHandle: typeof candidate.sourceHandle === "string" ? candidate.sourceHandle : null,
+      targetHandle: typeof candidate.targetHandle === "string" ? candidate.targetHandle : null,
+    };
+
+    const connection = {
+      source: edge.source,
+      target: edge.target,
+      sourceHandle: edge.sourceHandle ?? null,
+      targetHandle: edge.targetHandle ?? null,
+    };
+    if (!canConnect(connection, { nodes: flowNodes, edges })) {
+      warnings.push(`Связь ${edge.source} → ${edge.target} недопустима и пропущена`);
+      return;
+    }
+    edges.push(edge);
+  });
+
+  const sitesByUrl = new Map(existingSites.map((site) => [normalizeSiteUrl(site.url), site]));
+  const conflicts: ImportConflict[] = nodes.flatMap((node) => {
+    if (!node.site) return [];
+    const existingSite = sitesByUrl.get(normalizeSiteUrl(node.site.url));
+    return existingSite ? [{ nodeId: node.id, url: node.site.url, existingSite }] : [];
+  });
+
+  return {
+    name: typeof parsed.name === "string" && parsed.name.trim() ? parsed.name : "Импортированный сценарий",
+    nodes,
+    edges,
+    conflicts,
+    warnings,
+  };
+}
@@ -1,50 +1,273 @@
 // src/lib/api.ts
+import type { EmailMessage } from "../flow/nodes/email";
+import {
+  MAX_PING_INTERVAL,
+  type EmailConfig,
+  type MonitorProbe,
+  type SiteCheckConfig,
+  type SiteKind,
+  type TelegramParseMode,
+  type TelegramTarget,
+} from "../flow/nodes/types";
+import type { LogRecord } from "../utils/stats";
+import { apiUrl } from "./config";
+import { request, type RequestOptions } from "./http";
+
+export {
+  ApiCancelledError,
+  ApiError,
+  ApiNetworkError,
+  ApiTimeoutError,
+  isCancelledError,
+  type RequestOptions,
+} from "./http";
+
 export type SiteRecord = {
   id: number;
   url: string;
   name: string;
   ping_interval: number;
+  // отсутствует у сайтов, заведённых до появления не-HTTP проверок
+  kind?: SiteKind;
+  com?: Record<string, unknown> | null;
+  check?: SiteCheckConfig | null;
+  probe?: MonitorProbe | null;
+};
+
+export type SiteParams = {
   com?: Record<string, unknown> | null;
+  check?: SiteCheckConfig | null;
+  probe?: MonitorProbe | null;
 };
 
-export async function fetchSites() {
-  const res = await fetch("http://localhost:8000/sites");
-  if (!res.ok) throw new Error("Ошибка при загрузке сайтов");
-  return res.json() as Promise<SiteRecord[]>;
+export function fetchSites(options?: RequestOptions) {
+  return request<SiteRecord[]>("/sites", { ...options, context: "Ошибка при загрузке сайтов" });
 }
 
-export async function createSite(url: string, name: string, ping_interval = 30) {
-  const res = await fetch("http://localhost:8000/sites", {
+export function createSite(
+  url: string,
+  name: string,
+  ping_interval = 30,
+  kind: SiteKind = "http",
+  options?: RequestOptions
+) {
+  return request<SiteRecord>("/sites", {
+    ...options,
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ url, name, ping_interval }),
+    body: { url, name, ping_interval, kind },
+    context: "Ошибка при создании сайта",
   });
-  if (!res.ok) throw new Error("Ошибка при создании сайта");
-  return res.json() as Promise<SiteRecord>;
 }
 
-export async function updateSite(id: number, data: { url: string; name: string; ping_interval: number }) {
-  const res = await fetch(`http://localhost:8000/sites/${id}`, {
+export function updateSite(
+  id: number,
+  data: { url: string; name: string; ping_interval: number },
+  options?: RequestOptions
+) {
+  return request<SiteRecord>(`/sites/${id}`, {
+    ...options,
     method: "PUT",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(data),
+    body: data,
+    context: "Ошибка при обновлении сайта",
   });
-  if (!res.ok) throw new Error("Ошибка при обновлении сайта");
-  return res.json() as Promise<SiteRecord>;
 }
 
-export async function deleteSite(id: number) {
-  const res = await fetch(`http://localhost:8000/sites/${id}`, { method: "DELETE" });
-  if (!res.ok) throw new Error("Ошибка при удалении сайта");
+export async function deleteSite(id: number, options?: RequestOptions) {
+  await request<void>(`/sites/${id}`, {
+    ...options,
+    method: "DELETE",
+    context: "Ошибка при удалении сайта",
+  });
   return true;
 }
 
-export async function patchSiteParams(id: number, params: { com?: Record<string, unknown> | null }) {
-  const res = await fetch(`http://localhost:8000/sites/${id}/params`, {
+export function patchSiteParams(
+  id: number,
+  params: SiteParams,
+  options?: RequestOptions
+) {
+  return request<SiteRecord>(`/sites/${id}/params`, {
+    ...options,
+    method: "PATCH",
+    body: params,
+    context: "Ошибка при обновлении параметров сайта",
+  });
+}
+
+export type FlowNodeRecord = {
+  id: string;
+  type: string;
+  position: { x: number; y: number };
+  data: Record<string, unknown>;
+  // группа, в которой лежит блок; позиция тогда отсчитывается от неё
+  parentNode?: string | null;
+};
+
+export type FlowEdgeRecord = {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+};
+
+export type FlowDocument = {
+  name: string;
+  nodes: FlowNodeRecord[];
+  edges: FlowEdgeRecord[];
+  updated_at?: string | null;
+};
+
+export type FlowRecord = FlowDocument & { id: string };
+
+export type FlowSummary = {
+  id: string;
+  name: string;
+  updated_at?: string | null;
+  site_ids: number[];
+};
+
+export function fetchFlows(options?: RequestOptions) {
+  return request<FlowSummary[]>("/flows", {
+    ...options,
+    context: "Ошибка при загрузке списка сценариев",
+  });
+}
+
+export function fetchFlowDocument(id: string, options?: RequestOptions) {
+  return request<FlowRecord>(`/flows/${id}`, { ...options, context: "Ошибка при загрузке сценария" });
+}
+
+export function createFlowDocument(document: FlowDocument, options?: RequestOptions) {
+  return request<FlowRecord>("/flows", {
+    ...options,
+    method: "POST",
+    body: document,
+    context: "Ошибка при создании сценария",
+  });
+}
+
+export function saveFlowDocument(id: string, document: FlowDocument, options?: RequestOptions) {
+  return request<FlowRecord>(`/flows/${id}`, {
+    ...options,
+    method: "PUT",
+    body: document,
+    context: "Ошибка при сохранении сценария",
+  });
+}
+
+export function renameFlowDocument(id: string, name: string, options?: RequestOptions) {
+  return request<FlowSummary>(`/flows/${id}`, {
+    ...options,
     method: "PATCH",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(params),
+    body: { name },
+    context: "Ошибка при переименовании сценария",
+  });
+}
+
+export async function deleteFlowDocument(id: string, options?: RequestOptions) {
+  await request<void>(`/flows/${id}`, {
+    ...options,
+    method: "DELETE",
+    context: "Ошибка при удалении сценария",
+  });
+  return true;
+}
+
+// Тестовое сообщение уходит через бота сервера сразу, без учёта тихих часов
+export function sendTelegramTest(
+  payload: { chats: TelegramTarget[]; text: string; parse_mode: TelegramParseMode },
+  options?: RequestOptions
+) {
+  return request<void>("/telegram/test", {
+    ...options,
+    method: "POST",
+    body: payload,
+    context: "Ошибка отправки тестового сообщения",
+  });
+}
+
+// Входящие вебхуки Slack, Teams и Mattermost не отвечают на CORS-preflight, поэтому
+// запрос делает сервер; повторов нет — сообщение не должно прийти дважды
+export function sendMessengerWebhook(url: string, payload: unknown, options?: RequestOptions) {
+  return request<void>("/messenger/send", {
+    ...options,
+    method: "POST",
+    body: { url, payload },
+    context: "Ошибка отправки в мессенджер",
+    timeoutMs: 30_000,
+  });
+}
+
+// Письмо отправляет сервер: браузер не умеет ходить по SMTP
+export function sendEmail(config: EmailConfig, message: EmailMessage, options?: RequestOptions) {
+  return request<void>("/email/send", {
+    ...options,
+    method: "POST",
+    body: {
+      smtp: {
+        host: config.host,
+        port: config.port,
+        security: config.security,
+        username: config.username || null,
+        password: config.password || null,
+      },
+      from: config.from,
+      to: config.to,
+      subject: message.subject,
+      body: message.body,
+    },
+    context: "Ошибка отправки письма",
+    timeoutMs: 30_000,
   });
-  if (!res.ok) throw new Error("Ошибка при обновлении параметров сайта");
-  return res.json() as Promise<SiteRecord>;
+}
+
+// Адрес, на который задача отправляет сигнал «жива» (GET или POST без тела)
+export function heartbeatPushUrl(token: string) {
+  return apiUrl(`/heartbeat/${encodeURIComponent(token)}`);
+}
+
+export type LogsQuery = {
+  url?: string;
+  since?: string;
+  limit?: number;
+};
+
+export async function fetchLogs(query: LogsQuery = {}, options?: RequestOptions) {
+  const logs = await request<LogRecord[] | null>("/logs", {
+    ...options,
+    query,
+    context: "Ошибка при загрузке логов",
+  });
+  return Array.isArray(logs) ? logs : [];
+}
+
+const byNewest = (a: LogRecord, b: LogRecord) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+// короткое окно покрывает частые проверки; редким сайтам нужно окно в count их интервалов
+const RECENT_LOGS_WINDOW_MS = 15 * 60_000;
+
+export type RecentLogsOptions = RequestOptions & {
+  // самый долгий ожидаемый промежуток между записями сайта, сек; у heartbeat это period + grace
+  maxGap?: number;
+};
+
+// Последние count проверок сайта, новые первыми. Сервер не гарантирует порядок, поэтому
+// limit не передаём: берём все записи за окно и сортируем сами
+export async function fetchRecentLogs(url: string, count: number, options: RecentLogsOptions = {}) {
+  const { maxGap = MAX_PING_INTERVAL, ...requestOptions } = options;
+  const since = (windowMs: number) => new Date(Date.now() - windowMs).toISOString();
+
+  let logs = await fetchLogs({ url, since: since(RECENT_LOGS_WINDOW_MS) }, requestOptions);
+  if (logs.length < count) {
+    const gap = Math.max(maxGap, MAX_PING_INTERVAL);
+    logs = await fetchLogs({ url, since: since((count + 1) * gap * 1000) }, requestOptions);
+  }
+  return logs.sort(byNewest).slice(0, count);
+}
+
+// Последняя проверка сайта
+export async function fetchLatestLog(url: string, options?: RecentLogsOptions) {
+  const [latest] = await fetchRecentLogs(url, 1, options);
+  return latest ?? null;
 }
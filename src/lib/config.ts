@@ -0,0 +1,76 @@
+import { create } from "zustand";
+
+export type ApiProfileId = "local" | "staging" | "production";
+
+export type ApiProfile = {
+  id: ApiProfileId;
+  label: string;
+  baseUrl: string;
+};
+
+const PROFILE_STORAGE_KEY = "pingtower.apiProfile";
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, "");
+
+// Адреса профилей задаются при сборке (VITE_API_URL_*); профиль без адреса недоступен
+export const API_PROFILES: ApiProfile[] = [
+  {
+    id: "local",
+    label: "Локально",
+    baseUrl: trimSlash(import.meta.env.VITE_API_URL_LOCAL ?? "http://localhost:8000"),
+  },
+  {
+    id: "staging",
+    label: "Стенд",
+    baseUrl: trimSlash(import.meta.env.VITE_API_URL_STAGING ?? ""),
+  },
+  {
+    id: "production",
+    label: "Прод",
+    baseUrl: trimSlash(import.meta.env.VITE_API_URL_PRODUCTION ?? ""),
+  },
+];
+
+const isAvailable = (id: string | null | undefined): id is ApiProfileId =>
+  API_PROFILES.some((profile) => profile.id === id && profile.baseUrl !== "");
+
+const resolveInitialProfile = (): ApiProfileId => {
+  if (typeof window !== "undefined") {
+    const stored = window.localStorage.getItem(PROFILE_STORAGE_KEY);
+    if (isAvailable(stored)) return stored;
+  }
+
+  const fromBuild = import.meta.env.VITE_API_PROFILE;
+  return isAvailable(fromBuild) ? fromBuild : "local";
+};
+
+type ApiConfigStore = {
+  profileId: ApiProfileId;
+  baseUrl: string;
+  setProfile: (id: ApiProfileId) => void;
+};
+
+const findProfile = (id: ApiProfileId) =>
+  API_PROFILES.find((profile) => profile.id === id) ?? API_PROFILES[0];
+
+export const useApiConfig = create<ApiConfigStore>((set) => {
+  const initial = findProfile(resolveInitialProfile());
+
+  return {
+    profileId: initial.id,
+    baseUrl: initial.baseUrl,
+    setProfile: (id) => {
+      if (!isAvailable(id)) return;
+      window.localStorage.setItem(PROFILE_STORAGE_KEY, id);
+      set({ profileId: id, baseUrl: findProfile(id).baseUrl });
+    },
+  };
+});
+
+export function apiUrl(path: string): string {
+  return `${useApiConfig.getState().baseUrl}${path}`;
+}
+
+export function isApiProfileAvailable(id: ApiProfileId): boolean {
+  return isAvailable(id);
+}
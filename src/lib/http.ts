@@ -0,0 +1,184 @@
+import { apiUrl } from "./config";
+
+export const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+
+// Ответ сервера с кодом ошибки; `serverMessage` — текст из тела ответа, если он есть
+export class ApiError extends Error {
+  readonly status: number;
+  readonly serverMessage?: string;
+  readonly path: string;
+
+  constructor(context: string, status: number, path: string, serverMessage?: string) {
+    super(serverMessage ? `${context} (${status}): ${serverMessage}` : `${context} (${status})`);
+    this.name = "ApiError";
+    this.status = status;
+    this.serverMessage = serverMessage;
+    this.path = path;
+  }
+}
+
+export class ApiTimeoutError extends Error {
+  readonly path: string;
+
+  constructor(context: string, path: string, timeoutMs: number) {
+    super(`${context}: сервер не ответил за ${Math.round(timeoutMs / 1000)} сек`);
+    this.name = "ApiTimeoutError";
+    this.path = path;
+  }
+}
+
+export class ApiNetworkError extends Error {
+  readonly path: string;
+
+  constructor(context: string, path: string) {
+    super(`${context}: сервер недоступен`);
+    this.name = "ApiNetworkError";
+    this.path = path;
+  }
+}
+
+export class ApiCancelledError extends Error {
+  constructor() {
+    super("Запрос отменён");
+    this.name = "ApiCancelledError";
+  }
+}
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+};
+
+type RequestConfig = RequestOptions & {
+  method?: HttpMethod;
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // контекст для сообщения об ошибке, например «Ошибка при загрузке сайтов»
+  context: string;
+};
+
+// Абсолютные адреса (внешние API) запрашиваются как есть, остальные — от базового адреса профиля
+const ABSOLUTE_URL_PATTERN = /^https?:\/\//i;
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ["GET", "PUT", "DELETE"];
+
+const isRetryable = (err: unknown) =>
+  err instanceof ApiTimeoutError ||
+  err instanceof ApiNetworkError ||
+  (err instanceof ApiError && (err.status >= 500 || err.status === 429));
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new ApiCancelledError());
+      },
+      { once: true }
+    );
+  });
+
+const readServerMessage = async (res: Response): Promise<string | undefined> => {
+  const text = await res.text().catch(() => "");
+  if (!text) return undefined;
+
+  try {
+    const payload = JSON.parse(text) as Record<string, unknown>;
+    const detail = payload.detail ?? payload.message ?? payload.error;
+    if (typeof detail === "string") return detail;
+    if (detail !== undefined) return JSON.stringify(detail);
+  } catch {
+    // не JSON — отдаём как есть
+  }
+
+  return text.slice(0, 300);
+};
+
+const buildPath = (path: string, query?: RequestConfig["query"]) => {
+  if (!query) return path;
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+async function attempt<T>(path: string, config: RequestConfig): Promise<T> {
+  // отменённый заранее запрос не уходит вовсе: событие abort уже не придёт
+  if (config.signal?.aborted) throw new ApiCancelledError();
+
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  config.signal?.addEventListener("abort", forwardAbort, { once: true });
+
+  try {
+    const res = await fetch(ABSOLUTE_URL_PATTERN.test(path) ? path : apiUrl(path), {
+      method: config.method ?? "GET",
+      headers: {
+        ...(config.body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...config.headers,
+      },
+      body: config.body !== undefined ? JSON.stringify(config.body) : undefined,
+      signal: controller.signal,
+    });
+
+    if (!res.ok) {
+      throw new ApiError(config.context, res.status, path, await readServerMessage(res));
+    }
+    if (res.status === 204) return undefined as T;
+
+    const text = await res.text();
+    if (!text) return undefined as T;
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      // вебхуки мессенджеров отвечают простым текстом, например «ok»
+      return text as T;
+    }
+  } catch (err) {
+    if (err instanceof ApiError) throw err;
+    if (timedOut) throw new ApiTimeoutError(config.context, path, timeoutMs);
+    if (config.signal?.aborted) throw new ApiCancelledError();
+    throw new ApiNetworkError(config.context, path);
+  } finally {
+    clearTimeout(timer);
+    config.signal?.removeEventListener("abort", forwardAbort);
+  }
+}
+
+// Повторяются только идемпотентные запросы — и только при таймауте,
+// недоступности сервера, 5xx или 429; паузы растут вдвое.
+export async function request<T>(path: string, config: RequestConfig): Promise<T> {
+  const method = config.method ?? "GET";
+  const retries = IDEMPOTENT_METHODS.includes(method) ? config.retries ?? DEFAULT_RETRIES : 0;
+  const fullPath = buildPath(path, config.query);
+
+  for (let attemptIndex = 0; ; attemptIndex += 1) {
+    try {
+      return await attempt<T>(fullPath, config);
+    } catch (err) {
+      if (attemptIndex >= retries || !isRetryable(err)) throw err;
+      await wait(RETRY_BASE_DELAY_MS * 2 ** attemptIndex, config.signal);
+    }
+  }
+}
+
+export function isCancelledError(err: unknown): boolean {
+  return err instanceof ApiCancelledError;
+}
@@ -0,0 +1,37 @@
+import { resolveLlmEndpoint } from "../flow/nodes/llm";
+import type { LlmConfig } from "../flow/nodes/types";
+import { request, type RequestOptions } from "./http";
+
+const LLM_TIMEOUT_MS = 60_000;
+
+type ChatCompletionResponse = {
+  choices?: { message?: { content?: string | null } }[];
+};
+
+// Запрос к OpenAI-совместимому /chat/completions; заглушка local отвечает самим промптом,
+// чтобы сценарий можно было прогнать без ключей и сети
+export async function completeChat(config: LlmConfig, prompt: string, options?: RequestOptions): Promise<string> {
+  if (config.provider === "local") {
+    return `[заглушка LLM] ${prompt}`;
+  }
+
+  const response = await request<ChatCompletionResponse>(`${resolveLlmEndpoint(config)}/chat/completions`, {
+    method: "POST",
+    body: {
+      model: config.model,
+      temperature: config.temperature,
+      max_tokens: config.max_tokens,
+      messages: [{ role: "user", content: prompt }],
+    },
+    headers: config.api_key ? { Authorization: `Bearer ${config.api_key}` } : undefined,
+    context: `Ошибка запроса к LLM (${config.model})`,
+    timeoutMs: LLM_TIMEOUT_MS,
+    ...options,
+  });
+
+  const content = response?.choices?.[0]?.message?.content;
+  if (typeof content !== "string") {
+    throw new Error("LLM вернула ответ без текста");
+  }
+  return content.trim();
+}
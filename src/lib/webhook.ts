@@ -0,0 +1,79 @@
+import type { WebhookConfig } from "../flow/nodes/types";
+import { ApiError, isCancelledError, request } from "./http";
+
+const WEBHOOK_TIMEOUT_MS = 15_000;
+const RESPONSE_SNIPPET_LENGTH = 200;
+
+// Одна попытка доставки исходящего вебхука — для истории в инспекторе
+export type WebhookAttempt = {
+  at: string;
+  ok: boolean;
+  // null — ответа не было: таймаут или сеть
+  status: number | null;
+  latency_ms: number;
+  response: string;
+};
+
+type WebhookRelayResult = {
+  attempts: WebhookAttempt[];
+};
+
+const snippetOf = (value: unknown) => {
+  const text = typeof value === "string" ? value : value === undefined ? "" : JSON.stringify(value);
+  return text.length > RESPONSE_SNIPPET_LENGTH ? `${text.slice(0, RESPONSE_SNIPPET_LENGTH)}…` : text;
+};
+
+// Запрос во внешнюю систему делает сервер: Authorization и заголовок подписи вызывают
+// CORS-preflight, на который трекеры не отвечают. Сервер же подписывает тело секретом блока
+// и повторяет запрос по его политике (POST тоже — получатель должен быть готов к дублям),
+// а в ответе отдаёт все попытки; каждая попадает в onAttempt.
+export async function sendSignedWebhook(
+  config: WebhookConfig,
+  body: unknown,
+  options: { signal?: AbortSignal; onAttempt?: (attempt: WebhookAttempt) => void } = {}
+): Promise<void> {
+  const startedAt = performance.now();
+  const at = new Date().toISOString();
+  // ожидание сервера — все попытки с паузами между ними
+  const timeoutMs = WEBHOOK_TIMEOUT_MS * (config.retries + 1) + config.backoff_ms * (2 ** config.retries - 1);
+
+  let result: WebhookRelayResult | null;
+  try {
+    result = await request<WebhookRelayResult | null>("/webhooks/send", {
+      method: "POST",
+      body: {
+        url: config.url,
+        method: config.method,
+        headers: config.headers,
+        body,
+        secret: config.secret || null,
+        signature_header: config.signature_header,
+        retries: config.retries,
+        backoff_ms: config.backoff_ms,
+        timeout_ms: WEBHOOK_TIMEOUT_MS,
+      },
+      context: "Ошибка доставки вебхука",
+      timeoutMs,
+      signal: options.signal,
+    });
+  } catch (err) {
+    if (isCancelledError(err)) throw err;
+    // до получателя запрос не дошёл — в истории это попытка без ответа
+    options.onAttempt?.({
+      at,
+      ok: false,
+      status: null,
+      latency_ms: Math.round(performance.now() - startedAt),
+      response: snippetOf(err instanceof ApiError ? err.serverMessage : err instanceof Error ? err.message : err),
+    });
+    throw err;
+  }
+
+  const attempts = Array.isArray(result?.attempts) ? result.attempts : [];
+  attempts.forEach((attempt) => options.onAttempt?.({ ...attempt, response: snippetOf(attempt.response) }));
+
+  const last = attempts[attempts.length - 1];
+  if (!last?.ok) {
+    throw new Error(`Вебхук не доставлен: ${last?.status ?? "нет ответа"}`);
+  }
+}
@@ -1,5 +1,4 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import axios, { CanceledError } from "axios";
 import clsx from "clsx";
 import {
   aggregateTrafficLight,
@@ -29,8 +28,18 @@ import {
 import { LogDetailsDrawer } from "@/components/dashboard/LogDetailsDrawer";
 import { IncidentBanner } from "@/components/dashboard/IncidentBanner";
 import { Check, ChevronDown, RefreshCw } from "lucide-react";
-
-const API_URL = "http://localhost:8000";
+import { useApiConfig } from "@/lib/config";
+import { useFlowStore } from "@/state/store";
+import { readAssertions } from "@/flow/nodes/assertions";
+import {
+  ApiError,
+  ApiNetworkError,
+  ApiTimeoutError,
+  fetchLogs,
+  fetchSites,
+  isCancelledError,
+  type SiteRecord,
+} from "@/lib/api";
 
 const TIME_RANGES = [
   { value: "1s", label: "1 сек", durationMs: 1_000 },
@@ -65,10 +74,7 @@ const buildTrend = (series: ChartPoint[], limit = 120) => {
 };
 
 
-type Site = {
-  name: string;
-  url: string;
-};
+type Site = Pick<SiteRecord, "name" | "url" | "com">;
 
 const getInitials = (site: Site) => {
   if (site.name) {
@@ -100,6 +106,12 @@ const getHostname = (site: Site) => {
   }
 };
 
+// Типизированные ошибки клиента несут статус и текст сервера — показываем их как есть
+const describeError = (err: unknown, fallback: string) =>
+  err instanceof ApiError || err instanceof ApiTimeoutError || err instanceof ApiNetworkError
+    ? err.message
+    : fallback;
+
 const formatMs = (value: number | null) => (value === null ? "—" : `${Math.round(value)} мс`);
 const formatPercent = (value: number | null, digits = 1) =>
   value === null ? "—" : `${value.toFixed(digits)}%`;
@@ -108,6 +120,7 @@ const formatDays = (value: number | null, digits = 1) =>
 
 export default function DashboardPage() {
   // --- state (без изменений)
+  const apiBaseUrl = useApiConfig((s) => s.baseUrl);
   const [sites, setSites] = useState<Site[]>([]);
   const [selectedSiteUrl, setSelectedSiteUrl] = useState<string>("");
   const [timeRange, setTimeRange] = useState<(typeof TIME_RANGES)[number]["value"]>("1m");
@@ -125,6 +138,7 @@ export default function DashboardPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [limit, setLimit] = useState(DEFAULT_LIMIT);
   const [selectedLog, setSelectedLog] = useState<LogRecord | null>(null);
+  const setPromptSample = useFlowStore((s) => s.setPromptSample);
   const [sitePickerOpen, setSitePickerOpen] = useState(false);
   const sitePickerRef = useRef<HTMLDivElement | null>(null);
   const timeRangeConfig = useMemo(
@@ -133,51 +147,40 @@ export default function DashboardPage() {
   );
 
   useEffect(() => {
-    let isMounted = true;
+    const controller = new AbortController();
     const loadSites = async () => {
       try {
-        const response = await axios.get<Site[]>(`${API_URL}/sites`);
-        if (!isMounted) return;
-        setSites(response.data);
-        if (response.data.length > 0) {
-          setSelectedSiteUrl((current) => current || response.data[0].url);
-        }
+        const payload = await fetchSites({ signal: controller.signal });
+        setSites(payload);
+        setSelectedSiteUrl((current) =>
+          payload.some((site) => site.url === current) ? current : payload[0]?.url ?? ""
+        );
       } catch (err) {
+        if (isCancelledError(err)) return;
         console.error("Failed to load sites", err);
-        if (isMounted) {
-          setOverviewError("Не удалось загрузить список сайтов");
-        }
+        setOverviewError(describeError(err, "Не удалось загрузить список сайтов"));
       }
     };
 
     loadSites();
-    return () => {
-      isMounted = false;
-    };
-  }, []);
+    return () => controller.abort();
+  }, [apiBaseUrl]);
 
   const fetchOverviewData = useCallback(
     async (signal?: AbortSignal) => {
       setIsOverviewLoading(true);
       const since = new Date(Date.now() - timeRangeConfig.durationMs).toISOString();
       try {
-        const response = await axios.get<LogRecord[]>(`${API_URL}/logs`, {
-          params: {
-            since,
-            limit: OVERVIEW_LIMIT,
-          },
-          signal,
-        });
+        const payload = await fetchLogs({ since, limit: OVERVIEW_LIMIT }, { signal });
         if (signal?.aborted) return;
-        const payload = Array.isArray(response.data) ? response.data : [];
         setOverviewLogs(payload);
         setOverviewError(null);
       } catch (err) {
-        if (err instanceof CanceledError || signal?.aborted) {
+        if (isCancelledError(err) || signal?.aborted) {
           return;
         }
         console.error("Failed to load overview", err);
-        setOverviewError("Не удалось загрузить общую статистику");
+        setOverviewError(describeError(err, "Не удалось загрузить общую статистику"));
       } finally {
         if (!signal?.aborted) {
           setIsOverviewLoading(false);
@@ -199,27 +202,19 @@ export default function DashboardPage() {
       const since = new Date(Date.now() - timeRangeConfig.durationMs).toISOString();
 
       try {
-        const response = await axios.get<LogRecord[]>(`${API_URL}/logs`, {
-          params: {
-            url: selectedSiteUrl,
-            limit,
-            since,
-          },
-          signal,
-        });
+        const payload = await fetchLogs({ url: selectedSiteUrl, limit, since }, { signal });
 
         if (signal?.aborted) return;
 
-        const payload = Array.isArray(response.data) ? response.data : [];
         setLogs(payload);
         setError(null);
         setLastUpdated(new Date());
       } catch (err) {
-        if (err instanceof CanceledError || signal?.aborted) {
+        if (isCancelledError(err) || signal?.aborted) {
           return;
         }
         console.error("Failed to load site dashboard", err);
-        setError("Не удалось загрузить данные сайта");
+        setError(describeError(err, "Не удалось загрузить данные сайта"));
       } finally {
         if (!signal?.aborted) {
           setIsSiteLoading(false);
@@ -233,13 +228,14 @@ export default function DashboardPage() {
     const controller = new AbortController();
     fetchOverviewData(controller.signal);
     return () => controller.abort();
-  }, [fetchOverviewData]);
+    // смена профиля API — повод перезагрузить данные
+  }, [apiBaseUrl, fetchOverviewData]);
 
   useEffect(() => {
     const controller = new AbortController();
     fetchSiteData(controller.signal);
     return () => controller.abort();
-  }, [fetchSiteData]);
+  }, [apiBaseUrl, fetchSiteData]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -327,6 +323,8 @@ export default function DashboardPage() {
     [sites, selectedSiteUrl],
   );
 
+  const selectedAssertions = useMemo(() => readAssertions(selectedSite?.com), [selectedSite]);
+
   useEffect(() => {
     setSitePickerOpen(false);
   }, [selectedSiteUrl]);
@@ -828,6 +826,12 @@ export default function DashboardPage() {
         onClose={() => setSelectedLog(null)}
         latencyTrend={latencyDrawerTrend}
         pingTrend={pingDrawerTrend}
+        assertions={selectedAssertions}
+        onUseAsPromptSample={
+          selectedSite
+            ? (log) => setPromptSample({ site: { name: selectedSite.name, url: selectedSite.url }, log })
+            : undefined
+        }
       />
     </div>
   );
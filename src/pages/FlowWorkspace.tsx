@@ -1,17 +1,20 @@
 // FlowWorkspace.tsx
 import { useEffect } from "react";
+import { useApiConfig } from "../lib/config";
 import { useFlowStore } from "../state/store";
 import FlowCanvas from "../flow/FlowCanvas";
 import Inspector from "../components/Inspector";
 import NodeLibrary from "../components/NodeLibrary";
+import SiteFormDialog from "../components/SiteFormDialog";
 import Toolbar from "../components/Toolbar";
 
 export default function FlowWorkspace() {
   const initFromDb = useFlowStore((s) => s.initFromDb);
+  const apiBaseUrl = useApiConfig((s) => s.baseUrl);
 
   useEffect(() => {
-    initFromDb(); // 🔹 при входе сразу подтянем сайты
-  }, [initFromDb]);
+    initFromDb(); // 🔹 при входе и при смене профиля API сразу подтянем сценарии
+  }, [apiBaseUrl, initFromDb]);
 
   return (
     <div className="flex flex-1 flex-col overflow-hidden">
@@ -24,6 +27,7 @@ export default function FlowWorkspace() {
         </main>
         <Inspector />
       </div>
+      <SiteFormDialog />
     </div>
   );
 }
@@ -0,0 +1,46 @@
+import type { Edge } from "reactflow";
+
+import { isMonitorVariant, type FlowNode } from "../flow/nodes/types";
+
+export const HISTORY_LIMIT = 50;
+// Серия однотипных правок (ввод в инспекторе, удаление выделения) укладывается в один шаг
+export const HISTORY_MERGE_WINDOW_MS = 1000;
+
+export type FlowSnapshot = {
+  nodes: FlowNode[];
+  edges: Edge[];
+};
+
+export function createSnapshot(nodes: FlowNode[], edges: Edge[]): FlowSnapshot {
+  return {
+    nodes: nodes.map((node) => ({ ...node, selected: false, dragging: false })),
+    edges: edges.map((edge) => ({ ...edge, selected: false })),
+  };
+}
+
+export function pushSnapshot(stack: FlowSnapshot[], snapshot: FlowSnapshot): FlowSnapshot[] {
+  return stack.concat(snapshot).slice(-HISTORY_LIMIT);
+}
+
+export function remapSnapshot(snapshot: FlowSnapshot, idMap: Map<string, string>): FlowSnapshot {
+  if (idMap.size === 0) return snapshot;
+
+  return {
+    nodes: snapshot.nodes.map((node) =>
+      idMap.has(node.id) ? { ...node, id: idMap.get(node.id)! } : node
+    ),
+    edges: snapshot.edges.map((edge) =>
+      idMap.has(edge.source) || idMap.has(edge.target)
+        ? {
+            ...edge,
+            source: idMap.get(edge.source) ?? edge.source,
+            target: idMap.get(edge.target) ?? edge.target,
+          }
+        : edge
+    ),
+  };
+}
+
+export function isPersistedSite(node: FlowNode): boolean {
+  return isMonitorVariant(node.type) && !node.id.startsWith("temp-");
+}
@@ -0,0 +1,105 @@
+import { stripWebhookSecrets } from "../flow/nodes/webhook";
+import type { BaseNodeData, FlowNode } from "../flow/nodes/types";
+import { useApiConfig } from "../lib/config";
+
+// Секреты блоков в общий документ сценария не попадают: они остаются в этом браузере,
+// отдельно для каждого профиля API и сценария, и подставляются при открытии
+const SECRETS_STORAGE_KEY = "pingtower.secrets";
+
+export type NodeSecrets = {
+  api_key?: string;
+  // адрес вебхука мессенджера сам по себе даёт право писать в канал
+  messenger_url?: string;
+  password?: string;
+  secret?: string;
+  authorization?: string;
+};
+
+const isAuthorization = (name: string) => name.toLowerCase() === "authorization";
+
+const storageKey = (flowId: string) => `${SECRETS_STORAGE_KEY}.${useApiConfig.getState().profileId}.${flowId}`;
+
+// Данные блока с пустыми секретами и сами секреты отдельно
+export function splitSecrets(data: BaseNodeData): { data: BaseNodeData; secrets: NodeSecrets } {
+  const next: BaseNodeData = { ...data };
+  const secrets: NodeSecrets = {};
+
+  if (data.llm?.api_key) {
+    secrets.api_key = data.llm.api_key;
+    next.llm = { ...data.llm, api_key: "" };
+  }
+  if (data.messenger?.url) {
+    secrets.messenger_url = data.messenger.url;
+    next.messenger = { ...data.messenger, url: "" };
+  }
+  if (data.email?.password) {
+    secrets.password = data.email.password;
+    next.email = { ...data.email, password: "" };
+  }
+  if (data.webhook) {
+    const authorization = data.webhook.headers.find((header) => isAuthorization(header.name) && header.value);
+    if (data.webhook.secret) secrets.secret = data.webhook.secret;
+    if (authorization) secrets.authorization = authorization.value;
+    if (data.webhook.secret || authorization) next.webhook = stripWebhookSecrets(data.webhook);
+  }
+
+  return { data: next, secrets };
+}
+
+export function applySecrets(data: BaseNodeData, secrets: NodeSecrets | undefined): BaseNodeData {
+  if (!secrets) return data;
+  const next: BaseNodeData = { ...data };
+
+  if (data.llm && secrets.api_key) {
+    next.llm = { ...data.llm, api_key: secrets.api_key };
+  }
+  if (data.messenger && secrets.messenger_url) {
+    next.messenger = { ...data.messenger, url: secrets.messenger_url };
+  }
+  if (data.email && secrets.password) {
+    next.email = { ...data.email, password: secrets.password };
+  }
+  if (data.webhook && (secrets.secret || secrets.authorization)) {
+    next.webhook = {
+      ...data.webhook,
+      secret: secrets.secret ?? data.webhook.secret,
+      headers: data.webhook.headers.map((header) =>
+        isAuthorization(header.name) && secrets.authorization ? { ...header, value: secrets.authorization } : header
+      ),
+    };
+  }
+
+  return next;
+}
+
+export function collectSecrets(nodes: FlowNode[]): Record<string, NodeSecrets> {
+  return Object.fromEntries(
+    nodes.flatMap((node) => {
+      const { secrets } = splitSecrets(node.data);
+      return Object.keys(secrets).length > 0 ? [[node.id, secrets]] : [];
+    })
+  );
+}
+
+export function readFlowSecrets(flowId: string): Record<string, NodeSecrets> {
+  if (typeof window === "undefined") return {};
+  const raw = window.localStorage.getItem(storageKey(flowId));
+  if (!raw) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, NodeSecrets>) : {};
+  } catch (err) {
+    console.warn("[FlowSecrets] Не удалось прочитать секреты сценария", { flowId, err });
+    return {};
+  }
+}
+
+export function writeFlowSecrets(flowId: string, secrets: Record<string, NodeSecrets>) {
+  if (typeof window === "undefined") return;
+  if (Object.keys(secrets).length > 0) {
+    window.localStorage.setItem(storageKey(flowId), JSON.stringify(secrets));
+  } else {
+    window.localStorage.removeItem(storageKey(flowId));
+  }
+}
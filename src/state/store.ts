@@ -1,28 +1,109 @@
 import { create } from "zustand";
+import { nanoid } from "nanoid";
 import {
   fetchSites,
   createSite,
   updateSite,
   deleteSite,
   patchSiteParams,
+  fetchFlows,
+  fetchFlowDocument,
+  createFlowDocument,
+  saveFlowDocument,
+  renameFlowDocument,
+  deleteFlowDocument,
+  fetchLatestLog,
+  fetchRecentLogs,
+  sendEmail,
+  sendMessengerWebhook,
+  ApiError,
+  type FlowDocument,
+  type FlowNodeRecord,
+  type FlowRecord,
+  type FlowSummary,
+  type SiteParams,
   type SiteRecord,
 } from "../lib/api";
+import { useApiConfig } from "../lib/config";
+import { completeChat } from "../lib/llm";
+import { sendSignedWebhook, type WebhookAttempt } from "../lib/webhook";
+import type { LogRecord } from "../utils/stats";
+import { canConnect, validateFlow } from "../utils/validation";
 
 import {
   type BaseNodeData,
   type FlowNode,
-  buildWebsiteMetadata,
+  isMonitorVariant,
+  type MonitorVariant,
+  type SiteKind,
+  type SwimlaneConfig,
+  type WebhookConfig,
   DEFAULT_PING_INTERVAL,
+  SWIMLANE_TYPE,
+  isSwimlane,
 
-  MAX_PING_INTERVAL,
-  MIN_PING_INTERVAL,
   normalizePingInterval,
 } from "../flow/nodes/types";
 import type { Edge, XYPosition } from "reactflow";
+import { executeFlow, FlowAbortedError, type NodeRunResult } from "../flow/executor";
+import { SNAP_GRID, layoutFlow } from "../flow/layout";
+import {
+  DEFAULT_SWIMLANE,
+  SWIMLANE_HEADER_HEIGHT,
+  SWIMLANE_PADDING,
+  absolutePosition,
+  findSwimlaneAt,
+  normalizeSwimlane,
+  sortSwimlanesFirst,
+  swimlaneStyle,
+} from "../flow/nodes/swimlane";
+import { exportSelection, type FlowFragment, type FlowImportPlan } from "../flow/transfer";
+import type { SiteFormResult } from "../flow/nodes/siteForm";
+import { isSameSiteCheck, normalizeSiteCheck } from "../flow/nodes/siteCheck";
+import { readAssertions, withAssertions } from "../flow/nodes/assertions";
+import {
+  MONITOR_EMOJI,
+  SITE_KIND_BY_VARIANT,
+  buildMonitorMetadata,
+  copyTargetUrl,
+  normalizeProbe,
+  variantForSiteKind,
+} from "../flow/nodes/monitors";
+import {
+  needsTelegramSync,
+  readTelegramLinks,
+  resolveTelegramLinks,
+  withTelegramLinks,
+  withoutTelegramLinks,
+} from "../flow/nodes/telegram";
+import { WEBHOOK_ATTEMPTS_LIMIT } from "../flow/nodes/webhook";
+import { CONDITION_BRANCH_LABELS, isConditionBranch } from "../flow/nodes/condition";
+import {
+  HISTORY_MERGE_WINDOW_MS,
+  createSnapshot,
+  isPersistedSite,
+  pushSnapshot,
+  remapSnapshot,
+  type FlowSnapshot,
+} from "./history";
+import { applySecrets, collectSecrets, readFlowSecrets, splitSecrets, writeFlowSecrets } from "./secrets";
 
 export type NodeStatus = "idle" | "running" | "success" | "error";
 
+// Открытая форма сайта: создание блока из библиотеки или правка существующего
+export type SiteFormRequest =
+  | { mode: "create"; variant: MonitorVariant; position: XYPosition; template: BaseNodeData }
+  | { mode: "edit"; nodeId: string };
+
+// Запись журнала, выбранная на дашборде для превью промпта LLM
+export type PromptSample = {
+  site: { name: string; url: string };
+  log: LogRecord;
+};
+
 const websiteSyncTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// правка чатов Telegram-блока меняет адресатов всех привязанных к нему сайтов
+const telegramResyncTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
 const cancelWebsiteSyncTimer = (nodeId: string) => {
   const timer = websiteSyncTimers.get(nodeId);
@@ -50,49 +131,349 @@ const parseComValue = (value: SiteRecord["com"]): Record<string, unknown> | null
   return null;
 };
 
-const isTelegramLinked = (data?: BaseNodeData): boolean => {
-  if (!data?.com || typeof data.com !== "object") return false;
-  const raw = (data.com as Record<string, unknown>).tg;
-  return Number(raw) === 1 || raw === true;
+// com и настройки проверки сохраняются отдельным PATCH; пустые поля не отправляем
+const pickSiteParams = (
+  com: BaseNodeData["com"],
+  check: BaseNodeData["check"] | null,
+  probe?: BaseNodeData["probe"] | null
+): SiteParams | undefined => {
+  if (!com && !check && !probe) return undefined;
+  return { ...(com ? { com } : {}), ...(check ? { check } : {}), ...(probe ? { probe } : {}) };
 };
 
-const buildTelegramCom = (
-  current: BaseNodeData["com"],
-  enabled: boolean
-): Record<string, unknown> => {
-  const base =
-    current && typeof current === "object"
-      ? { ...(current as Record<string, unknown>) }
-      : ({} as Record<string, unknown>);
-  base.tg = enabled ? 1 : 0;
-  return base;
+const siteKindOf = (node: FlowNode): SiteKind =>
+  isMonitorVariant(node.type) ? SITE_KIND_BY_VARIANT[node.type] : "http";
+
+const DEFAULT_FLOW_NAME = "Новый сценарий";
+const ACTIVE_FLOW_STORAGE_KEY = "pingtower.activeFlowId";
+const FALLBACK_COLUMNS = 4;
+const FALLBACK_STEP = { x: 264, y: 216 };
+
+// Тип блока определяется видом проверки сайта на сервере
+const buildSiteNode = (site: SiteRecord, position: XYPosition): FlowNode => {
+  const variant = variantForSiteKind(site.kind);
+  const data: BaseNodeData = {
+    title: site.name,
+    description: site.url,
+    emoji: MONITOR_EMOJI[variant],
+    status: "idle",
+    ping_interval: site.ping_interval ?? DEFAULT_PING_INTERVAL,
+    com: parseComValue(site.com),
+    check: variant === "website" ? normalizeSiteCheck(site.check) : undefined,
+    probe: normalizeProbe(variant, site.probe),
+  };
+
+  return {
+    id: String(site.id),
+    type: variant,
+    position,
+    data: { ...data, metadata: buildMonitorMetadata(variant, data) },
+  };
 };
 
-const isWebsiteConnectedToTelegram = (siteId: string, nodes: FlowNode[], edges: Edge[]): boolean => {
-  const nodeMap = new Map(nodes.map((node) => [node.id, node]));
-  return edges.some((edge) => {
-    if (edge.source !== siteId) return false;
-    const targetNode = nodeMap.get(edge.target);
-    return targetNode?.type === "telegram";
+// Блоки, карточка которых собирается из их настроек при отрисовке
+const CONFIGURED_VARIANTS: string[] = ["llm", "telegram", "messenger", "email", "webhook", "condition", "noise"];
+
+// Статус — состояние выполнения, а метаданные сайта пересобираются из БД
+// (у остальных блоков — из настроек), поэтому в документ сценария они не попадают.
+// Секреты блоков хранятся отдельно, в браузере.
+const serializeFlow = (flowName: string, nodes: FlowNode[], edges: Edge[]): FlowDocument => ({
+  name: flowName,
+  nodes: nodes.map((node) => {
+    const { data } = splitSecrets(node.data);
+    delete data.status;
+    if (isMonitorVariant(node.type) || CONFIGURED_VARIANTS.includes(node.type ?? "")) {
+      delete data.metadata;
+    }
+
+    return {
+      id: node.id,
+      type: node.type ?? "website",
+      position: { x: node.position.x, y: node.position.y },
+      data,
+      parentNode: node.parentNode ?? null,
+    };
+  }),
+  edges: edges.map((edge) => ({
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle ?? null,
+    targetHandle: edge.targetHandle ?? null,
+  })),
+});
+
+// Сайты — источник истины для блоков-мониторов: блок без сайта отбрасывается,
+// а сайт без ноды (создан вне канваса и не принадлежит другому сценарию)
+// добавляется в свободную колонку справа.
+const restoreFlow = (
+  document: FlowDocument | null,
+  sites: SiteRecord[]
+): { nodes: FlowNode[]; edges: Edge[] } => {
+  const sitesById = new Map(sites.map((site) => [String(site.id), site]));
+  const nodes: FlowNode[] = [];
+  const lanes = new Map(
+    (document?.nodes ?? [])
+      .filter(isSwimlane)
+      .map((record) => [record.id, normalizeSwimlane(record.data.swimlane)])
+  );
+  // блок группы прячется, если она свёрнута; группа могла пропасть — тогда блок сам по себе
+  const membership = (record: FlowNodeRecord): Partial<FlowNode> => {
+    const lane = record.parentNode ? lanes.get(record.parentNode) : undefined;
+    return lane ? { parentNode: record.parentNode!, hidden: lane.collapsed } : {};
+  };
+
+  document?.nodes.forEach((record) => {
+    if (isMonitorVariant(record.type)) {
+      const site = sitesById.get(record.id);
+      if (!site) return;
+      sitesById.delete(record.id);
+      const node = buildSiteNode(site, record.position);
+      if (typeof record.data.templateId === "string") {
+        node.data.templateId = record.data.templateId;
+      }
+      nodes.push({ ...node, ...membership(record) });
+      return;
+    }
+
+    if (isSwimlane(record)) {
+      const config = lanes.get(record.id)!;
+      nodes.push({
+        id: record.id,
+        type: SWIMLANE_TYPE,
+        position: record.position,
+        style: swimlaneStyle(config),
+        deletable: false,
+        data: { ...(record.data as BaseNodeData), swimlane: config },
+      });
+      return;
+    }
+
+    nodes.push({
+      id: record.id,
+      type: record.type,
+      position: record.position,
+      data: { ...(record.data as BaseNodeData), status: "idle" },
+      ...membership(record),
+    });
+  });
+
+  const offsetX = nodes.reduce(
+    (max, node) => Math.max(max, node.position.x + FALLBACK_STEP.x),
+    0
+  );
+  Array.from(sitesById.values()).forEach((site, index) => {
+    nodes.push(
+      buildSiteNode(site, {
+        x: offsetX + (index % FALLBACK_COLUMNS) * FALLBACK_STEP.x,
+        y: Math.floor(index / FALLBACK_COLUMNS) * FALLBACK_STEP.y,
+      })
+    );
   });
+
+  const nodeIds = new Set(nodes.map((node) => node.id));
+  const edges: Edge[] = (document?.edges ?? [])
+    .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .map((edge) => ({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      sourceHandle: edge.sourceHandle ?? null,
+      targetHandle: edge.targetHandle ?? null,
+      ...(isConditionBranch(edge.sourceHandle) && { label: CONDITION_BRANCH_LABELS[edge.sourceHandle] }),
+    }));
+
+  return { nodes: sortSwimlanesFirst(nodes), edges };
+};
+
+const getFlowSiteIds = (document: FlowDocument): number[] =>
+  document.nodes
+    .filter((node) => isMonitorVariant(node.type))
+    .map((node) => Number(node.id))
+    .filter((id) => Number.isFinite(id));
+
+const toFlowSummary = (record: FlowRecord): FlowSummary => ({
+  id: record.id,
+  name: record.name,
+  updated_at: record.updated_at ?? null,
+  site_ids: getFlowSiteIds(record),
+});
+
+// у каждого профиля API свои сценарии, поэтому и последний открытый — свой
+const activeFlowStorageKey = () => `${ACTIVE_FLOW_STORAGE_KEY}.${useApiConfig.getState().profileId}`;
+
+const readStoredFlowId = (): string | undefined => {
+  if (typeof window === "undefined") return undefined;
+  return window.localStorage.getItem(activeFlowStorageKey()) ?? undefined;
+};
+
+const storeActiveFlowId = (id?: string) => {
+  if (typeof window === "undefined") return;
+  if (id) {
+    window.localStorage.setItem(activeFlowStorageKey(), id);
+  } else {
+    window.localStorage.removeItem(activeFlowStorageKey());
+  }
+};
+
+const buildCopyName = (name: string) => `${name} (копия)`;
+
+const RUN_INTERVAL_MIN_MS = 5_000;
+
+let runController: AbortController | null = null;
+// идущее сохранение: повторный вызов дожидается его, а не пропускается
+let pendingSave: Promise<boolean> | null = null;
+// номер последнего открытия сценария; ответы устаревших открытий отбрасываются
+let openFlowRequest = 0;
+// растёт при смене профиля API: ответы прежнего сервера в стор не попадают
+let workspaceGeneration = 0;
+
+// Пауза между прогонами — самый короткий интервал опроса среди сайтов сценария
+const getRunInterval = (nodes: FlowNode[]) => {
+  const intervals = nodes
+    .filter((node) => isMonitorVariant(node.type))
+    .map((node) => (node.data.ping_interval ?? DEFAULT_PING_INTERVAL) * 1000);
+  return Math.max(RUN_INTERVAL_MIN_MS, Math.min(DEFAULT_PING_INTERVAL * 1000, ...intervals));
+};
+
+const waitForNextRun = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+const SITE_FIELDS: (keyof BaseNodeData)[] = ["title", "description", "ping_interval", "check", "probe", "com"];
+
+const shouldSyncWebsite = (node: FlowNode, data: Partial<BaseNodeData>) =>
+  isMonitorVariant(node.type) && SITE_FIELDS.some((key) => key in data);
+
+// сдвиг копии, если место вставки не задано: на два шага сетки вправо и вниз
+const PASTE_OFFSET = { x: SNAP_GRID[0] * 2, y: SNAP_GRID[1] * 2 };
+
+const ARRANGE_DURATION_MS = 400;
+// кадр идущей анимации раскладки; повторный запуск её не прерывает
+let arrangeFrame: number | null = null;
+
+const easeOutCubic = (t: number) => 1 - (1 - t) ** 3;
+
+const historyMeta: { key?: string; at: number; isReplaying: boolean } = {
+  at: 0,
+  isReplaying: false,
 };
 
+const isSameAssertions = (a: BaseNodeData["com"], b: BaseNodeData["com"]) =>
+  JSON.stringify(readAssertions(a)) === JSON.stringify(readAssertions(b));
+
+const isSameProbe = (a: BaseNodeData["probe"], b: BaseNodeData["probe"]) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const isSiteChanged = (prev: FlowNode, next: FlowNode) =>
+  prev.data.title !== next.data.title ||
+  prev.data.description !== next.data.description ||
+  prev.data.ping_interval !== next.data.ping_interval ||
+  !isSameSiteCheck(prev.data.check, next.data.check) ||
+  !isSameAssertions(prev.data.com, next.data.com) ||
+  !isSameProbe(prev.data.probe, next.data.probe);
+
+// Приводит сайты на сервере к состоянию снимка `to`: удалённые сайты создаются заново
+// (с новыми id — их соответствие возвращается), лишние удаляются, изменённые обновляются.
+const replayWebsiteEffects = async (
+  from: FlowSnapshot,
+  to: FlowSnapshot
+): Promise<Map<string, string>> => {
+  const idMap = new Map<string, string>();
+  const fromSites = new Map(from.nodes.filter(isPersistedSite).map((node) => [node.id, node]));
+  const toSites = new Map(to.nodes.filter(isPersistedSite).map((node) => [node.id, node]));
+
+  for (const [id] of fromSites) {
+    if (toSites.has(id)) continue;
+    cancelWebsiteSyncTimer(id);
+    await deleteSite(Number(id)).catch((err) => {
+      console.warn("[FlowStore] Сервер не нашёл сайт при откате", { id, err });
+    });
+  }
+
+  for (const [id, node] of toSites) {
+    const previous = fromSites.get(id);
+    const url = node.data.description || "";
+    const name = node.data.title || "Без имени";
+    const ping_interval = node.data.ping_interval ?? DEFAULT_PING_INTERVAL;
+
+    if (!previous) {
+      const saved = await createSite(url, name, ping_interval, siteKindOf(node));
+      // привязки к Telegram пересобирает applySnapshot по связям снимка
+      const params = pickSiteParams(withoutTelegramLinks(node.data.com), node.data.check, node.data.probe);
+      if (params) {
+        await patchSiteParams(saved.id, params);
+      }
+      idMap.set(id, String(saved.id));
+      continue;
+    }
+
+    if (isSiteChanged(previous, node)) {
+      cancelWebsiteSyncTimer(id);
+      await updateSite(Number(id), { url, name, ping_interval });
+      if (!isSameSiteCheck(previous.data.check, node.data.check)) {
+        await patchSiteParams(Number(id), { check: node.data.check ?? null });
+      }
+      if (!isSameProbe(previous.data.probe, node.data.probe)) {
+        await patchSiteParams(Number(id), { probe: node.data.probe ?? null });
+      }
+      if (!isSameAssertions(previous.data.com, node.data.com)) {
+        await patchSiteParams(Number(id), { com: withAssertions(previous.data.com, readAssertions(node.data.com)) });
+      }
+    }
+  }
+
+  return idMap;
+};
 
 type FlowStore = {
   flowName: string;
   setFlowName: (name: string) => void;
 
+  flows: FlowSummary[];
+  activeFlowId?: string;
+  openFlow: (flowId: string) => Promise<void>;
+  createFlow: (name?: string) => Promise<void>;
+  renameFlow: (flowId: string, name: string) => Promise<void>;
+  duplicateFlow: (flowId: string) => Promise<void>;
+  deleteFlow: (flowId: string) => Promise<void>;
+  // reuse — блоки с совпадающим URL подключаются к уже существующим сайтам
+  importFlow: (plan: FlowImportPlan, conflicts: "create" | "reuse") => Promise<boolean>;
+
   nodes: FlowNode[];
   edges: Edge[];
   setNodes: (updater: FlowNode[] | ((nodes: FlowNode[]) => FlowNode[])) => void;
   setEdges: (updater: Edge[] | ((edges: Edge[]) => Edge[])) => void;
-  setWebsiteTelegramLink: (siteId: string, enabled: boolean) => Promise<void>;
+  syncTelegramLinks: (siteId: string) => Promise<void>;
+  // отключить (excluded = true) или вернуть чат Telegram-блока для конкретного сайта
+  setTelegramChatExcluded: (siteId: string, telegramNodeId: string, key: string, excluded: boolean) => void;
 
   selectedNodeId?: string;
   setSelectedNode: (id?: string) => void;
 
   initFromDb: () => Promise<void>;
-  createWebsiteNode: (position: XYPosition, template: BaseNodeData) => Promise<FlowNode | undefined>;
+  // перед сменой профиля API: ничто из сценария прежнего сервера не должно уйти на новый
+  resetWorkspace: () => void;
+  siteForm: SiteFormRequest | null;
+  openSiteForm: (request: SiteFormRequest) => void;
+  closeSiteForm: () => void;
+  promptSample: PromptSample | null;
+  setPromptSample: (sample: PromptSample | null) => void;
+  createSiteNode: (
+    variant: MonitorVariant,
+    position: XYPosition,
+    template: BaseNodeData,
+    values: SiteFormResult
+  ) => Promise<FlowNode | undefined>;
   saveSite: (node: FlowNode) => Promise<SiteRecord | undefined>;
 
   deleteSiteNode: (nodeId: string, siteId: number) => Promise<void>;
@@ -100,249 +481,506 @@ type FlowStore = {
   updateNodeData: (id: string, data: Partial<BaseNodeData>) => void;
   removeNode: (nodeId: string) => void;
 
-  runFlow: () => void;
+  // группы: выделенные блоки собираются в рамку, без выделения — пустая группа в точке
+  createSwimlane: (position: XYPosition) => void;
+  // снимок истории делает вызывающий: рамку тянут мышью дольше окна объединения правок
+  updateSwimlane: (id: string, patch: Partial<SwimlaneConfig>) => void;
+  // laneId не задан — блоки выходят из группы
+  assignToSwimlane: (nodeIds: string[], laneId?: string) => void;
+  updateSwimlaneSites: (laneId: string, data: Pick<BaseNodeData, "ping_interval">) => void;
+  linkSwimlaneToTelegram: (laneId: string, telegramNodeId: string) => void;
+  // блоки остаются на своих местах, удаляется только рамка
+  removeSwimlane: (laneId: string) => void;
+
+  // вставка фрагмента: at — куда встанет его левый верхний угол, иначе рядом с оригиналом
+  pasteFragment: (fragment: FlowFragment, at?: XYPosition) => Promise<void>;
+  duplicateSelection: () => Promise<void>;
+
+  undoStack: FlowSnapshot[];
+  redoStack: FlowSnapshot[];
+  // авто-раскладка слоями слева направо; промис завершается вместе с анимацией
+  arrangeNodes: () => Promise<void>;
+  takeSnapshot: (mergeKey?: string) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+
+  nodeOutputs: Record<string, NodeRunResult>;
+  // последние попытки доставки исходящих вебхуков по блокам, новые — первыми
+  webhookAttempts: Record<string, WebhookAttempt[]>;
+  deliverWebhook: (nodeId: string, config: WebhookConfig, body: unknown, signal?: AbortSignal) => Promise<void>;
+  runFlow: () => Promise<void>;
   stopFlow: () => void;
-  saveFlow: () => void;
+  // панель проблем сценария; запуск с ошибками открывает её сам
+  isProblemsOpen: boolean;
+  setProblemsOpen: (open: boolean) => void;
+  // false — документ не сохранён, и правки остаются несохранёнными
+  saveFlow: () => Promise<boolean>;
 
   isRunning: boolean;
   isDirty: boolean;
+  isSaving: boolean;
   lastRunAt?: Date;
   lastSavedAt?: Date;
 };
 
-export const useFlowStore = create<FlowStore>((set, get) => ({
-  flowName: "Новый сценарий",
-  setFlowName: (name) => set({ flowName: name, isDirty: true }),
-
-  nodes: [],
-  edges: [],
-  setNodes: (updater) =>
-    set((state) => ({
-      nodes: typeof updater === "function" ? updater(state.nodes) : updater,
-      isDirty: true,
-    })),
-  setEdges: (updater) => {
-    const updates: { siteId: string; enabled: boolean }[] = [];
+// Статус выполнения не попадает ни в историю, ни в документ сценария
+const setNodeStatuses = (statuses: Map<string, NodeStatus>) => {
+  useFlowStore.setState((state) => ({
+    nodes: state.nodes.map((node) =>
+      statuses.has(node.id) && node.data.status !== statuses.get(node.id)
+        ? { ...node, data: { ...node.data, status: statuses.get(node.id) } }
+        : node
+    ),
+  }));
+};
 
-    set((state) => {
-      const nextEdges =
-        typeof updater === "function" ? updater(state.edges) : updater;
+// правки сайта уходят на сервер одной пачкой после паузы во вводе
+const scheduleWebsiteSync = (node: FlowNode) => {
+  const existingTimer = websiteSyncTimers.get(node.id);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+  }
 
-      const nodeMap = new Map(state.nodes.map((node) => [node.id, node]));
-      const websiteFlags = new Map<string, boolean>();
+  // к моменту отправки узел мог измениться, поэтому берём его из стора, а не из замыкания
+  const timer = setTimeout(() => {
+    websiteSyncTimers.delete(node.id);
+    const { nodes, syncWebsiteNode } = useFlowStore.getState();
+    const current = nodes.find((candidate) => candidate.id === node.id);
+    if (current) void syncWebsiteNode(current);
+  }, 500);
 
-      state.nodes.forEach((node) => {
-        if (node.type === "website") {
-          websiteFlags.set(node.id, false);
-        }
-      });
+  websiteSyncTimers.set(node.id, timer);
+};
 
-      nextEdges.forEach((edge) => {
-        const sourceNode = nodeMap.get(edge.source);
-        const targetNode = nodeMap.get(edge.target);
+const applySnapshot = async (target: FlowSnapshot) => {
+  historyMeta.isReplaying = true;
+  historyMeta.key = undefined;
+
+  try {
+    const { nodes, edges } = useFlowStore.getState();
+    const current = createSnapshot(nodes, edges);
+    const idMap = await replayWebsiteEffects(current, target);
+    const resolved = remapSnapshot(target, idMap);
+
+    useFlowStore.setState((state) => ({
+      nodes: resolved.nodes,
+      edges: resolved.edges,
+      undoStack: state.undoStack.map((snapshot) => remapSnapshot(snapshot, idMap)),
+      redoStack: state.redoStack.map((snapshot) => remapSnapshot(snapshot, idMap)),
+      selectedNodeId: undefined,
+      isDirty: true,
+    }));
 
-        if (sourceNode?.type === "website" && targetNode?.type === "telegram") {
-          websiteFlags.set(sourceNode.id, true);
-        }
-      });
+    const { nodes: restored, syncTelegramLinks } = useFlowStore.getState();
+    restored.filter(isPersistedSite).forEach((node) => void syncTelegramLinks(node.id));
+  } catch (err) {
+    console.error("[FlowStore] Ошибка применения истории изменений:", err);
+  } finally {
+    historyMeta.isReplaying = false;
+  }
+};
 
-      websiteFlags.forEach((enabled, siteId) => {
-        const node = nodeMap.get(siteId);
-        if (!node) return;
+export const useFlowStore = create<FlowStore>((set, get) => ({
+  flowName: DEFAULT_FLOW_NAME,
+  setFlowName: (name) =>
+    set((state) => ({
+      flowName: name,
+      flows: state.flows.map((flow) =>
+        flow.id === state.activeFlowId ? { ...flow, name } : flow
+      ),
+      isDirty: true,
+    })),
 
-        const currentlyLinked = isTelegramLinked(node.data);
-        if (enabled !== currentlyLinked) {
-          updates.push({ siteId, enabled });
-        }
-      });
+  flows: [],
+  activeFlowId: undefined,
 
-      return { edges: nextEdges, isDirty: true };
-    });
+  // 📂 открыть сценарий; несохранённые правки текущего сохраняются перед переключением
+  openFlow: async (flowId) => {
+    const request = ++openFlowRequest;
+    const { activeFlowId, isDirty } = get();
+    if (activeFlowId !== flowId) {
+      get().stopFlow();
+    }
+    // без сохранения не переключаемся, иначе правки текущего сценария пропадут
+    if (activeFlowId && activeFlowId !== flowId && isDirty && !(await get().saveFlow())) {
+      console.error("[FlowStore] Сценарий не открыт: не удалось сохранить текущий", { flowId, activeFlowId });
+      return;
+    }
+    if (request !== openFlowRequest) return;
 
-    updates.forEach(({ siteId, enabled }) => {
-      void get().setWebsiteTelegramLink(siteId, enabled);
-    });
+    try {
+      const [sites, document] = await Promise.all([fetchSites(), fetchFlowDocument(flowId)]);
+      if (request !== openFlowRequest) return;
+      const ownedElsewhere = new Set(
+        get()
+          .flows.filter((flow) => flow.id !== flowId)
+          .flatMap((flow) => flow.site_ids)
+      );
+      // чужие сайты не подбираются, но сайт, на который ссылается сам документ, остаётся
+      const ownSiteIds = new Set(getFlowSiteIds(document));
+      const restored = restoreFlow(
+        document,
+        sites.filter((site) => ownSiteIds.has(site.id) || !ownedElsewhere.has(site.id))
+      );
+      const secrets = readFlowSecrets(flowId);
+      const nodes = restored.nodes.map((node) =>
+        secrets[node.id] ? { ...node, data: applySecrets(node.data, secrets[node.id]) } : node
+      );
+      const { edges } = restored;
+
+      storeActiveFlowId(flowId);
+      set({
+        activeFlowId: flowId,
+        flowName: document.name || DEFAULT_FLOW_NAME,
+        nodes,
+        edges,
+        selectedNodeId: undefined,
+        siteForm: null,
+        undoStack: [],
+        redoStack: [],
+        nodeOutputs: {},
+        isDirty: false,
+        lastSavedAt: document.updated_at ? new Date(document.updated_at) : undefined,
+      });
+      // привязки к Telegram могли устареть или прийти без связей (импорт, копия) — сверяем со связями
+      nodes.filter(isPersistedSite).forEach((node) => void get().syncTelegramLinks(node.id));
+    } catch (err) {
+      console.error("[FlowStore] Ошибка открытия сценария:", { flowId, err });
+    }
   },
 
-  selectedNodeId: undefined,
-  setSelectedNode: (id) => set({ selectedNodeId: id }),
-
-  // 📥 загрузка из БД
-  initFromDb: async () => {
+  createFlow: async (name) => {
     try {
-      const sites = await fetchSites();
-      const nodes: FlowNode[] = sites.map((site) => {
-        const com = parseComValue(site.com);
-        const pingInterval = site.ping_interval ?? DEFAULT_PING_INTERVAL;
-
-        return {
-          id: String(site.id),
-          type: "website",
-          position: { x: Math.random() * 400, y: Math.random() * 400 },
-          data: {
-            title: site.name,
-            description: site.url,
-            emoji: "🌐",
-            status: "idle" as NodeStatus,
-            ping_interval: pingInterval,
-            com,
-            metadata: buildWebsiteMetadata({
-              title: site.name,
-              description: site.url,
-              ping_interval: pingInterval,
-              com,
-            }),
-          },
-        };
+      const created = await createFlowDocument({
+        name: name?.trim() || `${DEFAULT_FLOW_NAME} ${get().flows.length + 1}`,
+        nodes: [],
+        edges: [],
       });
-      set({ nodes, isDirty: false });
+      set((state) => ({ flows: state.flows.concat(toFlowSummary(created)) }));
+      await get().openFlow(created.id);
     } catch (err) {
-      console.error("[FlowStore] Ошибка загрузки сайтов:", err);
+      console.error("[FlowStore] Ошибка создания сценария:", err);
     }
   },
 
-  createWebsiteNode: async (position, template) => {
-    if (typeof window === "undefined") return;
-
-    const defaultUrl = template.description?.trim() || "https://example.com";
-    const defaultName = template.title?.trim() || "Новый сайт";
-    const defaultInterval = template.ping_interval ?? DEFAULT_PING_INTERVAL;
-
-    const urlInput = window.prompt("Введите URL сайта", defaultUrl);
-    if (urlInput === null) return;
-    const url = urlInput.trim();
-    if (!url) {
-      window.alert("URL не может быть пустым");
-      return;
-    }
+  renameFlow: async (flowId, name) => {
+    const nextName = name.trim() || DEFAULT_FLOW_NAME;
 
-    const nameInput = window.prompt("Введите название сайта", defaultName);
-    if (nameInput === null) return;
-    const name = nameInput.trim();
-    if (!name) {
-      window.alert("Название не может быть пустым");
-      return;
+    try {
+      const saved = await renameFlowDocument(flowId, nextName);
+      set((state) => ({
+        flows: state.flows.map((flow) =>
+          flow.id === flowId ? { ...flow, name: saved.name, updated_at: saved.updated_at } : flow
+        ),
+        flowName: state.activeFlowId === flowId ? saved.name : state.flowName,
+      }));
+    } catch (err) {
+      console.error("[FlowStore] Ошибка переименования сценария:", { flowId, err });
     }
+  },
 
-    const intervalInput = window.prompt(
-      "Введите интервал опроса (сек)",
-      String(defaultInterval)
-    );
-    if (intervalInput === null) return;
-
-    const normalizedInterval = normalizePingInterval(intervalInput);
-    if (!normalizedInterval) {
-      window.alert(
-        `Интервал должен быть положительным числом от ${MIN_PING_INTERVAL} до ${MAX_PING_INTERVAL}`
-      );
+  // ⧉ копия сценария получает собственные сайты, чтобы удаление одного не задело другой
+  duplicateFlow: async (flowId) => {
+    const { activeFlowId, isDirty } = get();
+    if (activeFlowId === flowId && isDirty && !(await get().saveFlow())) {
+      console.error("[FlowStore] Сценарий не скопирован: не удалось сохранить правки", { flowId });
       return;
     }
 
     try {
-      const saved = await createSite(url, name, normalizedInterval);
-      const com = parseComValue(saved.com) ?? buildTelegramCom(template.com, false);
-
-      const node: FlowNode = {
-        id: String(saved.id),
-        type: "website",
-        position,
-        data: {
-
-          emoji: template.emoji ?? "🌐",
-          status: template.status ?? "idle",
-          title: saved.name,
-          description: saved.url,
-          ping_interval: saved.ping_interval ?? normalizedInterval,
-          com,
-          metadata: buildWebsiteMetadata({
-            title: saved.name,
-            description: saved.url,
-            ping_interval: saved.ping_interval ?? normalizedInterval,
-            com,
-
-          }),
-        },
-      };
+      const [sites, source] = await Promise.all([fetchSites(), fetchFlowDocument(flowId)]);
+      const sitesById = new Map(sites.map((site) => [String(site.id), site]));
+      const idMap = new Map<string, string>();
+
+      for (const record of source.nodes) {
+        if (!isMonitorVariant(record.type)) continue;
+        const site = sitesById.get(record.id);
+        if (!site) continue;
+
+        const copy = await createSite(
+          copyTargetUrl(record.type, site.url),
+          buildCopyName(site.name),
+          site.ping_interval,
+          site.kind
+        );
+        // привязки копии соберёт openFlow по связям нового сценария
+        const params = pickSiteParams(
+          withoutTelegramLinks(parseComValue(site.com)),
+          normalizeSiteCheck(site.check),
+          normalizeProbe(record.type, site.probe)
+        );
+        if (params) {
+          await patchSiteParams(copy.id, params);
+        }
+        idMap.set(record.id, String(copy.id));
+      }
 
-      set((state) => ({
-        nodes: state.nodes.concat(node),
-        selectedNodeId: node.id,
-        isDirty: false,
-        lastSavedAt: new Date(),
+      const nodes = source.nodes
+        .filter((record) => !isMonitorVariant(record.type) || idMap.has(record.id))
+        .map((record) => ({ ...record, id: idMap.get(record.id) ?? record.id }));
+      const edges = source.edges.map((edge) => ({
+        ...edge,
+        source: idMap.get(edge.source) ?? edge.source,
+        target: idMap.get(edge.target) ?? edge.target,
       }));
 
-      return node;
+      const created = await createFlowDocument({
+        name: buildCopyName(source.name),
+        nodes,
+        edges,
+      });
+      writeFlowSecrets(created.id, readFlowSecrets(flowId));
+      set((state) => ({ flows: state.flows.concat(toFlowSummary(created)) }));
+      await get().openFlow(created.id);
     } catch (err) {
-      console.error("[FlowStore] Ошибка создания сайта:", err);
+      console.error("[FlowStore] Ошибка дублирования сценария:", { flowId, err });
     }
   },
 
-  createWebsiteNode: async (position, template) => {
-    if (typeof window === "undefined") return;
-
-    const defaultUrl = template.description?.trim() || "https://example.com";
-    const defaultName = template.title?.trim() || "Новый сайт";
-    const defaultInterval = template.ping_interval ?? DEFAULT_PING_INTERVAL;
+  // 🗑 удалить сценарий вместе с его сайтами
+  deleteFlow: async (flowId) => {
+    const flow = get().flows.find((candidate) => candidate.id === flowId);
+    if (!flow) return;
 
-    const urlInput = window.prompt("Введите URL сайта", defaultUrl);
-    if (urlInput === null) return;
-    const url = urlInput.trim();
-    if (!url) {
-      window.alert("URL не может быть пустым");
+    try {
+      // сайт, подключённый и к другому сценарию, остаётся ему
+      const sharedIds = new Set(
+        get()
+          .flows.filter((candidate) => candidate.id !== flowId)
+          .flatMap((candidate) => candidate.site_ids)
+      );
+      const siteIds = (
+        get().activeFlowId === flowId
+          ? get()
+              .nodes.filter(isPersistedSite)
+              .map((node) => Number(node.id))
+          : flow.site_ids
+      ).filter((siteId) => !sharedIds.has(siteId));
+
+      await Promise.all(
+        siteIds.map((siteId) =>
+          deleteSite(siteId).catch((err) => {
+            console.warn("[FlowStore] Сервер не нашёл сайт сценария", { flowId, siteId, err });
+          })
+        )
+      );
+      await deleteFlowDocument(flowId);
+      writeFlowSecrets(flowId, {});
+    } catch (err) {
+      console.error("[FlowStore] Ошибка удаления сценария:", { flowId, err });
       return;
     }
 
-    const nameInput = window.prompt("Введите название сайта", defaultName);
-    if (nameInput === null) return;
-    const name = nameInput.trim();
-    if (!name) {
-      window.alert("Название не может быть пустым");
-      return;
+    const remaining = get().flows.filter((candidate) => candidate.id !== flowId);
+    set({ flows: remaining });
+
+    if (get().activeFlowId !== flowId) return;
+
+    websiteSyncTimers.forEach((_, nodeId) => cancelWebsiteSyncTimer(nodeId));
+    set({
+      activeFlowId: undefined,
+      nodes: [],
+      edges: [],
+      undoStack: [],
+      redoStack: [],
+      isDirty: false,
+    });
+    storeActiveFlowId(undefined);
+
+    if (remaining.length > 0) {
+      await get().openFlow(remaining[0].id);
+    } else {
+      await get().createFlow(DEFAULT_FLOW_NAME);
     }
+  },
 
-    const intervalInput = window.prompt(
-      "Введите интервал опроса (сек)",
-      String(defaultInterval)
+  nodes: [],
+  edges: [],
+  // ⤒ импорт создаёт новый сценарий: сайты заводятся заново, остальные узлы получают temp-id
+  importFlow: async (plan, conflicts) => {
+    const reused = new Map(
+      conflicts === "reuse" ? plan.conflicts.map((conflict) => [conflict.nodeId, conflict.existingSite]) : []
     );
-    if (intervalInput === null) return;
+    const idMap = new Map<string, string>();
+    const nodes: FlowNode[] = [];
+    // созданные импортом сайты; при ошибке удаляются, чтобы не остаться без сценария
+    const createdSiteIds: number[] = [];
+
+    try {
+      for (const record of plan.nodes) {
+        const existing = reused.get(record.id);
+        if (existing) {
+          const node = buildSiteNode(existing, record.position);
+          node.data.templateId = record.templateId;
+          idMap.set(record.id, node.id);
+          nodes.push({ ...node, parentNode: record.parentNode });
+          continue;
+        }
+
+        if (isMonitorVariant(record.type) && record.site) {
+          const interval =
+            normalizePingInterval(String(record.site.ping_interval)) ?? DEFAULT_PING_INTERVAL;
+          const created = await createSite(
+            copyTargetUrl(record.type, record.site.url),
+            record.site.name,
+            interval,
+            SITE_KIND_BY_VARIANT[record.type]
+          );
+          createdSiteIds.push(created.id);
+          // чаты и блоки из чужого сценария не переносим: привязки соберёт openFlow
+          const params = pickSiteParams(withoutTelegramLinks(record.site.com), record.site.check, record.site.probe);
+          const saved = params ? await patchSiteParams(created.id, params) : created;
+
+          const node = buildSiteNode(saved, record.position);
+          node.data.templateId = record.templateId;
+          idMap.set(record.id, node.id);
+          nodes.push({ ...node, parentNode: record.parentNode });
+          continue;
+        }
 
-    const normalizedInterval = normalizePingInterval(intervalInput);
-    if (!normalizedInterval) {
-      window.alert(
-        `Интервал должен быть положительным числом от ${MIN_PING_INTERVAL} до ${MAX_PING_INTERVAL}`
+        const id = isSwimlane(record) ? `lane-${nanoid()}` : `temp-${nanoid()}`;
+        idMap.set(record.id, id);
+        nodes.push({
+          id,
+          type: record.type,
+          position: record.position,
+          data: { ...record.data, templateId: record.templateId, status: "idle" },
+          parentNode: record.parentNode,
+        });
+      }
+      // группы пересоздаются с новыми id, ссылки блоков переводим на них
+      nodes.forEach((node) => {
+        if (node.parentNode) node.parentNode = idMap.get(node.parentNode);
+      });
+
+      const edges: Edge[] = plan.edges
+        .filter((edge) => idMap.has(edge.source) && idMap.has(edge.target))
+        .map((edge) => ({
+          id: nanoid(),
+          source: idMap.get(edge.source)!,
+          target: idMap.get(edge.target)!,
+          sourceHandle: edge.sourceHandle ?? null,
+          targetHandle: edge.targetHandle ?? null,
+        }));
+
+      const created = await createFlowDocument(serializeFlow(plan.name, nodes, edges));
+      set((state) => ({ flows: state.flows.concat(toFlowSummary(created)) }));
+      await get().openFlow(created.id);
+      return true;
+    } catch (err) {
+      console.error("[FlowStore] Ошибка импорта сценария:", err);
+      await Promise.all(
+        createdSiteIds.map((siteId) =>
+          deleteSite(siteId).catch((deleteErr) => {
+            console.warn("[FlowStore] Не удалось удалить сайт прерванного импорта", { siteId, err: deleteErr });
+          })
+        )
       );
-      return;
+      return false;
     }
+  },
 
+  setNodes: (updater) =>
+    set((state) => ({
+      nodes: typeof updater === "function" ? updater(state.nodes) : updater,
+      isDirty: true,
+    })),
+  // связи с Telegram-блоками определяют адресатов сайта, поэтому после каждой правки
+  // сверяем привязки; сайты без расхождений запросов не делают
+  setEdges: (updater) => {
+    set((state) => ({
+      edges: typeof updater === "function" ? updater(state.edges) : updater,
+      isDirty: true,
+    }));
+
+    get()
+      .nodes.filter((node) => isMonitorVariant(node.type))
+      .forEach((node) => void get().syncTelegramLinks(node.id));
+  },
+
+  selectedNodeId: undefined,
+  setSelectedNode: (id) => set({ selectedNodeId: id }),
+
+  siteForm: null,
+  openSiteForm: (request) => set({ siteForm: request }),
+  closeSiteForm: () => set({ siteForm: null }),
+
+  promptSample: null,
+  setPromptSample: (sample) => set({ promptSample: sample }),
+
+  resetWorkspace: () => {
+    get().stopFlow();
+    // открытие, начатое на прежнем сервере, своих данных уже не применит
+    openFlowRequest += 1;
+    workspaceGeneration += 1;
+    websiteSyncTimers.forEach((_, nodeId) => cancelWebsiteSyncTimer(nodeId));
+    telegramResyncTimers.forEach((timer) => clearTimeout(timer));
+    telegramResyncTimers.clear();
+
+    set({
+      flows: [],
+      activeFlowId: undefined,
+      flowName: DEFAULT_FLOW_NAME,
+      nodes: [],
+      edges: [],
+      selectedNodeId: undefined,
+      siteForm: null,
+      undoStack: [],
+      redoStack: [],
+      nodeOutputs: {},
+      webhookAttempts: {},
+      isDirty: false,
+      lastRunAt: undefined,
+      lastSavedAt: undefined,
+    });
+  },
+
+  // 📥 загрузка из БД
+  initFromDb: async () => {
     try {
-      const saved = await createSite(url, name, normalizedInterval);
+      const flows = await fetchFlows();
+
+      // первый запуск: все существующие сайты попадают в сценарий по умолчанию
+      if (flows.length === 0) {
+        const sites = await fetchSites();
+        const { nodes, edges } = restoreFlow(null, sites);
+        const created = await createFlowDocument(serializeFlow(DEFAULT_FLOW_NAME, nodes, edges));
+        set({ flows: [toFlowSummary(created)] });
+        await get().openFlow(created.id);
+        return;
+      }
 
+      set({ flows });
+      const storedId = readStoredFlowId();
+      const target = flows.find((flow) => flow.id === storedId) ?? flows[0];
+      await get().openFlow(target.id);
+    } catch (err) {
+      console.error("[FlowStore] Ошибка загрузки сценариев:", err);
+    }
+  },
 
-      const node: FlowNode = {
-        id: String(saved.id),
-        type: "website",
-        position,
-        data: {
-          emoji: template.emoji ?? "🌐",
-          status: template.status ?? "idle",
-          title: saved.name,
-          description: saved.url,
-
-          ping_interval: saved.ping_interval ?? normalizedInterval,
-          metadata: buildWebsiteMetadata({
-            title: saved.name,
-            description: saved.url,
-            ping_interval: saved.ping_interval ?? normalizedInterval,
+  createSiteNode: async (variant, position, template, values) => {
+    const { url, name, ping_interval } = values;
 
-          }),
-        },
+    try {
+      const created = await createSite(url, name, ping_interval, SITE_KIND_BY_VARIANT[variant]);
+      const probe = template.probe ?? normalizeProbe(variant, undefined);
+      const saved = probe ? await patchSiteParams(created.id, { probe }) : created;
+
+      const node = buildSiteNode(saved, position);
+      node.data = {
+        ...node.data,
+        emoji: template.emoji ?? node.data.emoji,
+        templateId: template.templateId,
+        com: node.data.com ?? template.com ?? null,
       };
+      node.data.metadata = buildMonitorMetadata(variant, node.data);
 
+      get().takeSnapshot();
       set((state) => ({
         nodes: state.nodes.concat(node),
         selectedNodeId: node.id,
-        isDirty: false,
-        lastSavedAt: new Date(),
+        isDirty: true,
       }));
 
       return node;
@@ -353,7 +991,8 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
 
   // 💾 сохранить / обновить сайт
   saveSite: async (node) => {
-    if (node.type !== "website") return;
+    if (!isMonitorVariant(node.type)) return;
+    const variant = node.type;
 
     try {
       const url = node.data.description || "";
@@ -361,9 +1000,11 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
       const ping_interval = node.data.ping_interval ?? DEFAULT_PING_INTERVAL;
 
       const saved = node.id.startsWith("temp-")
-        ? await createSite(url, name, ping_interval)
+        ? await createSite(url, name, ping_interval, SITE_KIND_BY_VARIANT[variant])
         : await updateSite(Number(node.id), { url, name, ping_interval });
-      const com = parseComValue(saved.com) ?? node.data.com ?? null;
+      const params = pickSiteParams(withoutTelegramLinks(node.data.com), node.data.check, node.data.probe);
+      const patched = params ? await patchSiteParams(saved.id, params) : saved;
+      const com = parseComValue(patched.com) ?? node.data.com ?? null;
 
       set((state) => ({
         nodes: state.nodes.map((n) =>
@@ -377,20 +1018,20 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
                   description: saved.url,
                   com,
 
-                  metadata: buildWebsiteMetadata({
+                  metadata: buildMonitorMetadata(variant, {
+                    ...n.data,
                     title: saved.name,
                     description: saved.url,
                     ping_interval: saved.ping_interval,
                     com,
-
                   }),
                 },
               }
             : n
         ),
-        isDirty: false,
-        lastSavedAt: new Date(),
       }));
+      // привязки Telegram сверяются отдельно: если сервер их не сохранил, они допишутся
+      void get().syncTelegramLinks(String(saved.id));
 
       return saved;
     } catch (err) {
@@ -400,10 +1041,15 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
 
   // 🗑 удалить сайт
   deleteSiteNode: async (nodeId, siteId) => {
+    get().takeSnapshot("delete");
     try {
       await deleteSite(Number(siteId));
     } catch (err) {
-      console.warn("[FlowStore] Сервер не нашёл сайт, удаляем только локально", { nodeId, siteId, err });
+      if (err instanceof ApiError && err.status === 404) {
+        console.warn("[FlowStore] Сервер не нашёл сайт, удаляем только локально", { nodeId, siteId });
+      } else {
+        console.error("[FlowStore] Ошибка удаления сайта, удаляем только локально:", err);
+      }
     } finally {
       cancelWebsiteSyncTimer(nodeId);
       set((state) => ({
@@ -416,28 +1062,25 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
 
   // 🔄 синхронизация
   syncWebsiteNode: async (node) => {
-    if (node.type === "website") {
+    if (isMonitorVariant(node.type)) {
       return await get().saveSite(node);
     }
   },
 
-  setWebsiteTelegramLink: async (siteId, enabled) => {
+  // 📨 привязки сайта к Telegram-блокам пересобираются из связей и сохраняются в com
+  syncTelegramLinks: async (siteId) => {
     const state = get();
-    const node = state.nodes.find((candidate) => candidate.id === siteId && candidate.type === "website");
-    if (!node) return;
+    const node = state.nodes.find((candidate) => candidate.id === siteId && isMonitorVariant(candidate.type));
+    if (!node || !isMonitorVariant(node.type)) return;
+    const variant = node.type;
 
     const numericId = Number(siteId);
     if (!Number.isFinite(numericId)) return;
 
-    const desiredState = isWebsiteConnectedToTelegram(siteId, state.nodes, state.edges);
-    if (enabled !== desiredState) {
-      enabled = desiredState;
-    }
-
-    const currentlyLinked = isTelegramLinked(node.data);
-    if (enabled === currentlyLinked) return;
+    const desired = resolveTelegramLinks(siteId, state.nodes, state.edges);
+    if (!needsTelegramSync(node.data.com, desired)) return;
 
-    const nextCom = buildTelegramCom(node.data.com, enabled);
+    const nextCom = withTelegramLinks(node.data.com, desired);
 
     try {
       const saved = await patchSiteParams(numericId, { com: nextCom });
@@ -445,13 +1088,13 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
 
       set((innerState) => ({
         nodes: innerState.nodes.map((candidate) =>
-          candidate.id === siteId && candidate.type === "website"
+          candidate.id === siteId && candidate.type === variant
             ? {
                 ...candidate,
                 data: {
                   ...candidate.data,
                   com: savedCom,
-                  metadata: buildWebsiteMetadata({
+                  metadata: buildMonitorMetadata(variant, {
                     ...candidate.data,
                     com: savedCom,
                   }),
@@ -462,28 +1105,50 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
         lastSavedAt: new Date(),
       }));
 
+      // пока шёл запрос, связи или чаты могли поменяться ещё раз
       const latest = get();
-      const shouldBeEnabledNow = isWebsiteConnectedToTelegram(siteId, latest.nodes, latest.edges);
-      const latestNode = latest.nodes.find(
-        (candidate) => candidate.id === siteId && candidate.type === "website"
-      );
-      const latestLinked = isTelegramLinked(latestNode?.data);
-
-      if (shouldBeEnabledNow !== latestLinked) {
-        void get().setWebsiteTelegramLink(siteId, shouldBeEnabledNow);
+      const latestNode = latest.nodes.find((candidate) => candidate.id === siteId);
+      if (
+        latestNode &&
+        needsTelegramSync(latestNode.data.com, resolveTelegramLinks(siteId, latest.nodes, latest.edges))
+      ) {
+        void get().syncTelegramLinks(siteId);
       }
     } catch (err) {
       console.error("[FlowStore] Ошибка обновления привязки Telegram", {
         siteId,
-        enabled,
+        links: desired,
         err,
       });
     }
   },
 
+  setTelegramChatExcluded: (siteId, telegramNodeId, key, excluded) => {
+    get().takeSnapshot(`data:${siteId}`);
+    set((state) => ({
+      nodes: state.nodes.map((node) => {
+        if (node.id !== siteId) return node;
+        const links = readTelegramLinks(node.data.com).map((link) =>
+          link.node === telegramNodeId
+            ? {
+                ...link,
+                excluded: excluded
+                  ? Array.from(new Set(link.excluded.concat(key)))
+                  : link.excluded.filter((candidate) => candidate !== key),
+              }
+            : link
+        );
+        return { ...node, data: { ...node.data, com: withTelegramLinks(node.data.com, links) } };
+      }),
+      isDirty: true,
+    }));
+    void get().syncTelegramLinks(siteId);
+  },
+
   // ✏️ обновить локально
   updateNodeData: (id, data) => {
     let updatedNode: FlowNode | undefined;
+    get().takeSnapshot(`data:${id}`);
 
     set((state) => ({
       nodes: state.nodes.map((node) => {
@@ -494,8 +1159,8 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
           ...data,
         };
 
-        if (node.type === "website") {
-          nextData.metadata = buildWebsiteMetadata(nextData);
+        if (isMonitorVariant(node.type)) {
+          nextData.metadata = buildMonitorMetadata(node.type, nextData);
         }
 
         const nextNode = { ...node, data: nextData };
@@ -505,26 +1170,27 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
       isDirty: true,
     }));
 
-    const shouldSyncWebsite =
-      updatedNode?.type === "website" &&
-      ("title" in data || "description" in data || "ping_interval" in data);
-
-    if (updatedNode && shouldSyncWebsite) {
-      const existingTimer = websiteSyncTimers.get(updatedNode.id);
-      if (existingTimer) {
-        clearTimeout(existingTimer);
-      }
-
-      const timer = setTimeout(() => {
-        void get().syncWebsiteNode(updatedNode!);
-        websiteSyncTimers.delete(updatedNode!.id);
-      }, 500);
+    if (updatedNode && shouldSyncWebsite(updatedNode, data)) {
+      scheduleWebsiteSync(updatedNode);
+    }
 
-      websiteSyncTimers.set(updatedNode.id, timer);
+    if (updatedNode?.type === "telegram" && "telegram" in data) {
+      const telegramId = updatedNode.id;
+      clearTimeout(telegramResyncTimers.get(telegramId));
+      telegramResyncTimers.set(
+        telegramId,
+        setTimeout(() => {
+          telegramResyncTimers.delete(telegramId);
+          get()
+            .edges.filter((edge) => edge.target === telegramId)
+            .forEach((edge) => void get().syncTelegramLinks(edge.source));
+        }, 500)
+      );
     }
   },
 
   removeNode: (nodeId) => {
+    get().takeSnapshot("delete");
     cancelWebsiteSyncTimer(nodeId);
     set((state) => ({
       nodes: state.nodes.filter((node) => node.id !== nodeId),
@@ -534,13 +1200,495 @@ export const useFlowStore = create<FlowStore>((set, get) => ({
 
   },
 
-  runFlow: () => set({ isRunning: true, lastRunAt: new Date() }),
-  stopFlow: () => set({ isRunning: false }),
+  // 🗂 группы
+  createSwimlane: (position) => {
+    const { nodes } = get();
+    const members = nodes.filter((node) => node.selected && !isSwimlane(node));
+    const id = `lane-${nanoid()}`;
+
+    let origin = position;
+    let config = DEFAULT_SWIMLANE;
+    if (members.length > 0) {
+      const boxes = members.map((node) => {
+        const { x, y } = absolutePosition(node, nodes);
+        return { x, y, right: x + (node.width ?? 0), bottom: y + (node.height ?? 0) };
+      });
+      const left = Math.min(...boxes.map((box) => box.x)) - SWIMLANE_PADDING;
+      const top = Math.min(...boxes.map((box) => box.y)) - SWIMLANE_PADDING - SWIMLANE_HEADER_HEIGHT;
+      origin = { x: left, y: top };
+      config = normalizeSwimlane({
+        collapsed: false,
+        width: Math.max(...boxes.map((box) => box.right)) + SWIMLANE_PADDING - left,
+        height: Math.max(...boxes.map((box) => box.bottom)) + SWIMLANE_PADDING - top,
+      });
+    }
+
+    const lane: FlowNode = {
+      id,
+      type: SWIMLANE_TYPE,
+      position: origin,
+      style: swimlaneStyle(config),
+      deletable: false,
+      data: { title: "Новая группа", swimlane: config },
+    };
+
+    get().takeSnapshot();
+    const memberIds = new Set(members.map((node) => node.id));
+    set((state) => ({
+      nodes: [lane].concat(
+        state.nodes.map((node) => {
+          if (!memberIds.has(node.id)) return node;
+          const absolute = absolutePosition(node, state.nodes);
+          return {
+            ...node,
+            parentNode: id,
+            position: { x: absolute.x - origin.x, y: absolute.y - origin.y },
+            selected: false,
+          };
+        })
+      ),
+      selectedNodeId: id,
+      isDirty: true,
+    }));
+  },
+
+  updateSwimlane: (id, patch) => {
+    set((state) => {
+      const lane = state.nodes.find((node) => node.id === id);
+      if (!lane) return state;
+      const config = { ...normalizeSwimlane(lane.data.swimlane), ...patch };
+
+      return {
+        nodes: state.nodes.map((node) => {
+          if (node.id === id) {
+            return { ...node, style: swimlaneStyle(config), data: { ...node.data, swimlane: config } };
+          }
+          // связи свёрнутых блоков React Flow скрывает сам
+          return node.parentNode === id ? { ...node, hidden: config.collapsed } : node;
+        }),
+        isDirty: true,
+      };
+    });
+  },
+
+  assignToSwimlane: (nodeIds, laneId) => {
+    set((state) => {
+      const lane = laneId ? state.nodes.find((node) => node.id === laneId) : undefined;
+      const targets = new Set(nodeIds);
+
+      return {
+        nodes: state.nodes.map((node) => {
+          if (!targets.has(node.id) || isSwimlane(node) || node.parentNode === lane?.id) return node;
+          const absolute = absolutePosition(node, state.nodes);
+          return {
+            ...node,
+            parentNode: lane?.id,
+            position: lane ? { x: absolute.x - lane.position.x, y: absolute.y - lane.position.y } : absolute,
+          };
+        }),
+        isDirty: true,
+      };
+    });
+  },
+
+  updateSwimlaneSites: (laneId, data) => {
+    get().takeSnapshot(`lane-sites:${laneId}`);
+    const updated: FlowNode[] = [];
+    set((state) => ({
+      nodes: state.nodes.map((node) => {
+        if (node.parentNode !== laneId || !isMonitorVariant(node.type)) return node;
+        const nextData: BaseNodeData = { ...node.data, ...data };
+        nextData.metadata = buildMonitorMetadata(node.type, nextData);
+        const nextNode = { ...node, data: nextData };
+        updated.push(nextNode);
+        return nextNode;
+      }),
+      isDirty: true,
+    }));
+
+    updated.filter((node) => shouldSyncWebsite(node, data)).forEach(scheduleWebsiteSync);
+  },
+
+  linkSwimlaneToTelegram: (laneId, telegramNodeId) => {
+    const { nodes, edges } = get();
+    const links = nodes
+      .filter((node) => node.parentNode === laneId && isMonitorVariant(node.type))
+      .map((node) => ({ source: node.id, target: telegramNodeId, sourceHandle: "right-source", targetHandle: "left-target" }))
+      .filter((connection) => canConnect(connection, { nodes, edges }));
+    if (links.length === 0) return;
+
+    get().takeSnapshot();
+    get().setEdges((eds) => eds.concat(links.map((connection) => ({ id: nanoid(), ...connection }))));
+  },
+
+  removeSwimlane: (laneId) => {
+    get().takeSnapshot("delete");
+    set((state) => ({
+      nodes: state.nodes
+        .filter((node) => node.id !== laneId)
+        .map((node) =>
+          node.parentNode === laneId
+            ? { ...node, parentNode: undefined, hidden: false, position: absolutePosition(node, state.nodes) }
+            : node
+        ),
+      selectedNodeId: state.selectedNodeId === laneId ? undefined : state.selectedNodeId,
+      isDirty: true,
+    }));
+  },
 
-  saveFlow: () => set({ isDirty: false, lastSavedAt: new Date() }),
+  // 📋 сайты из фрагмента заводятся на сервере заново с пометкой «копия», остальные блоки
+  // получают temp-id; вставленное становится выделением и отменяется одним шагом
+  pasteFragment: async (fragment, at) => {
+    const topLevel = fragment.nodes.filter((record) => !record.parentNode);
+    if (topLevel.length === 0) return;
+
+    const left = Math.min(...topLevel.map((record) => record.position.x));
+    const top = Math.min(...topLevel.map((record) => record.position.y));
+    const shift = at
+      ? {
+          x: Math.round(at.x / SNAP_GRID[0]) * SNAP_GRID[0] - left,
+          y: Math.round(at.y / SNAP_GRID[1]) * SNAP_GRID[1] - top,
+        }
+      : PASTE_OFFSET;
+
+    const lanes = new Map(
+      fragment.nodes.filter(isSwimlane).map((record) => [record.id, normalizeSwimlane(record.data.swimlane)])
+    );
+    const idMap = new Map<string, string>();
+    const pasted: FlowNode[] = [];
+
+    for (const record of fragment.nodes) {
+      const lane = record.parentNode ? lanes.get(record.parentNode) : undefined;
+      const position = lane
+        ? record.position
+        : { x: record.position.x + shift.x, y: record.position.y + shift.y };
+      const membership = lane ? { parentNode: record.parentNode, hidden: lane.collapsed } : {};
+
+      if (isMonitorVariant(record.type)) {
+        if (!record.site) continue;
+        let createdId: number | undefined;
+        try {
+          const interval =
+            normalizePingInterval(String(record.site.ping_interval)) ?? DEFAULT_PING_INTERVAL;
+          const created = await createSite(
+            copyTargetUrl(record.type, record.site.url),
+            buildCopyName(record.site.name),
+            interval,
+            SITE_KIND_BY_VARIANT[record.type]
+          );
+          createdId = created.id;
+          // привязки к Telegram соберёт setEdges по связям вставки
+          const params = pickSiteParams(withoutTelegramLinks(record.site.com), record.site.check, record.site.probe);
+          const saved = params ? await patchSiteParams(created.id, params) : created;
+
+          const node = buildSiteNode(saved, position);
+          node.data.templateId = record.templateId;
+          idMap.set(record.id, node.id);
+          pasted.push({ ...node, ...membership });
+        } catch (err) {
+          // остальная вставка не зависит от одного сайта
+          console.error("[FlowStore] Ошибка создания копии сайта:", { url: record.site.url, err });
+          // сайт без своих параметров на канвас не попадёт, на сервере его тоже оставлять нельзя
+          if (createdId !== undefined) {
+            const siteId = createdId;
+            await deleteSite(siteId).catch((deleteErr) => {
+              console.warn("[FlowStore] Не удалось удалить копию сайта без параметров", { siteId, err: deleteErr });
+            });
+          }
+        }
+        continue;
+      }
+
+      if (isSwimlane(record)) {
+        const config = lanes.get(record.id)!;
+        const id = `lane-${nanoid()}`;
+        idMap.set(record.id, id);
+        pasted.push({
+          id,
+          type: SWIMLANE_TYPE,
+          position,
+          style: swimlaneStyle(config),
+          deletable: false,
+          data: { ...record.data, swimlane: config },
+        });
+        continue;
+      }
+
+      const id = `temp-${nanoid()}`;
+      idMap.set(record.id, id);
+      pasted.push({
+        id,
+        type: record.type,
+        position,
+        data: { ...record.data, templateId: record.templateId, status: "idle" },
+        ...membership,
+      });
+    }
+    if (pasted.length === 0) return;
+
+    const edges: Edge[] = fragment.edges
+      .filter((edge) => idMap.has(edge.source) && idMap.has(edge.target))
+      .map((edge) => ({
+        id: nanoid(),
+        source: idMap.get(edge.source)!,
+        target: idMap.get(edge.target)!,
+        sourceHandle: edge.sourceHandle ?? null,
+        targetHandle: edge.targetHandle ?? null,
+        ...(isConditionBranch(edge.sourceHandle) && { label: CONDITION_BRANCH_LABELS[edge.sourceHandle] }),
+      }));
+
+    get().takeSnapshot();
+    set((state) => {
+      // блок без своей группы во фрагменте попадает в группу, над которой его вставили
+      const placed = pasted.map((node): FlowNode => {
+        if (node.parentNode) return { ...node, parentNode: idMap.get(node.parentNode), selected: true };
+        const lane = isSwimlane(node) ? undefined : findSwimlaneAt(node.position, state.nodes);
+        return lane
+          ? {
+              ...node,
+              parentNode: lane.id,
+              position: { x: node.position.x - lane.position.x, y: node.position.y - lane.position.y },
+              selected: true,
+            }
+          : { ...node, selected: true };
+      });
+
+      return {
+        nodes: sortSwimlanesFirst(
+          state.nodes.map((node) => (node.selected ? { ...node, selected: false } : node)).concat(placed)
+        ),
+        selectedNodeId: placed[0].id,
+        isDirty: true,
+      };
+    });
+    get().setEdges((current) => current.concat(edges));
+  },
+
+  duplicateSelection: async () => {
+    const { flowName, nodes, edges } = get();
+    await get().pasteFragment(exportSelection(flowName, nodes, edges, { keepSecrets: true }));
+  },
+
+  undoStack: [],
+  redoStack: [],
+
+  // ↶ снимок делается перед изменением; подряд идущие правки с одним ключом объединяются
+  takeSnapshot: (mergeKey) => {
+    if (historyMeta.isReplaying) return;
+
+    const now = Date.now();
+    const isMerged =
+      mergeKey !== undefined &&
+      historyMeta.key === mergeKey &&
+      now - historyMeta.at < HISTORY_MERGE_WINDOW_MS;
+
+    historyMeta.key = mergeKey;
+    historyMeta.at = now;
+    if (isMerged) return;
+
+    set((state) => ({
+      undoStack: pushSnapshot(state.undoStack, createSnapshot(state.nodes, state.edges)),
+      redoStack: [],
+    }));
+  },
+
+  // 🧭 раскладка — одно действие в истории: снимок до начала, затем только анимация
+  arrangeNodes: () => {
+    const { nodes, edges } = get();
+    const targets = layoutFlow(nodes, edges);
+    const starts = new Map(nodes.map((node) => [node.id, node.position]));
+    const isArranged = nodes.every((node) => {
+      const target = targets.get(node.id);
+      return !target || (target.x === node.position.x && target.y === node.position.y);
+    });
+    if (isArranged || arrangeFrame !== null) return Promise.resolve();
+
+    get().takeSnapshot();
+
+    return new Promise<void>((resolve) => {
+      const startedAt = performance.now();
+      const step = (now: number) => {
+        const progress = Math.min(1, (now - startedAt) / ARRANGE_DURATION_MS);
+        const eased = easeOutCubic(progress);
+        set((state) => ({
+          nodes: state.nodes.map((node) => {
+            const from = starts.get(node.id);
+            const to = targets.get(node.id);
+            if (!from || !to) return node;
+            return {
+              ...node,
+              position: { x: from.x + (to.x - from.x) * eased, y: from.y + (to.y - from.y) * eased },
+            };
+          }),
+          isDirty: true,
+        }));
+
+        if (progress < 1) {
+          arrangeFrame = requestAnimationFrame(step);
+        } else {
+          arrangeFrame = null;
+          resolve();
+        }
+      };
+      arrangeFrame = requestAnimationFrame(step);
+    });
+  },
+
+  undo: async () => {
+    const target = get().undoStack.at(-1);
+    if (!target || historyMeta.isReplaying) return;
+
+    set((state) => ({
+      undoStack: state.undoStack.slice(0, -1),
+      redoStack: pushSnapshot(state.redoStack, createSnapshot(state.nodes, state.edges)),
+    }));
+    await applySnapshot(target);
+  },
+
+  redo: async () => {
+    const target = get().redoStack.at(-1);
+    if (!target || historyMeta.isReplaying) return;
+
+    set((state) => ({
+      redoStack: state.redoStack.slice(0, -1),
+      undoStack: pushSnapshot(state.undoStack, createSnapshot(state.nodes, state.edges)),
+    }));
+    await applySnapshot(target);
+  },
+
+  nodeOutputs: {},
+  webhookAttempts: {},
+
+  // 🪝 доставка вебхука через сервер; каждая попытка попадает в историю блока
+  deliverWebhook: (nodeId, config, body, signal) =>
+    sendSignedWebhook(config, body, {
+      signal,
+      onAttempt: (attempt) =>
+        set((state) => ({
+          webhookAttempts: {
+            ...state.webhookAttempts,
+            [nodeId]: [attempt, ...(state.webhookAttempts[nodeId] ?? [])].slice(0, WEBHOOK_ATTEMPTS_LIMIT),
+          },
+        })),
+    }),
+
+  // ▶ прогоны повторяются, пока сценарий не остановят
+  runFlow: async () => {
+    if (runController) return;
+
+    const { nodes, edges } = get();
+    const errors = validateFlow(nodes, edges).filter((problem) => problem.severity === "error");
+    if (errors.length > 0) {
+      console.error("[FlowStore] Сценарий не запущен, ошибок:", errors.length);
+      set({ isProblemsOpen: true });
+      return;
+    }
+
+    const controller = new AbortController();
+    runController = controller;
+    // счётчики шумоподавления живут, пока сценарий не остановят
+    const memory = new Map<string, unknown>();
+    set({ isRunning: true, nodeOutputs: {} });
+
+    try {
+      while (!controller.signal.aborted) {
+        const { nodes, edges } = get();
+        setNodeStatuses(new Map(nodes.map((node) => [node.id, "idle"])));
+        set({ lastRunAt: new Date() });
+
+        const results = await executeFlow(nodes, edges, {
+          signal: controller.signal,
+          fetchLatestLog: (url, maxGap) => fetchLatestLog(url, { signal: controller.signal, maxGap }),
+          fetchRecentLogs: (url, count) => fetchRecentLogs(url, count, { signal: controller.signal }),
+          completeChat: (config, prompt, signal) => completeChat(config, prompt, { signal }),
+          sendMessenger: (url, payload, signal) => sendMessengerWebhook(url, payload, { signal }),
+          sendEmail: (config, message, signal) => sendEmail(config, message, { signal }),
+          deliverWebhook: (nodeId, config, body, signal) => get().deliverWebhook(nodeId, config, body, signal),
+          memory,
+          onNodeStart: (nodeId) => setNodeStatuses(new Map([[nodeId, "running"]])),
+          onNodeFinish: (nodeId, result) => {
+            setNodeStatuses(new Map([[nodeId, result.status]]));
+            set((state) => ({ nodeOutputs: { ...state.nodeOutputs, [nodeId]: result } }));
+          },
+        });
+        set({ nodeOutputs: results });
+
+        await waitForNextRun(getRunInterval(get().nodes), controller.signal);
+      }
+    } catch (err) {
+      if (!(err instanceof FlowAbortedError)) {
+        console.error("[FlowStore] Ошибка выполнения сценария:", err);
+      }
+    } finally {
+      runController = null;
+      set({ isRunning: false });
+    }
+  },
+
+  isProblemsOpen: false,
+  setProblemsOpen: (open) => set({ isProblemsOpen: open }),
+
+  stopFlow: () => {
+    runController?.abort();
+    const running = get().nodes.filter((node) => node.data.status === "running");
+    setNodeStatuses(new Map(running.map((node) => [node.id, "idle"])));
+  },
+
+  // 💾 сохранить документ сценария
+  saveFlow: async () => {
+    // правки, сделанные во время идущего сохранения, уходят следующим запросом
+    if (pendingSave) {
+      const saved = await pendingSave;
+      return saved && get().isDirty ? get().saveFlow() : saved;
+    }
+
+    const persist = async () => {
+      const { activeFlowId, flowName, nodes, edges } = get();
+      const generation = workspaceGeneration;
+      set({ isSaving: true });
+      try {
+        const document = serializeFlow(flowName, nodes, edges);
+        const saved = activeFlowId
+          ? await saveFlowDocument(activeFlowId, document)
+          : await createFlowDocument(document);
+        if (generation !== workspaceGeneration) return false;
+        writeFlowSecrets(saved.id, collectSecrets(nodes));
+        const summary = toFlowSummary(saved);
+
+        if (!activeFlowId) {
+          storeActiveFlowId(saved.id);
+        }
+
+        set((state) => ({
+          activeFlowId: saved.id,
+          flows: state.flows.some((flow) => flow.id === saved.id)
+            ? state.flows.map((flow) => (flow.id === saved.id ? summary : flow))
+            : state.flows.concat(summary),
+          // правки, сделанные во время запроса, остаются несохранёнными; статусы прогона
+          // меняют nodes, но в документ не попадают, поэтому сравниваются документы и секреты
+          isDirty:
+            JSON.stringify(serializeFlow(state.flowName, state.nodes, state.edges)) !== JSON.stringify(document) ||
+            JSON.stringify(collectSecrets(state.nodes)) !== JSON.stringify(collectSecrets(nodes)),
+          lastSavedAt: saved.updated_at ? new Date(saved.updated_at) : new Date(),
+        }));
+        return true;
+      } catch (err) {
+        console.error("[FlowStore] Ошибка сохранения сценария:", err);
+        return false;
+      } finally {
+        set({ isSaving: false });
+      }
+    };
+
+    pendingSave = persist().finally(() => {
+      pendingSave = null;
+    });
+    return pendingSave;
+  },
 
   isRunning: false,
   isDirty: false,
+  isSaving: false,
   lastRunAt: undefined,
   lastSavedAt: undefined,
-}));
+}));
\ No newline at end of file
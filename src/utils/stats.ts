@@ -10,6 +10,16 @@ export type LogRecord = {
   dns_resolved: number | boolean | null;
   redirects: number | null;
   url?: string | null;
+  // результаты утверждений сайта (com.assertions), если сервер их проверял
+  assertions?: AssertionResult[] | null;
+};
+
+export type AssertionResult = {
+  id: string;
+  passed: boolean;
+  // фактическое значение из ответа, если его удалось получить
+  actual?: string | null;
+  error?: string | null;
 };
 
 export type TrafficLightAggregate = {
@@ -1,56 +1,233 @@
 import type { Connection, Edge } from "reactflow";
 
-import type { BlockVariant, FlowNode } from "../flow/nodes/types";
-
-const forbiddenConnections: Partial<Record<BlockVariant, BlockVariant[]>> = {
-  llm: ["website", "telegram"],
-  messenger: ["llm", "website", "telegram"],
-  telegram: ["llm", "website", "messenger"],
-};
+import { NODE_PORTS, type PayloadKind } from "../flow/library";
+import { CONDITION_BRANCHES, CONDITION_BRANCH_LABELS, isConditionBranch } from "../flow/nodes/condition";
+import { normalizeEmailConfig, validateEmailConfig } from "../flow/nodes/email";
+import { normalizeLlmConfig, validateLlmConfig } from "../flow/nodes/llm";
+import { normalizeMessengerConfig, validateMessengerConfig } from "../flow/nodes/messenger";
+import { normalizeTelegramConfig } from "../flow/nodes/telegram";
+import { isMonitorVariant, isSwimlane, type BlockVariant, type FlowNode } from "../flow/nodes/types";
+import { normalizeWebhookConfig, validateWebhookConfig } from "../flow/nodes/webhook";
 
 type ConnectionContext = {
   nodes: FlowNode[];
   edges: Edge[];
 };
 
-export function canConnect(connection: Connection, context: ConnectionContext): boolean {
+const PAYLOAD_LABELS: Record<PayloadKind, string> = {
+  check: "результаты проверок",
+  message: "сообщения",
+  delivery: "отчёты о доставке",
+};
+
+const listKinds = (kinds: PayloadKind[]) => kinds.map((kind) => PAYLOAD_LABELS[kind]).join(" и ");
+
+// Почему связь нельзя провести; undefined — связь допустима
+export function explainConnection(connection: Connection, context: ConnectionContext): string | undefined {
   const { source, target } = connection;
 
   if (!source || !target) {
-    return false;
+    return "Связь должна вести от выхода ко входу";
   }
 
   if (source === target) {
-    return false;
+    return "Блок нельзя соединить с самим собой";
   }
 
   const sourceNode = context.nodes.find((node) => node.id === source);
   const targetNode = context.nodes.find((node) => node.id === target);
+  const sourceType = sourceNode?.type as BlockVariant | undefined;
+  const targetType = targetNode?.type as BlockVariant | undefined;
 
-  if (!sourceNode || !targetNode) {
-    return false;
+  if (!sourceNode || !targetNode || !sourceType || !targetType) {
+    return "Блок не найден";
   }
 
-  const sourceType = sourceNode.type as BlockVariant | undefined;
-  const targetType = targetNode.type as BlockVariant | undefined;
+  if (!NODE_PORTS[sourceType] || !NODE_PORTS[targetType]) {
+    return "Группы не соединяются связями";
+  }
+
+  const sourceTitle = sourceNode.data.title || sourceType;
+  const targetTitle = targetNode.data.title || targetType;
+  const output = NODE_PORTS[sourceType].outputs.find((port) =>
+    port.handle ? port.handle === connection.sourceHandle : !isConditionBranch(connection.sourceHandle)
+  );
+  const input = NODE_PORTS[targetType].input;
 
-  if (!sourceType || !targetType) {
-    return false;
+  if (NODE_PORTS[sourceType].outputs.length === 0) {
+    return `«${sourceTitle}» — конечный блок, выходов у него нет`;
   }
 
-  const restrictedTargets = forbiddenConnections[sourceType];
+  if (!output) {
+    const handles = NODE_PORTS[sourceType].outputs.flatMap((port) => (port.handle ? [port.handle] : []));
+    return `Из «${sourceTitle}» ведут только выходы ${handles
+      .map((handle) => `«${CONDITION_BRANCH_LABELS[handle]}»`)
+      .join(" и ")}`;
+  }
 
-  if (restrictedTargets?.includes(targetType)) {
-    return false;
+  if (!input) {
+    return `«${targetTitle}» — источник, входов у него нет`;
   }
 
-  const hasDuplicateEdge = context.edges.some(
-    (edge) => edge.source === source && edge.target === target
-  );
+  if (input.onlyFrom && !input.onlyFrom.variants.includes(sourceType)) {
+    return input.onlyFrom.reason;
+  }
+
+  if (!output.emits.some((kind) => input.accepts.includes(kind))) {
+    return `«${targetTitle}» принимает ${listKinds(input.accepts)}, а «${sourceTitle}» отдаёт ${listKinds(output.emits)}`;
+  }
+
+  const hasDuplicateEdge = context.edges.some((edge) => edge.source === source && edge.target === target);
 
   if (hasDuplicateEdge) {
-    return false;
+    return "Эти блоки уже соединены";
+  }
+
+  const outputEdges = context.edges.filter(
+    (edge) => edge.source === source && (!output.handle || edge.sourceHandle === output.handle)
+  ).length;
+  if (output.max !== undefined && outputEdges >= output.max) {
+    return `У «${sourceTitle}» уже максимум исходящих связей: ${output.max}`;
+  }
+
+  const inputEdges = context.edges.filter((edge) => edge.target === target).length;
+  if (input.max !== undefined && inputEdges >= input.max) {
+    return `У «${targetTitle}» уже максимум входящих связей: ${input.max}`;
+  }
+
+  return undefined;
+}
+
+export function canConnect(connection: Connection, context: ConnectionContext): boolean {
+  return explainConnection(connection, context) === undefined;
+}
+
+export type FlowProblemSeverity = "error" | "warning";
+
+export type FlowProblem = {
+  id: string;
+  severity: FlowProblemSeverity;
+  nodeId: string;
+  message: string;
+};
+
+const DELIVERY_VARIANTS: BlockVariant[] = ["telegram", "messenger", "email", "webhook"];
+
+// Ошибка настроек блока, из-за которой он упадёт при запуске
+const configProblem = (node: FlowNode): string | undefined => {
+  switch (node.type) {
+    case "llm":
+      return validateLlmConfig(normalizeLlmConfig(node.data.llm));
+    case "telegram":
+      return normalizeTelegramConfig(node.data.telegram).chats.length === 0 ? "Не указан ни один чат" : undefined;
+    case "messenger":
+      return validateMessengerConfig(normalizeMessengerConfig(node.data.messenger));
+    case "email":
+      return validateEmailConfig(normalizeEmailConfig(node.data.email));
+    case "webhook":
+      return validateWebhookConfig(normalizeWebhookConfig(node.data.webhook));
+    default:
+      return undefined;
+  }
+};
+
+const collectReachable = (starts: string[], next: Map<string, string[]>) => {
+  const visited = new Set<string>();
+  const stack = [...starts];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(next.get(id) ?? []));
   }
+  return visited;
+};
+
+// Проверка сценария целиком: ошибки блокируют запуск, предупреждения — нет
+export function validateFlow(nodes: FlowNode[], edges: Edge[]): FlowProblem[] {
+  const problems: FlowProblem[] = [];
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+  const titleOf = (id: string) => nodeMap.get(id)?.data.title || id;
+
+  const outgoing = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    if (!nodeMap.has(edge.source) || !nodeMap.has(edge.target)) return;
+    outgoing.set(edge.source, (outgoing.get(edge.source) ?? []).concat(edge.target));
+  });
+
+  const sources = nodes.filter((node) => isMonitorVariant(node.type)).map((node) => node.id);
+  const fed = collectReachable(sources, outgoing);
+
+  // узлы цикла достижимы сами из себя; одна проблема на каждый цикл
+  const inCycle = new Set<string>();
+  nodes.forEach((node) => {
+    if (inCycle.has(node.id)) return;
+    const ahead = collectReachable(outgoing.get(node.id) ?? [], outgoing);
+    if (!ahead.has(node.id)) return;
+
+    const members = nodes.filter(
+      (candidate) =>
+        ahead.has(candidate.id) && collectReachable(outgoing.get(candidate.id) ?? [], outgoing).has(node.id)
+    );
+    members.forEach((member) => inCycle.add(member.id));
+    problems.push({
+      id: `cycle:${node.id}`,
+      severity: "error",
+      nodeId: node.id,
+      message: `Цикл: ${members.map((member) => titleOf(member.id)).join(" → ")}`,
+    });
+  });
+
+  nodes.forEach((node) => {
+    const type = node.type as BlockVariant | undefined;
+    const title = titleOf(node.id);
+    if (isSwimlane(node)) return;
+
+    const configError = configProblem(node);
+    if (configError) {
+      problems.push({ id: `config:${node.id}`, severity: "error", nodeId: node.id, message: `${title}: ${configError}` });
+    }
+
+    if (isMonitorVariant(type)) {
+      const downstream = collectReachable(outgoing.get(node.id) ?? [], outgoing);
+      const delivers = Array.from(downstream).some((id) =>
+        DELIVERY_VARIANTS.includes(nodeMap.get(id)?.type as BlockVariant)
+      );
+      if (!delivers) {
+        problems.push({
+          id: `dead-end:${node.id}`,
+          severity: "warning",
+          nodeId: node.id,
+          message: `${title}: результаты проверок не доходят ни до одного блока доставки`,
+        });
+      }
+      return;
+    }
+
+    if (!fed.has(node.id)) {
+      problems.push({
+        id: `orphan:${node.id}`,
+        severity: "warning",
+        nodeId: node.id,
+        message: DELIVERY_VARIANTS.includes(type as BlockVariant)
+          ? `${title}: ни один сайт не ведёт к этому блоку, отправлять нечего`
+          : `${title}: блок не получает данных ни от одного сайта`,
+      });
+    }
+
+    if (type === "condition") {
+      CONDITION_BRANCHES.filter(
+        (branch) => !edges.some((edge) => edge.source === node.id && edge.sourceHandle === branch)
+      ).forEach((branch) =>
+        problems.push({
+          id: `branch:${node.id}:${branch}`,
+          severity: "warning",
+          nodeId: node.id,
+          message: `${title}: выход «${CONDITION_BRANCH_LABELS[branch]}» никуда не ведёт`,
+        })
+      );
+    }
+  });
 
-  return true;
+  return problems.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
 }
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_PROFILE?: string;
+  readonly VITE_API_URL_LOCAL?: string;
+  readonly VITE_API_URL_STAGING?: string;
+  readonly VITE_API_URL_PRODUCTION?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
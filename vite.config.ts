@@ -1,9 +1,55 @@
-import { defineConfig } from "vite"
+import { defineConfig, type Plugin } from "vite"
 import react from "@vitejs/plugin-react"
 import { fileURLToPath, URL } from "node:url"
 
+const MOCK_WEBHOOK_PATH = "/__mock/webhook"
+const MOCK_WEBHOOK_HISTORY = 20
+
+// Локальный приёмник вебхуков для проверки блока «Мессенджер» без настоящего Slack/Discord:
+// POST печатается в консоль dev-сервера, GET отдаёт последние полученные запросы
+function mockWebhookReceiver(): Plugin {
+  const received: { at: string; body: unknown }[] = []
+
+  return {
+    name: "pingtower-mock-webhook",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(MOCK_WEBHOOK_PATH, (req, res) => {
+        res.setHeader("Content-Type", "application/json")
+
+        if (req.method === "GET") {
+          res.end(JSON.stringify(received))
+          return
+        }
+        if (req.method !== "POST") {
+          res.statusCode = 405
+          res.end(JSON.stringify({ detail: "Только GET и POST" }))
+          return
+        }
+
+        let raw = ""
+        req.on("data", (chunk) => {
+          raw += chunk
+        })
+        req.on("end", () => {
+          let body: unknown = raw
+          try {
+            body = JSON.parse(raw)
+          } catch {
+            // не JSON — сохраняем как текст
+          }
+          received.unshift({ at: new Date().toISOString(), body })
+          received.splice(MOCK_WEBHOOK_HISTORY)
+          server.config.logger.info(`[mock-webhook] ${JSON.stringify(body)}`, { timestamp: true })
+          res.end(JSON.stringify({ ok: true }))
+        })
+      })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mockWebhookReceiver()],
   resolve: {
     alias: {
       "@": fileURLToPath(new URL("./src", import.meta.url)),